@@ -2,26 +2,39 @@ import * as dotenv from "dotenv"
 
 dotenv.config()
 
-import { encodePacked, keccak256 } from "viem"
-import { DEMOLOGIC_ABI, ENTRYPOINT_ABI } from "./abi"
-import type { Address, BundlerSendUoResponse, Hex, UserOperationReceipt } from "./types"
+import {
+  type Address,
+  BundlerClient,
+  canonicalUserOpHasher,
+  createGasPriceStrategy,
+  decodeNonce,
+  encodeExecute,
+  type Hex,
+  packedUserOpHasher,
+  SmartAccountClient,
+  type UserOperationReceipt
+} from "aa-demo-sdk"
+import { scrollSepolia } from "viem/chains"
+import { DEMOLOGIC_ABI } from "./abi"
 import {
   buildUserOperation,
   CYAN,
   createRpcClient,
-  encodeExecute,
   encodeIncrementCall,
   ensureAaFunded,
   envAddress,
+  envBigInt,
   envHex,
+  envNumber,
   envValue,
   GREEN,
-  getBundlerGasPrices,
+  getGasPrices,
   getOwnerWallet,
+  logFatalError,
   MAGENTA,
   RESET,
   readDemoCount,
-  signUserOperationHash,
+  signUserOperation,
   waitForReceipt,
   YELLOW
 } from "./utils"
@@ -66,6 +79,64 @@ const { account: owner, wallet } = getOwnerWallet(RPC_URL, OWNER_PK)
 // NOT for executing the actual logic. The Smart Account executes logic via UserOps.
 const rpc = createRpcClient(RPC_URL)
 
+// Gas prices: GAS_PRICE_STRATEGY picks the source (fee-history = Scroll RPC
+// eth_feeHistory + eth_maxPriorityFeePerGas, pimlico = Pimlico bundlers only,
+// fixed = FIXED_MAX_FEE_PER_GAS / FIXED_MAX_PRIORITY_FEE_PER_GAS in wei)
+// and GAS_PRICE_TIER the speed (slow | standard | fast).
+const gasPriceStrategy = createGasPriceStrategy(
+  {
+    strategy: process.env.GAS_PRICE_STRATEGY,
+    tier: process.env.GAS_PRICE_TIER,
+    fixed: {
+      maxFeePerGas: envBigInt(process.env.FIXED_MAX_FEE_PER_GAS, "FIXED_MAX_FEE_PER_GAS"),
+      maxPriorityFeePerGas: envBigInt(
+        process.env.FIXED_MAX_PRIORITY_FEE_PER_GAS,
+        "FIXED_MAX_PRIORITY_FEE_PER_GAS"
+      )
+    }
+  },
+  { bundler: new BundlerClient(BUNDLER_URL), publicClient: rpc }
+)
+
+// userOpHash: the DemoAccount verifies the canonical EntryPoint.getUserOpHash
+// (all fields + EntryPoint + chainId), computed locally and cross-checked
+// on-chain. Accounts deployed before that change verify the legacy
+// keccak256(sender, nonce, keccak256(callData)): set LEGACY_USER_OP_HASH=true.
+const LEGACY_USER_OP_HASH = process.env.LEGACY_USER_OP_HASH === "true"
+const hashUserOp = LEGACY_USER_OP_HASH
+  ? packedUserOpHasher()
+  : canonicalUserOpHasher({
+      entryPoint: SC_ENTRYPOINT_ADDRESS,
+      chainId: scrollSepolia.id,
+      crossCheck: rpc
+    })
+
+// Nonce key (uint192, default 0): the EntryPoint keeps a separate sequence per key,
+// so ops sent with different NONCE_KEY values do not wait for each other.
+const NONCE_KEY = envBigInt(process.env.NONCE_KEY, "NONCE_KEY") ?? 0n
+
+// Shared SDK client: wraps nonce reads, hashing, signing and bundler calls.
+const aa = new SmartAccountClient({
+  publicClient: rpc,
+  bundlerUrl: BUNDLER_URL,
+  entryPoint: SC_ENTRYPOINT_ADDRESS,
+  sender: SC_SMART_ACCOUNT_ADDRESS,
+  signer: owner,
+  hashUserOp,
+  gasPriceStrategy,
+  gasMultipliers: {
+    callGasLimit: envNumber(process.env.CALL_GAS_MULTIPLIER, "CALL_GAS_MULTIPLIER"),
+    verificationGasLimit: envNumber(
+      process.env.VERIFICATION_GAS_MULTIPLIER,
+      "VERIFICATION_GAS_MULTIPLIER"
+    ),
+    preVerificationGas: envNumber(
+      process.env.PRE_VERIFICATION_GAS_MULTIPLIER,
+      "PRE_VERIFICATION_GAS_MULTIPLIER"
+    )
+  }
+})
+
 // ============================================================================
 // DISPLAY
 // ============================================================================
@@ -102,17 +173,15 @@ async function main(): Promise<void> {
   await ensureAaFunded(rpc, wallet, owner, SC_SMART_ACCOUNT_ADDRESS)
 
   // Step 2 (nonce)
-  console.log(`\n${CYAN}[NONCE READ]${RESET} Fetching Smart Account nonce from EntryPoint…`)
-  const nonceBN = await rpc.readContract({
-    address: SC_ENTRYPOINT_ADDRESS,
-    abi: ENTRYPOINT_ABI,
-    functionName: "getNonce",
-    args: [SC_SMART_ACCOUNT_ADDRESS, 0n]
-  })
-  console.log(`Nonce retrieved: ${nonceBN}\n`)
+  // The nonce manager reserves the next sequence of NONCE_KEY, after any op of
+  // this client still in flight on that key.
+  console.log(`\n${CYAN}[NONCE READ]${RESET} Reserving Smart Account nonce (key ${NONCE_KEY})…`)
+  const nonceBN = await aa.nonces.reserve(NONCE_KEY)
+  const { key, sequence } = decodeNonce(nonceBN)
+  console.log(`Nonce retrieved: ${nonceBN} (key ${key}, sequence ${sequence})\n`)
 
-  // Step 3 (Bundler gas values)
-  const { maxFeePerGas, maxPriorityFeePerGas } = await getBundlerGasPrices(BUNDLER_URL)
+  // Step 3 (gas price values)
+  const gasPrices = await getGasPrices(aa)
 
   // Step 4 (calldata)
   console.log(`
@@ -128,12 +197,10 @@ SmartAccount.execute(
   const callData: Hex = encodeExecute(SC_DEMO_LOGIC_ADDRESS, 0n, incrementCall)
 
   // Step 5: Build userOp (without signature/paymaster)
-  const userOp = buildUserOperation({
-    sender: SC_SMART_ACCOUNT_ADDRESS,
+  const userOp = await buildUserOperation(aa, {
     nonce: nonceBN,
     callData,
-    maxFeePerGas,
-    maxPriorityFeePerGas
+    gasPrices
   })
 
   // Step 6 (hash computation to signature)
@@ -142,54 +209,40 @@ ${YELLOW}[HASH COMPUTATION]${RESET}
 Computing userOpHash exactly as Smart Account does in validateUserOp()...
 `)
 
-  // Build a compact byte array (encodePacked) with address + nonce + callData hash,
-  // then hash it with keccak256 to produce the message the smart account will verify.
-  const rawHash: Hex = keccak256(
-    encodePacked(
-      ["address", "uint256", "bytes32"],
-      [SC_SMART_ACCOUNT_ADDRESS, nonceBN, keccak256(callData)]
-    )
-  ) as Hex
+  // Canonical hash: abi.encode every field (initCode, callData and
+  // paymasterAndData hashed, signature excluded), keccak256 it, then hash again
+  // with the EntryPoint address and chainId. The EntryPoint passes this same
+  // value to validateUserOp, so the signature is bound to this chain and these
+  // exact gas / paymaster values.
+  // (Legacy mode: keccak256(sender, nonce, keccak256(callData)) only.)
+  const rawHash: Hex = await aa.getUserOpHash(userOp)
   console.log(`userOpHash:\n${rawHash}\n`)
 
   // Step 7 (user operation signature)
-  const signature: Hex = await signUserOperationHash(owner, rawHash)
-  userOp.signature = signature
+  const signedUserOp = await signUserOperation(aa, userOp)
 
   // Step 8 (bundler submission)
   console.log(`
 ${CYAN}[BUNDLER SUBMISSION]${RESET}
 Sending UserOperation to bundler (eth_sendUserOperation)...
 `)
-  const sendReq = {
-    jsonrpc: "2.0",
-    method: "eth_sendUserOperation",
-    params: [userOp, SC_ENTRYPOINT_ADDRESS],
-    id: 1
-  }
-
-  const sendRes = await fetch(BUNDLER_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(sendReq)
-  }).then((r) => r.json() as Promise<BundlerSendUoResponse>)
+  const uoHash = await aa.send(signedUserOp)
 
   console.log(`
-Bundler response received:
-${JSON.stringify(sendRes, null, 2)}
-
 UserOperation tracking hash (bundler → EntryPoint):
-→ ${sendRes.result}
+→ ${uoHash}
 `)
 
-  if (!sendRes.result || typeof sendRes.result !== "string") {
-    console.error("Invalid bundler response:", sendRes)
-    throw new Error("Bundler did not return a valid operation hash")
-  }
-
   // step: 9 (receipt wait)
-  console.log(`\n${CYAN}[RECEIPT CHECK]${RESET} Waiting for UserOperation receipt...`)
-  const receipt: UserOperationReceipt = await waitForReceipt(BUNDLER_URL, sendRes.result)
+  // Ctrl+C stops waiting instead of leaving the poll loop running.
+  const abort = new AbortController()
+  const onSigint = () => abort.abort(new Error("Receipt wait cancelled (SIGINT)"))
+  process.once("SIGINT", onSigint)
+
+  const receipt: UserOperationReceipt = await waitForReceipt(aa, uoHash, {
+    timeoutMs: envNumber(process.env.RECEIPT_TIMEOUT_MS, "RECEIPT_TIMEOUT_MS"),
+    signal: abort.signal
+  }).finally(() => process.off("SIGINT", onSigint))
 
   // Step 10 (final read & display)
   const after = await readDemoCount(rpc, SC_DEMO_LOGIC_ADDRESS, DEMOLOGIC_ABI, "AFTER")
@@ -215,6 +268,7 @@ This confirms:
 }
 
 main().catch((err: unknown) => {
-  console.error("Fatal error in client:")
-  console.error(err)
+  logFatalError(err)
+  // Non-zero exit so scripts (e.g. the e2e harness) notice the failure
+  process.exitCode = 1
 })
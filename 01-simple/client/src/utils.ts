@@ -1,40 +1,33 @@
+import {
+  type Address,
+  BundlerError,
+  type GasPrices,
+  type Hex,
+  type SmartAccountClient,
+  type UserOperation,
+  type UserOperationReceipt,
+  type WaitForReceiptOptions
+} from "aa-demo-sdk"
 import {
   createPublicClient,
   createWalletClient,
   encodeFunctionData,
-  encodePacked,
   http,
   isAddress,
-  keccak256,
   parseEther
 } from "viem"
 import { privateKeyToAccount } from "viem/accounts"
 import { scrollSepolia } from "viem/chains"
-import { EXECUTE_ABI, INCREMENT_ABI } from "./abi"
-import type { Address, GasPrices, Hex, ReceiptResponse, UserOperationReceipt } from "./types"
+import { INCREMENT_ABI } from "./abi"
 
 // Colors
 export const CYAN = "\x1b[36m"
 export const GREEN = "\x1b[32m"
 export const YELLOW = "\x1b[33m"
 export const MAGENTA = "\x1b[35m"
+export const RED = "\x1b[31m"
 export const RESET = "\x1b[0m"
 
-// UserOperation type local to utils
-interface UserOperation {
-  sender: Address
-  nonce: Hex
-  initCode: Hex
-  callData: Hex
-  callGasLimit: Hex
-  verificationGasLimit: Hex
-  preVerificationGas: Hex
-  maxFeePerGas: Hex
-  maxPriorityFeePerGas: Hex
-  paymasterAndData: Hex
-  signature: Hex
-}
-
 // ---------------------- ENV HELPERS ----------------------
 export function envAddress(v: string | undefined, name: string): Address {
   if (!v) throw new Error(`Missing env var: ${name}`)
@@ -53,6 +46,24 @@ export function envValue(v: string | undefined, name: string): string {
   return v
 }
 
+// Optional positive number (e.g. gas multipliers); undefined lets the SDK default apply.
+export function envNumber(v: string | undefined, name: string): number | undefined {
+  if (!v) return undefined
+  const n = Number(v)
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`Invalid number in ${name}: ${v}`)
+  return n
+}
+
+// Optional wei amount (e.g. fixed gas prices); undefined when unset.
+export function envBigInt(v: string | undefined, name: string): bigint | undefined {
+  if (!v) return undefined
+  try {
+    return BigInt(v)
+  } catch {
+    throw new Error(`Invalid integer in ${name}: ${v}`)
+  }
+}
+
 // ---------------------- RPC CLIENTS ----------------------
 export function createRpcClient(rpcUrl: string) {
   return createPublicClient({
@@ -82,10 +93,6 @@ export type WalletClient = ReturnType<typeof getOwnerWallet>["wallet"]
 export type OwnerAccount = ReturnType<typeof getOwnerWallet>["account"]
 
 // ---------------------- ENCODING HELPERS ----------------------
-export function toHex(v: bigint | number): Hex {
-  return `0x${BigInt(v).toString(16)}` as Hex
-}
-
 export function encodeIncrementCall(): Hex {
   return encodeFunctionData({
     abi: INCREMENT_ABI,
@@ -93,14 +100,6 @@ export function encodeIncrementCall(): Hex {
   })
 }
 
-export function encodeExecute(target: Address, value: bigint, data: Hex): Hex {
-  return encodeFunctionData({
-    abi: EXECUTE_ABI,
-    functionName: "execute",
-    args: [target, value, data]
-  })
-}
-
 // ---------------------- PREFUND (NO PAYMASTER) ----------------------
 const MIN_AA_BALANCE = parseEther("0.005")
 
@@ -152,54 +151,18 @@ Will top-up from Owner EOA…
 }
 
 // ---------------------- GAS PRICES ----------------------
-type BundlerGasPriceResponse = {
-  result?: {
-    standard?: {
-      maxFeePerGas: bigint | string | number
-      maxPriorityFeePerGas: bigint | string | number
-    }
-    fast?: {
-      maxFeePerGas: bigint | string | number
-      maxPriorityFeePerGas: bigint | string | number
-    }
-    slow?: {
-      maxFeePerGas: bigint | string | number
-      maxPriorityFeePerGas: bigint | string | number
-    }
-    maxFeePerGas?: bigint | string | number
-    maxPriorityFeePerGas?: bigint | string | number
-  }
-}
+export async function getGasPrices(aa: SmartAccountClient): Promise<GasPrices> {
+  const { name, tier } = aa.gasPriceStrategy
 
-export async function getBundlerGasPrices(bundlerUrl: string): Promise<GasPrices> {
   console.log(`
-${CYAN}[BUNDLER GAS QUOTE]${RESET}
-Requesting gas values from Pimlico bundler…
+${CYAN}[GAS PRICE QUOTE]${RESET}
+Requesting gas values (strategy: ${name}, tier: ${tier})…
 `)
 
-  const body = {
-    jsonrpc: "2.0",
-    id: 1,
-    method: "pimlico_getUserOperationGasPrice",
-    params: []
-  }
-
-  const res = await fetch(bundlerUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body)
-  }).then((r) => r.json() as Promise<BundlerGasPriceResponse>)
-
-  const result = res.result
-  if (!result) throw new Error("Bundler did not return gas price result")
-
-  const gp = result.standard ?? result.fast ?? result.slow ?? result
-
-  const maxFeePerGas = BigInt(gp.maxFeePerGas as bigint | number | string)
-  const maxPriorityFeePerGas = BigInt(gp.maxPriorityFeePerGas as bigint | number | string)
+  const { maxFeePerGas, maxPriorityFeePerGas } = await aa.getGasPrices()
 
   console.log(`
-Bundler suggests:
+Strategy suggests:
   maxFeePerGas:        ${maxFeePerGas}
   maxPriorityFeePerGas:${maxPriorityFeePerGas}
 `)
@@ -227,84 +190,98 @@ export async function readDemoCount(
 }
 
 // ---------------------- SIGNATURE ----------------------
-export async function signUserOperationHash(owner: OwnerAccount, rawHash: Hex): Promise<Hex> {
+export async function signUserOperation(
+  aa: SmartAccountClient,
+  userOp: UserOperation
+): Promise<UserOperation> {
   console.log(`
 ${GREEN}[SIGNATURE]${RESET}
 Owner EOA is signing the UserOperation hash.
 `)
 
-  const signature = (await owner.signMessage({
-    message: { raw: rawHash }
-  })) as Hex
+  const signed = await aa.sign(userOp)
 
-  console.log(`Signature produced: ${signature}\n`)
-  return signature
+  console.log(`Signature produced: ${signed.signature}\n`)
+  return signed
 }
 
 // ---------------------- WAIT RECEIPT ----------------------
 export async function waitForReceipt(
-  bundlerUrl: string,
-  uoHash: string
+  aa: SmartAccountClient,
+  uoHash: Hex,
+  options?: WaitForReceiptOptions
 ): Promise<UserOperationReceipt> {
   console.log(`\n${CYAN}[RECEIPT CHECK]${RESET} Waiting for UserOperation receipt...`)
+  console.log("(exponential backoff, EntryPoint log fallback, Ctrl+C cancels)")
 
-  while (true) {
-    const req = {
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_getUserOperationReceipt",
-      params: [uoHash]
-    }
-
-    const res = (await fetch(bundlerUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(req)
-    }).then((r) => r.json())) as ReceiptResponse
-
-    if (res.result) {
-      console.log(`${GREEN}UserOperation RECEIPT FOUND:${RESET}`)
-      console.log(JSON.stringify(res.result, null, 2))
-      return res.result
-    }
-
-    await new Promise((resolve) => setTimeout(resolve, 1000))
+  const outcome = await aa.waitForReceipt(uoHash, options)
+
+  // dropped: the bundler never included it (no receipt, no UserOperationEvent)
+  if (outcome.status === "dropped") {
+    throw new Error(`UserOperation ${uoHash} was dropped: ${outcome.reason}`)
   }
+
+  const source = outcome.source === "logs" ? " (from EntryPoint logs)" : ""
+
+  // reverted: included and gas was charged, but the execute() call failed
+  if (outcome.status === "reverted") {
+    console.log(`${RED}UserOperation REVERTED${source}:${RESET}`)
+    console.log(JSON.stringify(outcome.receipt, null, 2))
+    throw new Error(
+      `UserOperation ${uoHash} was included but reverted ` +
+        `(tx ${outcome.receipt.receipt?.transactionHash ?? "N/A"})`
+    )
+  }
+
+  console.log(`${GREEN}UserOperation RECEIPT FOUND${source}:${RESET}`)
+  console.log(JSON.stringify(outcome.receipt, null, 2))
+  return outcome.receipt
 }
 
 // ---------------------- USEROP HELPERS ----------------------
-export function buildUserOperation(params: {
-  sender: Address
-  nonce: bigint
-  callData: Hex
-  maxFeePerGas: bigint
-  maxPriorityFeePerGas: bigint
-}): UserOperation {
+export async function buildUserOperation(
+  aa: SmartAccountClient,
+  params: {
+    nonce: bigint
+    callData: Hex
+    gasPrices: GasPrices
+  }
+): Promise<UserOperation> {
   console.log(`
 ${CYAN}[BUILDING USER OPERATION]${RESET}
 UserOp fields:
-- sender: ${params.sender}
+- sender: ${aa.sender}
 - nonce: ${params.nonce}
-- gas: maxFeePerGas / maxPriorityFeePerGas from bundler
+- gas: maxFeePerGas / maxPriorityFeePerGas from the gas price strategy
+- gas limits: eth_estimateUserOperationGas × safety multipliers
+  (dummy signature, fixed fallback only if the bundler cannot estimate)
 `)
 
-  return {
-    sender: params.sender,
-    nonce: toHex(params.nonce),
-    initCode: "0x",
-    callData: params.callData,
-    callGasLimit: toHex(250_000n),
-    verificationGasLimit: toHex(250_000n),
-    preVerificationGas: toHex(50_000n),
-    maxFeePerGas: toHex(params.maxFeePerGas),
-    maxPriorityFeePerGas: toHex(params.maxPriorityFeePerGas),
-    paymasterAndData: "0x",
-    signature: "0x"
-  }
+  const userOp = await aa.buildUserOp(params)
+
+  console.log(`Gas limits:
+  callGasLimit:         ${BigInt(userOp.callGasLimit)}
+  verificationGasLimit: ${BigInt(userOp.verificationGasLimit)}
+  preVerificationGas:   ${BigInt(userOp.preVerificationGas)}
+`)
+
+  return userOp
 }
 
-export function computeUserOpHash(sender: Address, nonce: bigint, callData: Hex): Hex {
-  return keccak256(
-    encodePacked(["address", "uint256", "bytes32"], [sender, nonce, keccak256(callData)])
-  ) as Hex
+// ---------------------- ERRORS ----------------------
+export function logFatalError(err: unknown) {
+  console.error("Fatal error in client:")
+
+  // Bundler rejections carry the decoded ERC-4337 / AAxx reason.
+  if (err instanceof BundlerError) {
+    console.error(`
+${RED}[BUNDLER REJECTED ${err.method}]${RESET}
+Code:   ${err.code}${err.aaCode ? ` (${err.aaCode})` : ""}
+Reason: ${err.explanation}
+Raw:    ${err.rawMessage}
+`)
+    return
+  }
+
+  console.error(err)
 }
@@ -2,26 +2,44 @@ import * as dotenv from "dotenv"
 
 dotenv.config()
 
-import { encodePacked, keccak256 } from "viem"
-import { DEMOLOGIC_ABI, ENTRYPOINT_ABI } from "./abi"
-import type { Address, BundlerSendUoResponse, Hex, UserOperationReceipt } from "./types"
 import {
-  buildPaymasterAndData,
+  type Address,
+  BundlerClient,
+  canonicalUserOpHasher,
+  createGasPriceStrategy,
+  createSponsorshipPolicyEngine,
+  decodeNonce,
+  encodeExecute,
+  type Hex,
+  localPaymasterSponsor,
+  packedUserOpHasher,
+  policyPaymasterSponsor,
+  SmartAccountClient,
+  type UserOperationReceipt
+} from "aa-demo-sdk"
+import { privateKeyToAccount } from "viem/accounts"
+import { scrollSepolia } from "viem/chains"
+import { DEMOLOGIC_ABI } from "./abi"
+import {
   buildUserOperation,
   CYAN,
   createRpcClient,
-  encodeExecute,
   encodeIncrementCall,
   envAddress,
+  envBigInt,
   envHex,
+  envNumber,
   envValue,
   GREEN,
-  getBundlerGasPrices,
+  getGasPrices,
   getOwnerWallet,
+  loadPolicyFile,
+  logFatalError,
   MAGENTA,
   RESET,
   readDemoCount,
-  signUserOperationHash,
+  signUserOperation,
+  sponsorUserOperation,
   waitForReceipt,
   YELLOW
 } from "./utils"
@@ -67,6 +85,21 @@ const PAYMASTER_PK: Hex = envHex(
 
 const { account: owner } = getOwnerWallet(RPC_URL, OWNER_PK)
 
+// Sponsorship policy checked BEFORE the paymaster key signs anything:
+// allowed execute targets / selectors, deny-lists, maxFeePerGas cap and
+// per-sender daily quotas (JSON or YAML file, see policy.example.json).
+const POLICY_FILE = process.env.POLICY_FILE
+// Each paymaster signature is only valid for PAYMASTER_VALIDITY_SECONDS
+// (validUntil, enforced by the EntryPoint) and bound to this chain.
+const localSponsor = localPaymasterSponsor(
+  SC_PAYMASTER_ADDRESS,
+  privateKeyToAccount(PAYMASTER_PK),
+  {
+    chainId: scrollSepolia.id,
+    validitySeconds: envNumber(process.env.PAYMASTER_VALIDITY_SECONDS, "PAYMASTER_VALIDITY_SECONDS")
+  }
+)
+
 // ============================================================================
 // RPC & WALLET CLIENTS
 // ============================================================================
@@ -75,6 +108,72 @@ const { account: owner } = getOwnerWallet(RPC_URL, OWNER_PK)
 // NOT for executing the actual logic. The Smart Account executes logic via UserOps.
 const rpc = createRpcClient(RPC_URL)
 
+// Gas prices: GAS_PRICE_STRATEGY picks the source (fee-history = Scroll RPC
+// eth_feeHistory + eth_maxPriorityFeePerGas, pimlico = Pimlico bundlers only,
+// fixed = FIXED_MAX_FEE_PER_GAS / FIXED_MAX_PRIORITY_FEE_PER_GAS in wei)
+// and GAS_PRICE_TIER the speed (slow | standard | fast).
+const gasPriceStrategy = createGasPriceStrategy(
+  {
+    strategy: process.env.GAS_PRICE_STRATEGY,
+    tier: process.env.GAS_PRICE_TIER,
+    fixed: {
+      maxFeePerGas: envBigInt(process.env.FIXED_MAX_FEE_PER_GAS, "FIXED_MAX_FEE_PER_GAS"),
+      maxPriorityFeePerGas: envBigInt(
+        process.env.FIXED_MAX_PRIORITY_FEE_PER_GAS,
+        "FIXED_MAX_PRIORITY_FEE_PER_GAS"
+      )
+    }
+  },
+  { bundler: new BundlerClient(BUNDLER_URL), publicClient: rpc }
+)
+
+// userOpHash: the DemoAccount verifies the canonical EntryPoint.getUserOpHash
+// (all fields + EntryPoint + chainId), computed locally and cross-checked
+// on-chain. Accounts deployed before that change verify the legacy
+// keccak256(sender, nonce, keccak256(callData)): set LEGACY_USER_OP_HASH=true.
+const LEGACY_USER_OP_HASH = process.env.LEGACY_USER_OP_HASH === "true"
+const hashUserOp = LEGACY_USER_OP_HASH
+  ? packedUserOpHasher()
+  : canonicalUserOpHasher({
+      entryPoint: SC_ENTRYPOINT_ADDRESS,
+      chainId: scrollSepolia.id,
+      crossCheck: rpc
+    })
+
+// Nonce key (uint192, default 0): the EntryPoint keeps a separate sequence per key,
+// so ops sent with different NONCE_KEY values do not wait for each other.
+const NONCE_KEY = envBigInt(process.env.NONCE_KEY, "NONCE_KEY") ?? 0n
+
+// Shared SDK client: wraps nonce reads, hashing, signing and bundler calls,
+// plus a paymaster sponsor that signs paymasterAndData locally with the
+// paymaster key.
+const aa = new SmartAccountClient({
+  publicClient: rpc,
+  bundlerUrl: BUNDLER_URL,
+  entryPoint: SC_ENTRYPOINT_ADDRESS,
+  sender: SC_SMART_ACCOUNT_ADDRESS,
+  signer: owner,
+  hashUserOp,
+  gasPriceStrategy,
+  gasMultipliers: {
+    callGasLimit: envNumber(process.env.CALL_GAS_MULTIPLIER, "CALL_GAS_MULTIPLIER"),
+    verificationGasLimit: envNumber(
+      process.env.VERIFICATION_GAS_MULTIPLIER,
+      "VERIFICATION_GAS_MULTIPLIER"
+    ),
+    preVerificationGas: envNumber(
+      process.env.PRE_VERIFICATION_GAS_MULTIPLIER,
+      "PRE_VERIFICATION_GAS_MULTIPLIER"
+    )
+  },
+  paymaster: POLICY_FILE
+    ? policyPaymasterSponsor(
+        localSponsor,
+        createSponsorshipPolicyEngine(loadPolicyFile(POLICY_FILE))
+      )
+    : localSponsor
+})
+
 // ============================================================================
 // DISPLAY
 // ============================================================================
@@ -90,6 +189,9 @@ Using Owner EOA for signing the UserOperation:
 Paymaster sponsoring the gas:
   → ${SC_PAYMASTER_ADDRESS}
 
+Sponsorship policy:
+  → ${POLICY_FILE ?? `${YELLOW}none (POLICY_FILE unset: every op is signed)${RESET}`}
+
 Smart Account:
   → ${SC_SMART_ACCOUNT_ADDRESS}
 
@@ -114,17 +216,15 @@ async function main(): Promise<void> {
   console.log(`\n${YELLOW}[BALANCE CHECK]${RESET} Smart Account balance: ${bal} wei\n`)
 
   // Step 2 (nonce)
-  console.log(`\n${CYAN}[NONCE READ]${RESET} Fetching Smart Account nonce from EntryPoint…`)
-  const nonceBN = await rpc.readContract({
-    address: SC_ENTRYPOINT_ADDRESS,
-    abi: ENTRYPOINT_ABI,
-    functionName: "getNonce",
-    args: [SC_SMART_ACCOUNT_ADDRESS, 0n]
-  })
-  console.log(`Nonce retrieved: ${nonceBN}\n`)
+  // The nonce manager reserves the next sequence of NONCE_KEY, after any op of
+  // this client still in flight on that key.
+  console.log(`\n${CYAN}[NONCE READ]${RESET} Reserving Smart Account nonce (key ${NONCE_KEY})…`)
+  const nonceBN = await aa.nonces.reserve(NONCE_KEY)
+  const { key, sequence } = decodeNonce(nonceBN)
+  console.log(`Nonce retrieved: ${nonceBN} (key ${key}, sequence ${sequence})\n`)
 
-  // Step 3 (Bundler gas values)
-  const { maxFeePerGas, maxPriorityFeePerGas } = await getBundlerGasPrices(BUNDLER_URL)
+  // Step 3 (gas price values)
+  const gasPrices = await getGasPrices(aa)
 
   // Step 4 (calldata)
   console.log(`
@@ -140,78 +240,59 @@ SmartAccount.execute(
   const callData: Hex = encodeExecute(SC_DEMO_LOGIC_ADDRESS, 0n, incrementCall)
 
   // Step 5: Build userOp (without signature/paymaster)
-  const userOp = buildUserOperation({
-    sender: SC_SMART_ACCOUNT_ADDRESS,
+  const userOp = await buildUserOperation(aa, {
     nonce: nonceBN,
     callData,
-    maxFeePerGas,
-    maxPriorityFeePerGas
+    gasPrices
   })
 
-  // Step 6 (hash computation to signature)
+  // --------------------------------------------------------------------------
+  // Step 6 *** PAYMASTER ADDITION (ONLY DIFFERENCE vs DEMO 1) ***
+  // --------------------------------------------------------------------------
+  // Sponsor BEFORE signing: the canonical userOpHash covers paymasterAndData.
+  const sponsoredUserOp = await sponsorUserOperation(aa, userOp)
+  // --------------------------------------------------------------------------
+
+  // Step 7 (hash computation to signature)
   console.log(`
 ${YELLOW}[HASH COMPUTATION]${RESET}
 Computing userOpHash exactly as Smart Account does in validateUserOp()...
 `)
 
-  // Build a compact byte array (encodePacked) with address + nonce + callData hash,
-  // then hash it with keccak256 to produce the message the smart account will verify.
-  const rawHash: Hex = keccak256(
-    encodePacked(
-      ["address", "uint256", "bytes32"],
-      [SC_SMART_ACCOUNT_ADDRESS, nonceBN, keccak256(callData)]
-    )
-  ) as Hex
+  // Canonical hash: abi.encode every field (initCode, callData and
+  // paymasterAndData hashed, signature excluded), keccak256 it, then hash again
+  // with the EntryPoint address and chainId. The EntryPoint passes this same
+  // value to validateUserOp, so the signature is bound to this chain and these
+  // exact gas / paymaster values.
+  // (Legacy mode: keccak256(sender, nonce, keccak256(callData)) only.)
+  const rawHash: Hex = await aa.getUserOpHash(sponsoredUserOp)
   console.log(`userOpHash:\n${rawHash}\n`)
 
-  // Step 7 (user operation signature)
-  const signature: Hex = await signUserOperationHash(owner, rawHash)
-  userOp.signature = signature
-
-  // --------------------------------------------------------------------------
-  // Step 8 *** PAYMASTER ADDITION (ONLY DIFFERENCE vs DEMO 1) ***
-  // --------------------------------------------------------------------------
-  userOp.paymasterAndData = await buildPaymasterAndData(SC_PAYMASTER_ADDRESS, PAYMASTER_PK, {
-    sender: SC_SMART_ACCOUNT_ADDRESS,
-    callData,
-    nonce: nonceBN
-  })
-  // --------------------------------------------------------------------------
+  // Step 8 (user operation signature)
+  const signedUserOp = await signUserOperation(aa, sponsoredUserOp)
 
   // Step 9 (bundler submission)
   console.log(`
 ${CYAN}[BUNDLER SUBMISSION]${RESET}
 Sending UserOperation to bundler (eth_sendUserOperation)...
 `)
-  const sendReq = {
-    jsonrpc: "2.0",
-    method: "eth_sendUserOperation",
-    params: [userOp, SC_ENTRYPOINT_ADDRESS],
-    id: 1
-  }
-
-  const sendRes = await fetch(BUNDLER_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(sendReq)
-  }).then((r) => r.json() as Promise<BundlerSendUoResponse>)
+  const uoHash = await aa.send(signedUserOp)
 
   console.log(`
-Bundler response received:
-${JSON.stringify(sendRes, null, 2)}
-
 UserOperation tracking hash (bundler → EntryPoint):
-→ ${sendRes.result}
+→ ${uoHash}
 `)
 
-  if (!sendRes.result || typeof sendRes.result !== "string") {
-    console.error("Invalid bundler response:", sendRes)
-    throw new Error("Bundler did not return a valid operation hash")
-  }
-
   // step: 10 (receipt wait)
-  console.log(`\n${CYAN}[RECEIPT CHECK]${RESET} Waiting for UserOperation receipt...`)
-  const receipt: UserOperationReceipt = await waitForReceipt(BUNDLER_URL, sendRes.result)
+  // Ctrl+C stops waiting instead of leaving the poll loop running.
+  const abort = new AbortController()
+  const onSigint = () => abort.abort(new Error("Receipt wait cancelled (SIGINT)"))
+  process.once("SIGINT", onSigint)
+
+  const receipt: UserOperationReceipt = await waitForReceipt(aa, uoHash, {
+    timeoutMs: envNumber(process.env.RECEIPT_TIMEOUT_MS, "RECEIPT_TIMEOUT_MS"),
+    signal: abort.signal
+  }).finally(() => process.off("SIGINT", onSigint))
 
   // Step 11 (final read & display)
   const after = await readDemoCount(rpc, SC_DEMO_LOGIC_ADDRESS, DEMOLOGIC_ABI, "AFTER")
@@ -238,6 +319,7 @@ This confirms:
 }
 
 main().catch((err: unknown) => {
-  console.error("Fatal error in client:")
-  console.error(err)
+  logFatalError(err)
+  // Non-zero exit so scripts (e.g. the e2e harness) notice the failure
+  process.exitCode = 1
 })
@@ -5,9 +5,18 @@ import {IEntryPoint} from "lib/account-abstraction/contracts/interfaces/IEntryPo
 import {UserOperation} from "lib/account-abstraction/contracts/interfaces/UserOperation.sol";
 
 contract DemoAccount {
+    /// @dev validationData returned on signature mismatch (ERC-4337).
+    uint256 internal constant SIG_VALIDATION_FAILED = 1;
+
     address public owner;
     IEntryPoint public immutable entryPoint;
 
+    /// @dev Emitted once per successful call, in call order (lets clients report per-call outcomes).
+    event Executed(address target, uint256 value, bytes data);
+
+    /// @dev Reverts the whole batch: `index` is the failing call, `reason` its revert data.
+    error CallFailed(uint256 index, bytes reason);
+
     constructor(address _owner, address _entryPoint) {
         owner = _owner;
         entryPoint = IEntryPoint(_entryPoint);
@@ -25,22 +34,23 @@ contract DemoAccount {
 
     /// @notice ERC-4337-style validation hook called by the EntryPoint.
     /// @param userOp The user operation being validated.
-    /// @param //*userOpHash*// The hash of the user operation (unused in this minimal example).
+    /// @param userOpHash EntryPoint.getUserOpHash(userOp): covers every field except the
+    ///        signature, plus the EntryPoint address and chainId (no cross-chain replay).
     /// @param missingAccountFunds The amount of prefund required by the EntryPoint.
-    /// @return validationData 0 on success, non-zero on signature/validation failure.
-    function validateUserOp(UserOperation calldata userOp, bytes32, uint256 missingAccountFunds)
+    /// @return validationData 0 on success, SIG_VALIDATION_FAILED on signature mismatch.
+    /// @dev A bad signature does not revert: returning SIG_VALIDATION_FAILED lets bundlers
+    ///      simulate the op with a dummy signature in eth_estimateUserOperationGas.
+    function validateUserOp(UserOperation calldata userOp, bytes32 userOpHash, uint256 missingAccountFunds)
         external
         returns (uint256)
     {
         require(msg.sender == address(entryPoint), "not from entrypoint");
 
-        bytes32 hash = keccak256(abi.encodePacked(userOp.sender, userOp.nonce, keccak256(userOp.callData)));
-
-        address recovered = recover(hash, userOp.signature);
-        require(recovered == owner, "invalid signature");
+        address recovered = recover(userOpHash, userOp.signature);
 
         _payPrefund(missingAccountFunds);
 
+        if (recovered != owner) return SIG_VALIDATION_FAILED;
         return 0; // OK
     }
 
@@ -60,6 +70,22 @@ contract DemoAccount {
         require(msg.sender == address(entryPoint), "only EP");
         (bool ok,) = target.call{value: value}(data);
         require(ok, "exec failed");
+        emit Executed(target, value, data);
+    }
+
+    /// @dev Runs several calls atomically in one UserOperation: if any call reverts,
+    /// every call is rolled back and the op reverts with CallFailed(index, reason).
+    function executeBatch(address[] calldata targets, uint256[] calldata values, bytes[] calldata datas)
+        external
+    {
+        require(msg.sender == address(entryPoint), "only EP");
+        require(targets.length == values.length && targets.length == datas.length, "length mismatch");
+
+        for (uint256 i = 0; i < targets.length; i++) {
+            (bool ok, bytes memory reason) = targets[i].call{value: values[i]}(datas[i]);
+            if (!ok) revert CallFailed(i, reason);
+            emit Executed(targets[i], values[i], datas[i]);
+        }
     }
 
     /// @dev Simple helper to expose the EntryPoint address (optional, but handy for tools).
@@ -0,0 +1,61 @@
+import { existsSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+import type { Address } from "aa-demo-sdk"
+import { getAddress, type PublicClient } from "viem"
+import { argAddress } from "./utils"
+
+/** Contracts created by ../contracts/script/Deploy.s.sol, by contract name. */
+export interface Deployment {
+  /** The broadcast file the addresses come from. */
+  source: string
+  contracts: Record<string, Address>
+}
+
+interface BroadcastTransaction {
+  transactionType: string
+  contractName?: string | null
+  contractAddress?: string | null
+}
+
+/**
+ * Reads the last `forge script --broadcast` run of the deployment on `chainId`:
+ * `<broadcastDir>/<chainId>/run-latest.json`. Local anvil runs (31337) are written there too,
+ * only not committed.
+ */
+export function readDeployment(broadcastDir: string, chainId: number): Deployment {
+  const source = join(broadcastDir, String(chainId), "run-latest.json")
+  if (!existsSync(source)) {
+    throw new Error(`No deployment on chain ${chainId}: ${source} not found (run make deploy)`)
+  }
+
+  const run = JSON.parse(readFileSync(source, "utf8")) as {
+    transactions?: BroadcastTransaction[]
+  }
+  const contracts: Record<string, Address> = {}
+  for (const tx of run.transactions ?? []) {
+    if (tx.transactionType !== "CREATE" || !tx.contractName || !tx.contractAddress) continue
+    contracts[tx.contractName] = getAddress(tx.contractAddress)
+  }
+  return { source, contracts }
+}
+
+export function deployedAddress(deployment: Deployment, contractName: string): Address {
+  const address = deployment.contracts[contractName]
+  if (!address) throw new Error(`${deployment.source} has no ${contractName}`)
+  return address
+}
+
+/**
+ * DemoPaymaster address: SC_PAYMASTER_ADDRESS, else the one of the broadcast (BROADCAST_DIR,
+ * default ../contracts/broadcast/Deploy.s.sol) for the chain of `client`.
+ */
+export async function paymasterAddress(client: PublicClient): Promise<Address> {
+  if (process.env.SC_PAYMASTER_ADDRESS) {
+    return argAddress(process.env.SC_PAYMASTER_ADDRESS, "SC_PAYMASTER_ADDRESS")
+  }
+  const broadcastDir =
+    process.env.BROADCAST_DIR || join(__dirname, "../../contracts/broadcast/Deploy.s.sol")
+  const deployment = readDeployment(broadcastDir, await client.getChainId())
+  console.log(`Deployment: ${deployment.source}`)
+  return deployedAddress(deployment, "DemoPaymaster")
+}
@@ -0,0 +1,340 @@
+import * as dotenv from "dotenv"
+
+dotenv.config({ quiet: true })
+
+import {
+  type Address,
+  checkApprovals,
+  encodeExecuteRecovery,
+  encodeStartRecovery,
+  type Hex,
+  readRecoveryState
+} from "aa-demo-sdk"
+import {
+  createPublicClient,
+  encodeFunctionData,
+  formatEther,
+  http,
+  isAddressEqual,
+  parseAbi
+} from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { paymasterAddress } from "./artifacts"
+import { PAYMASTER_ABI, readPaymasterState } from "./paymaster"
+import {
+  argAddress,
+  argEther,
+  CYAN,
+  confirm,
+  envHex,
+  envValue,
+  GREEN,
+  RED,
+  RESET,
+  readApprovalFile,
+  walletClient,
+  YELLOW
+} from "./utils"
+
+// ============================================================================
+// ENV + CLIENTS
+// ============================================================================
+// The paymaster address comes from the forge broadcast of ../contracts (see artifacts.ts),
+// the EntryPoint from the paymaster itself.
+
+// EntryPoint v0.6 stake: 1 day, what public bundlers usually require of a paymaster
+const DEFAULT_UNSTAKE_DELAY_SEC = 86_400
+
+const USAGE = `Usage: yarn admin <command> [--yes]
+
+  paymaster status
+  paymaster deposit <eth>                       EntryPoint deposit paying the sponsored ops
+  paymaster add-stake <eth> [unstakeDelaySec]   (default ${DEFAULT_UNSTAKE_DELAY_SEC})
+  paymaster unlock-stake
+  paymaster withdraw-stake [to]                 once the unstake delay is over (default to: admin)
+  paymaster withdraw [to]                       ETH held by the paymaster contract itself
+  account status <account>
+  account recover <account> <newOwner> [approval.json...]
+                                                starts (with the guardian approvals) or executes
+                                                the guardian recovery, as a plain transaction
+
+--yes sends without asking for confirmation.`
+
+const ownerAbi = parseAbi(["function owner() view returns (address)"])
+
+// Set by --yes
+let assumeYes = false
+
+function rpc() {
+  return createPublicClient({ transport: http(envValue(process.env.SCROLL_RPC, "SCROLL_RPC")) })
+}
+
+function admin() {
+  return privateKeyToAccount(envHex(process.env.ADMIN_PK, "ADMIN_PK"))
+}
+
+const when = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString()
+const eth = (wei: bigint) => `${formatEther(wei)} ETH`
+
+/**
+ * Simulates the transaction from the admin (a revert such as "not owner" is reported before
+ * anything is asked), shows it, asks for confirmation and sends it.
+ */
+async function sendTransaction(
+  description: string,
+  tx: { to: Address; data: Hex; value?: bigint }
+): Promise<boolean> {
+  const client = rpc()
+  const account = admin()
+  const value = tx.value ?? 0n
+
+  await client.call({ account: account.address, to: tx.to, data: tx.data, value }).catch((err) => {
+    const reason = err instanceof Error ? err.message.split("\n")[0] : String(err)
+    throw new Error(`${description} would fail: ${reason}`)
+  })
+
+  console.log(`${CYAN}Transaction:${RESET} ${description}`)
+  console.log(`  from  ${account.address} (ADMIN_PK)`)
+  console.log(`  to    ${tx.to}`)
+  if (value > 0n) console.log(`  value ${eth(value)}`)
+  if (!(await confirm("Send it?", assumeYes))) {
+    console.log(`${YELLOW}Not sent.${RESET}`)
+    return false
+  }
+
+  const rpcUrl = envValue(process.env.SCROLL_RPC, "SCROLL_RPC")
+  const wallet = walletClient(rpcUrl, await client.getChainId(), account)
+  const hash = await wallet.sendTransaction({ to: tx.to, data: tx.data, value })
+  console.log(`Sent ${hash}, waiting for the receipt...`)
+
+  const receipt = await client.waitForTransactionReceipt({ hash })
+  if (receipt.status !== "success") throw new Error(`Transaction ${hash} reverted`)
+  console.log(`${GREEN}Included${RESET} in block ${receipt.blockNumber}`)
+  return true
+}
+
+// ============================================================================
+// PAYMASTER COMMANDS
+// ============================================================================
+
+async function readPaymaster() {
+  const client = rpc()
+  return readPaymasterState(client, await paymasterAddress(client))
+}
+
+async function paymasterStatus() {
+  const { paymaster, entryPoint, owner, signer, balance, info, now } = await readPaymaster()
+  const adminAddress = process.env.ADMIN_PK ? admin().address : undefined
+
+  console.log(`${CYAN}DemoPaymaster:${RESET} ${paymaster}`)
+  console.log(`  owner   ${owner}`)
+  console.log(`  signer  ${signer} (signs paymasterAndData)`)
+  console.log(`  balance ${eth(balance)} (on the contract itself: paymaster withdraw)`)
+  console.log(`${CYAN}EntryPoint:${RESET}    ${entryPoint}`)
+  // DemoPaymaster has no withdrawTo: the deposit is only spent by sponsored UserOperations
+  console.log(`  deposit ${eth(info.deposit)} (pays the sponsored UserOperations)`)
+  console.log(`  stake   ${eth(info.stake)}, unstake delay ${info.unstakeDelaySec} s`)
+
+  if (info.withdrawTime === 0) {
+    console.log(
+      info.staked ? "  staked (paymaster unlock-stake to start the unstake delay)" : "  not staked"
+    )
+  } else if (info.withdrawTime > now) {
+    console.log(`  ${YELLOW}unlocking${RESET}: withdrawable from ${when(info.withdrawTime)}`)
+  } else {
+    console.log(`  ${GREEN}unlocked${RESET}: withdrawable now (paymaster withdraw-stake)`)
+  }
+
+  if (adminAddress && !isAddressEqual(adminAddress, owner)) {
+    console.log(`${YELLOW}ADMIN_PK (${adminAddress}) is not the paymaster owner.${RESET}`)
+  }
+}
+
+async function deposit(args: string[]) {
+  const value = argEther(args[0], "amount")
+  const paymaster = await paymasterAddress(rpc())
+  await sendTransaction(`DemoPaymaster.deposit() of ${eth(value)} to the EntryPoint`, {
+    to: paymaster,
+    data: encodeFunctionData({ abi: PAYMASTER_ABI, functionName: "deposit" }),
+    value
+  })
+}
+
+async function addStake(args: string[]) {
+  const value = argEther(args[0], "amount")
+  const delay = args[1] !== undefined ? Number(args[1]) : DEFAULT_UNSTAKE_DELAY_SEC
+  if (!Number.isInteger(delay) || delay <= 0) throw new Error(`Invalid unstakeDelaySec: ${args[1]}`)
+
+  const { paymaster, info } = await readPaymaster()
+  // EntryPoint: "cannot decrease unstake time"
+  if (delay < info.unstakeDelaySec) {
+    throw new Error(`The unstake delay cannot go below the current ${info.unstakeDelaySec} s`)
+  }
+  await sendTransaction(`DemoPaymaster.addStake(${delay}) of ${eth(value)}`, {
+    to: paymaster,
+    data: encodeFunctionData({ abi: PAYMASTER_ABI, functionName: "addStake", args: [delay] }),
+    value
+  })
+}
+
+async function unlockStake() {
+  const { paymaster, info } = await readPaymaster()
+  if (!info.staked) throw new Error("Not staked (or already unlocking)")
+
+  console.log(`The stake becomes withdrawable ${info.unstakeDelaySec} s after this transaction.`)
+  console.log(
+    `${YELLOW}Bundlers may stop accepting sponsored UserOperations once unlocked.${RESET}`
+  )
+  await sendTransaction("DemoPaymaster.unlockStake()", {
+    to: paymaster,
+    data: encodeFunctionData({ abi: PAYMASTER_ABI, functionName: "unlockStake" })
+  })
+}
+
+async function withdrawStake(args: string[]) {
+  const to = args[0] !== undefined ? argAddress(args[0], "to") : admin().address
+  const { paymaster, info, now } = await readPaymaster()
+  if (info.withdrawTime === 0) throw new Error("Stake not unlocked: run paymaster unlock-stake")
+  if (info.withdrawTime > now) {
+    throw new Error(`Unstake delay not over: withdrawable from ${when(info.withdrawTime)}`)
+  }
+
+  await sendTransaction(`DemoPaymaster.withdrawStake(${to}): ${eth(info.stake)}`, {
+    to: paymaster,
+    data: encodeFunctionData({ abi: PAYMASTER_ABI, functionName: "withdrawStake", args: [to] })
+  })
+}
+
+async function withdraw(args: string[]) {
+  const to = args[0] !== undefined ? argAddress(args[0], "to") : admin().address
+  const { paymaster, balance } = await readPaymaster()
+  if (balance === 0n) throw new Error("The paymaster contract holds no ETH")
+
+  await sendTransaction(`DemoPaymaster.withdraw(${to}): ${eth(balance)}`, {
+    to: paymaster,
+    data: encodeFunctionData({ abi: PAYMASTER_ABI, functionName: "withdraw", args: [to] })
+  })
+}
+
+// ============================================================================
+// ACCOUNT COMMANDS
+// ============================================================================
+
+async function accountStatus(args: string[]) {
+  const account = argAddress(args[0], "account")
+  const client = rpc()
+  const [state, owner, balance] = await Promise.all([
+    readRecoveryState(client, account),
+    client.readContract({ address: account, abi: ownerAbi, functionName: "owner" }),
+    client.getBalance({ address: account })
+  ])
+
+  console.log(`${CYAN}Account:${RESET}   ${account}`)
+  console.log(`${CYAN}Owner:${RESET}     ${owner}`)
+  console.log(`${CYAN}Balance:${RESET}   ${eth(balance)}`)
+  if (state.guardians.length === 0) {
+    console.log(`${YELLOW}No guardians: a lost owner key cannot be recovered.${RESET}`)
+    return
+  }
+  console.log(`${CYAN}Guardians:${RESET} ${state.threshold} of ${state.guardians.length}`)
+  for (const guardian of state.guardians) console.log(`  - ${guardian}`)
+  console.log(`${CYAN}Timelock:${RESET}  ${state.delay} s, approval nonce ${state.nonce}`)
+  console.log(
+    state.pending
+      ? `${YELLOW}Pending recovery${RESET} to ${state.pending.newOwner}, executable from ${when(state.pending.executeAfter)}`
+      : "No pending recovery."
+  )
+}
+
+/**
+ * The factory has no admin: the owner is replaced through the account's guardians. This
+ * relays their approvals (startRecovery), then the execution once the timelock is over, as
+ * admin transactions: no bundler, and the account pays nothing.
+ */
+async function recover(args: string[]) {
+  const account = argAddress(args[0], "account")
+  const newOwner = argAddress(args[1], "newOwner")
+  const files = args.slice(2)
+  const client = rpc()
+  const [state, block, chainId] = await Promise.all([
+    readRecoveryState(client, account),
+    client.getBlock(),
+    client.getChainId()
+  ])
+
+  if (state.pending) {
+    if (!isAddressEqual(state.pending.newOwner, newOwner)) {
+      throw new Error(
+        `A recovery to ${state.pending.newOwner} is pending (only the owner can cancel it)`
+      )
+    }
+    const wait = state.pending.executeAfter - Number(block.timestamp)
+    if (wait > 0) {
+      console.log(
+        `${YELLOW}Recovery to ${newOwner} started, timelocked until ${when(state.pending.executeAfter)}${RESET} (${wait} s): run this again then.`
+      )
+      return
+    }
+    await sendTransaction(`DemoAccount(${account}).executeRecovery(): owner → ${newOwner}`, {
+      to: account,
+      data: encodeExecuteRecovery()
+    })
+    return
+  }
+
+  if (files.length === 0) {
+    throw new Error("No pending recovery: pass the guardian approval files to start one")
+  }
+  const approvals = await checkApprovals(
+    { account, chainId, newOwner },
+    state,
+    files.map(readApprovalFile)
+  )
+  console.log(`Approvals of ${approvals.map((a) => a.guardian).join(", ")} checked.`)
+  const started = await sendTransaction(
+    `DemoAccount(${account}).startRecovery(${newOwner}), executable ${state.delay} s later`,
+    { to: account, data: encodeStartRecovery(newOwner, approvals) }
+  )
+  if (started) {
+    console.log(
+      `The owner can cancel it during the timelock; then run: yarn admin account recover ${account} ${newOwner}`
+    )
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const COMMANDS: Record<string, Record<string, (args: string[]) => Promise<void>>> = {
+  paymaster: {
+    status: paymasterStatus,
+    deposit,
+    "add-stake": addStake,
+    "unlock-stake": unlockStake,
+    "withdraw-stake": withdrawStake,
+    withdraw
+  },
+  account: {
+    status: accountStatus,
+    recover
+  }
+}
+
+async function main() {
+  const argv = process.argv.slice(2)
+  assumeYes = argv.includes("--yes") || argv.includes("-y")
+  const [group, name, ...args] = argv.filter((a) => a !== "--yes" && a !== "-y")
+
+  const command = COMMANDS[group ?? ""]?.[name ?? ""]
+  if (!command) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+  await command(args)
+}
+
+main().catch((err) => {
+  console.error(`${RED}${err instanceof Error ? err.message : String(err)}${RESET}`)
+  process.exit(1)
+})
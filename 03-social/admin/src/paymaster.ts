@@ -0,0 +1,60 @@
+import type { Address } from "aa-demo-sdk"
+import { type PublicClient, parseAbi } from "viem"
+
+export const PAYMASTER_ABI = parseAbi([
+  "function entryPoint() view returns (address)",
+  "function owner() view returns (address)",
+  "function signer() view returns (address)",
+  "function deposit() payable",
+  "function addStake(uint32 unstakeDelaySec) payable",
+  "function unlockStake()",
+  "function withdrawStake(address to)",
+  "function withdraw(address to)"
+])
+
+export const ENTRYPOINT_ABI = parseAbi([
+  "function getDepositInfo(address account) view returns ((uint112 deposit, bool staked, uint112 stake, uint32 unstakeDelaySec, uint48 withdrawTime) info)"
+])
+
+export interface PaymasterState {
+  paymaster: Address
+  entryPoint: Address
+  owner: Address
+  signer: Address
+  /** ETH held by the paymaster contract itself (not its EntryPoint deposit). */
+  balance: bigint
+  /** EntryPoint StakeManager entry: `deposit` pays the sponsored UserOperations. */
+  info: {
+    deposit: bigint
+    staked: boolean
+    stake: bigint
+    unstakeDelaySec: number
+    withdrawTime: number
+  }
+  /** Latest block timestamp (compare `withdrawTime` with it, not the local clock). */
+  now: number
+}
+
+/** Paymaster configuration plus its deposit and stake in the EntryPoint it uses. */
+export async function readPaymasterState(
+  client: PublicClient,
+  paymaster: Address
+): Promise<PaymasterState> {
+  const read = <T>(functionName: "entryPoint" | "owner" | "signer") =>
+    client.readContract({ address: paymaster, abi: PAYMASTER_ABI, functionName }) as Promise<T>
+
+  const [entryPoint, owner, signer, balance, block] = await Promise.all([
+    read<Address>("entryPoint"),
+    read<Address>("owner"),
+    read<Address>("signer"),
+    client.getBalance({ address: paymaster }),
+    client.getBlock()
+  ])
+  const info = await client.readContract({
+    address: entryPoint,
+    abi: ENTRYPOINT_ABI,
+    functionName: "getDepositInfo",
+    args: [paymaster]
+  })
+  return { paymaster, entryPoint, owner, signer, balance, info, now: Number(block.timestamp) }
+}
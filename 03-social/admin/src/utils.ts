@@ -0,0 +1,88 @@
+import { readFileSync } from "node:fs"
+import { createInterface } from "node:readline/promises"
+import { type Address, type Hex, type ParsedApproval, parseRecoveryApprovalFile } from "aa-demo-sdk"
+import {
+  createWalletClient,
+  defineChain,
+  http,
+  isAddress,
+  type LocalAccount,
+  parseEther
+} from "viem"
+
+// Colors
+export const CYAN = "\x1b[36m"
+export const GREEN = "\x1b[32m"
+export const YELLOW = "\x1b[33m"
+export const RED = "\x1b[31m"
+export const RESET = "\x1b[0m"
+
+// ---------------------- ENV / ARG HELPERS ----------------------
+export function envHex(v: string | undefined, name: string): Hex {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  if (!v.startsWith("0x")) throw new Error(`${name} must start with 0x`)
+  return v as Hex
+}
+
+export function envValue(v: string | undefined, name: string): string {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  return v
+}
+
+export function argAddress(v: string | undefined, name: string): Address {
+  if (!v) throw new Error(`Missing argument: ${name}`)
+  if (!isAddress(v)) throw new Error(`Invalid address for ${name}: ${v}`)
+  return v as Address
+}
+
+/** Positive ETH amount in decimal ("0.1"), as wei. */
+export function argEther(v: string | undefined, name: string): bigint {
+  if (!v) throw new Error(`Missing argument: ${name} (ETH, e.g. 0.1)`)
+  if (!/^\d+(\.\d+)?$/.test(v)) throw new Error(`Invalid ETH amount for ${name}: ${v}`)
+  const wei = parseEther(v)
+  if (wei === 0n) throw new Error(`${name} must be more than 0`)
+  return wei
+}
+
+/** Optional ETH amount env var ("0.15"), as wei; `fallback` when unset. */
+export function envEther(v: string | undefined, name: string, fallback?: bigint): bigint {
+  if (!v) {
+    if (fallback === undefined) throw new Error(`Missing env var: ${name} (ETH, e.g. 0.1)`)
+    return fallback
+  }
+  if (!/^\d+(\.\d+)?$/.test(v)) throw new Error(`Invalid ETH amount for ${name}: ${v}`)
+  return parseEther(v)
+}
+
+export function readApprovalFile(path: string): ParsedApproval {
+  return parseRecoveryApprovalFile(JSON.parse(readFileSync(path, "utf8")), path)
+}
+
+// ---------------------- WALLET ----------------------
+/** Wallet sending from `account` on the chain of `rpcUrl` (its id read beforehand). */
+export function walletClient(rpcUrl: string, chainId: number, account: LocalAccount) {
+  return createWalletClient({
+    account,
+    chain: defineChain({
+      id: chainId,
+      name: `chain ${chainId}`,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl] } }
+    }),
+    transport: http(rpcUrl)
+  })
+}
+
+// ---------------------- CONFIRMATION ----------------------
+/** y/N prompt on the terminal; `--yes` skips it (scripts, CI). */
+export async function confirm(question: string, assumeYes: boolean): Promise<boolean> {
+  if (assumeYes) return true
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  try {
+    const answer = await rl.question(`${question} [y/N] `)
+    return /^y(es)?$/i.test(answer.trim())
+  } finally {
+    rl.close()
+  }
+}
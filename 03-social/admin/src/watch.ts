@@ -0,0 +1,194 @@
+import * as dotenv from "dotenv"
+
+dotenv.config({ quiet: true })
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs"
+import type { Address } from "aa-demo-sdk"
+import { createPublicClient, encodeFunctionData, formatEther, http, parseEther } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { paymasterAddress } from "./artifacts"
+import { PAYMASTER_ABI } from "./paymaster"
+import { CYAN, envEther, envHex, envValue, GREEN, RED, RESET, walletClient, YELLOW } from "./utils"
+import {
+  createDepositWatcher,
+  type DepositAlert,
+  type TopUpConfig,
+  type TopUpLedger
+} from "./watcher"
+
+// ============================================================================
+// ENV & CONFIG
+// ============================================================================
+// Same paymaster lookup as `yarn admin` (SC_PAYMASTER_ADDRESS or the forge broadcast).
+// Without FUNDER_PK it only alerts; with it, a low deposit is topped up to TOPUP_TARGET_ETH,
+// never more than TOPUP_CAP_ETH in total. The total is kept in TOPUP_STATE_FILE, so neither
+// a restart nor cron runs of --once reset it.
+
+const USAGE = `Usage: yarn watch [--once] [--dry-run]
+
+  --once      one check, then exit (cron, CI); top-ups count towards TOPUP_CAP_ETH
+              across runs (total kept in TOPUP_STATE_FILE)
+  --dry-run   reports the top-ups instead of sending them (also DRY_RUN=true)`
+
+const RPC_URL = envValue(process.env.SCROLL_RPC, "SCROLL_RPC")
+const INTERVAL_SECONDS = Number(process.env.WATCH_INTERVAL_SECONDS || 60)
+// Default: the minimum the paymaster backend was set up with
+const MIN_DEPOSIT = envEther(process.env.MIN_DEPOSIT_ETH, "MIN_DEPOSIT_ETH", parseEther("0.15"))
+const MIN_STAKE = envEther(process.env.MIN_STAKE_ETH, "MIN_STAKE_ETH", 0n)
+const WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL
+const STATE_FILE = process.env.TOPUP_STATE_FILE || ".topup-state.json"
+
+const eth = (wei: bigint) => `${formatEther(wei)} ETH`
+
+const LEVEL_COLORS = { info: GREEN, warning: YELLOW, critical: RED }
+
+// ============================================================================
+// ALERTS
+// ============================================================================
+/** Always to stdout; also POSTed as JSON to ALERT_WEBHOOK_URL (a failed POST is only logged). */
+async function sendAlert(alert: DepositAlert, chainId: number) {
+  console.log(
+    `${LEVEL_COLORS[alert.level]}[${alert.level.toUpperCase()}] ${alert.kind}${RESET} ${alert.message}`
+  )
+  if (!WEBHOOK_URL) return
+
+  try {
+    const res = await fetch(WEBHOOK_URL, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        ...alert,
+        deposit: alert.deposit.toString(),
+        stake: alert.stake.toString(),
+        chainId,
+        at: new Date().toISOString()
+      })
+    })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  } catch (err) {
+    console.log(`${RED}Webhook failed:${RESET} ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+// ============================================================================
+// TOP-UP LEDGER
+// ============================================================================
+/**
+ * Top-up totals in a JSON file, in wei per chain / paymaster / funding key. Raising the cap
+ * or deleting the entry (after checking why the deposit drains) allows more top-ups.
+ */
+function fileTopUpLedger(
+  path: string,
+  chainId: number,
+  paymaster: Address,
+  funder: Address
+): TopUpLedger {
+  const key = `${chainId}:${paymaster}:${funder}`.toLowerCase()
+
+  // A file that cannot be read stops the top-ups instead of resetting the total
+  function read(): Record<string, string> {
+    if (!existsSync(path)) return {}
+    try {
+      return JSON.parse(readFileSync(path, "utf8")) as Record<string, string>
+    } catch (err) {
+      throw new Error(`Cannot read ${path}: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  return {
+    async spent() {
+      return BigInt(read()[key] ?? 0)
+    },
+    async add(amount) {
+      const totals = read()
+      totals[key] = (BigInt(totals[key] ?? 0) + amount).toString()
+      // Replaced in one rename, a crash cannot leave it half-written
+      writeFileSync(`${path}.tmp`, `${JSON.stringify(totals, null, 2)}\n`)
+      renameSync(`${path}.tmp`, path)
+    }
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+async function main() {
+  const args = process.argv.slice(2)
+  if (args.some((a) => a !== "--once" && a !== "--dry-run")) {
+    console.log(USAGE)
+    process.exitCode = 1
+    return
+  }
+  const once = args.includes("--once")
+  const dryRun = args.includes("--dry-run") || process.env.DRY_RUN === "true"
+  if (!Number.isFinite(INTERVAL_SECONDS) || INTERVAL_SECONDS <= 0) {
+    throw new Error(`Invalid WATCH_INTERVAL_SECONDS: ${process.env.WATCH_INTERVAL_SECONDS}`)
+  }
+
+  const client = createPublicClient({ transport: http(RPC_URL) })
+  const chainId = await client.getChainId()
+  const paymaster = await paymasterAddress(client)
+
+  let topUp: TopUpConfig | undefined
+  if (process.env.FUNDER_PK) {
+    const funder = privateKeyToAccount(envHex(process.env.FUNDER_PK, "FUNDER_PK"))
+    const wallet = walletClient(RPC_URL, chainId, funder)
+    const target = envEther(process.env.TOPUP_TARGET_ETH, "TOPUP_TARGET_ETH", MIN_DEPOSIT * 2n)
+    if (target <= MIN_DEPOSIT) throw new Error("TOPUP_TARGET_ETH must be more than MIN_DEPOSIT_ETH")
+
+    topUp = {
+      // DemoPaymaster.deposit() forwards the value to the EntryPoint, anyone can call it
+      funder: {
+        address: funder.address,
+        deposit: (value) =>
+          wallet.sendTransaction({
+            to: paymaster,
+            data: encodeFunctionData({ abi: PAYMASTER_ABI, functionName: "deposit" }),
+            value
+          })
+      },
+      target,
+      cap: envEther(process.env.TOPUP_CAP_ETH, "TOPUP_CAP_ETH"),
+      ledger: fileTopUpLedger(STATE_FILE, chainId, paymaster, funder.address),
+      dryRun
+    }
+  }
+
+  const watcher = createDepositWatcher({
+    client,
+    paymaster,
+    minDeposit: MIN_DEPOSIT,
+    minStake: MIN_STAKE,
+    topUp,
+    alert: (alert) => sendAlert(alert, chainId)
+  })
+
+  console.log(`
+${CYAN}===============================================================
+PAYMASTER DEPOSIT WATCHER
+===============================================================${RESET}
+
+RPC:          ${RPC_URL} (chain id ${chainId})
+Paymaster:    ${paymaster}
+Min deposit:  ${eth(MIN_DEPOSIT)}${MIN_STAKE > 0n ? `, min stake ${eth(MIN_STAKE)}` : ""}
+Top-up:       ${topUp ? `to ${eth(topUp.target)} from ${topUp.funder.address}, cap ${eth(topUp.cap)} (${eth(await topUp.ledger.spent())} used, ${STATE_FILE})${dryRun ? ` ${YELLOW}(dry run)${RESET}` : ""}` : "off (no FUNDER_PK)"}
+Alerts:       stdout${WEBHOOK_URL ? ` + ${WEBHOOK_URL}` : ""}
+Polling:      ${once ? "once" : `every ${INTERVAL_SECONDS}s`}
+`)
+
+  if (once) {
+    const state = await watcher.check()
+    console.log(`Deposit ${eth(state.info.deposit)}, stake ${eth(state.info.stake)}`)
+    return
+  }
+
+  watcher.start(INTERVAL_SECONDS * 1000)
+  const shutdown = () => watcher.stop()
+  process.once("SIGINT", shutdown)
+  process.once("SIGTERM", shutdown)
+}
+
+main().catch((err: unknown) => {
+  console.error(`${RED}Error:${RESET} ${err instanceof Error ? err.message : err}`)
+  process.exitCode = 1
+})
@@ -0,0 +1,228 @@
+import type { Address, Hex } from "aa-demo-sdk"
+import { formatEther, type PublicClient } from "viem"
+import { type PaymasterState, readPaymasterState } from "./paymaster"
+
+export type AlertLevel = "info" | "warning" | "critical"
+
+export interface DepositAlert {
+  level: AlertLevel
+  /** What happened: low-deposit, deposit-ok, not-staked, top-up, top-up-cap-reached... */
+  kind: string
+  message: string
+  paymaster: Address
+  /** EntryPoint deposit and stake at the check, in wei. */
+  deposit: bigint
+  stake: bigint
+}
+
+/** Total already topped up, kept across restarts so the cap holds for cron runs too. */
+export interface TopUpLedger {
+  spent(): Promise<bigint>
+  add(amount: bigint): Promise<void>
+}
+
+export interface TopUpConfig {
+  /** Funding key: sends `DemoPaymaster.deposit()` with `value`, returns the tx hash. */
+  funder: { address: Address; deposit(value: bigint): Promise<Hex> }
+  /** Deposit a top-up brings the paymaster back to. */
+  target: bigint
+  /** Most ETH sent in total, as recorded by `ledger`. */
+  cap: bigint
+  ledger: TopUpLedger
+  /** Only reports the top-ups it would send. */
+  dryRun: boolean
+}
+
+export interface WatcherConfig {
+  client: PublicClient
+  paymaster: Address
+  /** Alert (and top up) under this EntryPoint deposit. */
+  minDeposit: bigint
+  /** Alert under this stake (0: only when not staked or unlocking). */
+  minStake: bigint
+  topUp?: TopUpConfig
+  alert(alert: DepositAlert): Promise<void>
+}
+
+const eth = (wei: bigint) => `${formatEther(wei)} ETH`
+
+/**
+ * Polls the paymaster deposit and stake in the EntryPoint. Each condition (deposit, stake,
+ * top-up, the watcher itself) alerts when it changes, not at every poll; a condition going
+ * back to normal alerts once too. With `topUp`, a low deposit is refilled from the funding
+ * key, never beyond `cap` in total (the ledger's total, not this process's).
+ */
+export function createDepositWatcher(config: WatcherConfig) {
+  const { client, paymaster, minDeposit, minStake, topUp } = config
+  // Current kind of each condition
+  const conditions = new Map<string, string>()
+  let timer: NodeJS.Timeout | undefined
+  let running = false
+
+  type Event = { level: AlertLevel; kind: string; message: string }
+
+  function notify(state: PaymasterState | null, event: Event) {
+    return config.alert({
+      ...event,
+      paymaster,
+      deposit: state?.info.deposit ?? 0n,
+      stake: state?.info.stake ?? 0n
+    })
+  }
+
+  // `ok` kinds only alert after a problem, so a healthy start stays quiet
+  async function set(
+    condition: string,
+    state: PaymasterState | null,
+    event: Event & { ok?: boolean }
+  ) {
+    const previous = conditions.get(condition)
+    conditions.set(condition, event.kind)
+    if (previous === event.kind || (event.ok && previous === undefined)) return
+    await notify(state, { level: event.level, kind: event.kind, message: event.message })
+  }
+
+  async function checkStake(state: PaymasterState) {
+    const { staked, stake, withdrawTime } = state.info
+    if (withdrawTime !== 0) {
+      const unlocked = withdrawTime <= state.now
+      await set("stake", state, {
+        level: "warning",
+        kind: unlocked ? "stake-unlocked" : "stake-unlocking",
+        message: unlocked
+          ? `Stake of ${eth(stake)} unlocked and withdrawable: bundlers may reject the paymaster`
+          : `Stake of ${eth(stake)} unlocking, withdrawable from ${new Date(withdrawTime * 1000).toISOString()}`
+      })
+    } else if (!staked) {
+      await set("stake", state, {
+        level: "warning",
+        kind: "not-staked",
+        message: "Paymaster not staked: bundlers may reject it (yarn admin paymaster add-stake)"
+      })
+    } else if (stake < minStake) {
+      await set("stake", state, {
+        level: "warning",
+        kind: "low-stake",
+        message: `Stake of ${eth(stake)} under ${eth(minStake)}`
+      })
+    } else {
+      await set("stake", state, {
+        level: "info",
+        kind: "stake-ok",
+        message: `Stake of ${eth(stake)} OK`,
+        ok: true
+      })
+    }
+  }
+
+  async function topUpDeposit(state: PaymasterState, config: TopUpConfig) {
+    const needed = config.target - state.info.deposit
+    const left = config.cap - (await config.ledger.spent())
+    const amount = needed < left ? needed : left
+    if (amount <= 0n) {
+      await set("top-up", state, {
+        level: "critical",
+        kind: "top-up-cap-reached",
+        message: `Top-up cap of ${eth(config.cap)} reached: top up by hand (yarn admin paymaster deposit)`
+      })
+      return
+    }
+    if (config.dryRun) {
+      await set("top-up", state, {
+        level: "info",
+        kind: "top-up-dry-run",
+        message: `Dry run: would deposit ${eth(amount)} from ${config.funder.address}`
+      })
+      return
+    }
+
+    const funds = await client.getBalance({ address: config.funder.address })
+    if (funds < amount) {
+      await set("top-up", state, {
+        level: "critical",
+        kind: "funder-low",
+        message: `Funding key ${config.funder.address} holds ${eth(funds)}, cannot deposit ${eth(amount)}`
+      })
+      return
+    }
+
+    try {
+      const hash = await config.funder.deposit(amount)
+      // Counted once sent: a lost receipt must not let the watcher go over the cap
+      await config.ledger.add(amount)
+      const receipt = await client.waitForTransactionReceipt({ hash })
+      if (receipt.status !== "success") throw new Error(`top-up transaction ${hash} reverted`)
+
+      conditions.delete("top-up")
+      await notify(state, {
+        level: "info",
+        kind: "top-up",
+        message: `Deposited ${eth(amount)} from ${config.funder.address} (tx ${hash}), ${eth(left - amount)} of the cap left`
+      })
+    } catch (err) {
+      await set("top-up", state, {
+        level: "critical",
+        kind: "top-up-failed",
+        message: `Top-up of ${eth(amount)} failed: ${err instanceof Error ? err.message.split("\n")[0] : String(err)}`
+      })
+    }
+  }
+
+  /** One poll: reads the paymaster, alerts on changes, tops up when needed. */
+  async function check(): Promise<PaymasterState> {
+    const state = await readPaymasterState(client, paymaster)
+    await checkStake(state)
+
+    if (state.info.deposit >= minDeposit) {
+      conditions.delete("top-up")
+      await set("deposit", state, {
+        level: "info",
+        kind: "deposit-ok",
+        message: `EntryPoint deposit back to ${eth(state.info.deposit)}`,
+        ok: true
+      })
+      return state
+    }
+
+    await set("deposit", state, {
+      level: "warning",
+      kind: "low-deposit",
+      message: `EntryPoint deposit of ${eth(state.info.deposit)} under ${eth(minDeposit)}: sponsored UserOperations fail with AA31 once it cannot cover one`
+    })
+    if (topUp) await topUpDeposit(state, topUp)
+    return state
+  }
+
+  return {
+    check,
+
+    /** Polls every `intervalMs` until `stop()`; a failed poll is an alert, not a crash. */
+    start(intervalMs: number) {
+      running = true
+      const tick = async () => {
+        try {
+          await check()
+          await set("watcher", null, {
+            level: "info",
+            kind: "watcher-ok",
+            message: "Paymaster readable again",
+            ok: true
+          })
+        } catch (err) {
+          await set("watcher", null, {
+            level: "warning",
+            kind: "check-failed",
+            message: `Cannot read the paymaster: ${err instanceof Error ? err.message.split("\n")[0] : String(err)}`
+          }).catch(() => undefined)
+        }
+        if (running) timer = setTimeout(tick, intervalMs)
+      }
+      void tick()
+    },
+
+    stop() {
+      running = false
+      clearTimeout(timer)
+    }
+  }
+}
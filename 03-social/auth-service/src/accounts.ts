@@ -0,0 +1,68 @@
+import { type BindingSigner, type SignedAccountBinding, signAccountBinding } from "aa-demo-sdk"
+import { HttpError } from "./utils"
+
+/** Settings shared by every identity provider. */
+export interface AuthConfig {
+  /** Pages of the web client a login may return to (must also be registered at the IdPs). */
+  redirectUris: string[]
+  /** Account kinds a user may ask for: uuidString = `${userId}:${variant}`. */
+  accountVariants: string[]
+  chainId: number
+  signer: BindingSigner
+  bindingTtlSeconds: number
+}
+
+/** Answer of every successful login, whatever the provider. */
+export interface LoginResult {
+  /** Provider-namespaced user id: keys the owner key / passkey on the client. */
+  userId: string
+  uuidString: string
+  binding: SignedAccountBinding
+}
+
+export function checkRedirectUri(config: AuthConfig, redirectUri: string) {
+  if (!config.redirectUris.includes(redirectUri)) {
+    throw new HttpError(400, `redirect_uri not allowed: ${redirectUri}`)
+  }
+}
+
+export function checkVariant(config: AuthConfig, variant: string) {
+  if (!config.accountVariants.includes(variant)) {
+    throw new HttpError(400, `Unknown account variant: ${variant}`)
+  }
+}
+
+/**
+ * Maps an authenticated user to its AccountFactory uuidString and signs the binding
+ * (EIP-712, see the SDK `verifyAccountBinding`). The backend, not the browser, decides
+ * which account a login maps to.
+ */
+export async function issueAccount(
+  config: AuthConfig,
+  login: { provider: string; userId: string; variant: string }
+): Promise<LoginResult> {
+  const uuidString = `${login.userId}:${login.variant}`
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const binding = await signAccountBinding(config.signer, config.chainId, {
+    uuidString,
+    provider: login.provider,
+    issuedAt,
+    expiresAt: issuedAt + config.bindingTtlSeconds
+  })
+  return { userId: login.userId, uuidString, binding }
+}
+
+// ---------------------- REQUEST BODIES ----------------------
+export function requireObject(body: unknown): Record<string, unknown> {
+  if (typeof body !== "object" || body === null) throw new HttpError(400, "Expected a JSON object")
+  return body as Record<string, unknown>
+}
+
+// Non-empty string field
+export function field(body: Record<string, unknown>, name: string): string {
+  const value = body[name]
+  if (typeof value !== "string" || value === "") {
+    throw new HttpError(400, `Missing or invalid "${name}"`)
+  }
+  return value
+}
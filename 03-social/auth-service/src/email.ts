@@ -0,0 +1,146 @@
+import { createHash, randomBytes } from "node:crypto"
+import {
+  type AuthConfig,
+  checkRedirectUri,
+  checkVariant,
+  field,
+  issueAccount,
+  type LoginResult,
+  requireObject
+} from "./accounts"
+import { HttpError } from "./utils"
+
+// Deliberately loose: the link itself proves the address works
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MAX_EMAIL_LENGTH = 254
+
+// Pending links kept in memory at most (one per address)
+const MAX_PENDING_LINKS = 10_000
+
+export interface MagicLinkMessage {
+  to: string
+  subject: string
+  text: string
+  link: string
+}
+
+export interface MagicLinkConfig {
+  /** Lifetime of a link. */
+  ttlSeconds: number
+  /** Minimum time between two links sent to the same address. */
+  resendIntervalSeconds: number
+  /** Max links sent per minute, all addresses together. */
+  maxSendsPerMinute: number
+  /** Delivers the link (webhook of a mail service, or stdout in development). */
+  send(message: MagicLinkMessage): Promise<void>
+}
+
+interface PendingLink {
+  email: string
+  nonce: string
+  expiresAt: number
+}
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("base64url")
+
+// Trimmed + lowercased, so `Alice@Example.com` and `alice@example.com` share an account
+export function normalizeEmail(value: string): string {
+  const email = value.trim().toLowerCase()
+  if (email.length > MAX_EMAIL_LENGTH || !EMAIL.test(email)) {
+    throw new HttpError(400, "Invalid email address")
+  }
+  return email
+}
+
+/**
+ * Passwordless login by email:
+ *   POST /auth/email/start  { email, redirectUri, nonce } → sends `<redirectUri>?magic_token=...`
+ *   POST /auth/email/verify { token, nonce, variant }    → uuidString + binding
+ *
+ * Links are single-use and short-lived. Only a hash of the token is kept, and the token
+ * only works together with the `nonce` of the browser that asked for it: a link forwarded
+ * to (or planted by) someone else logs nobody in. Users are `email:<address>`.
+ */
+export function createMagicLinks(email: MagicLinkConfig, config: AuthConfig) {
+  // sha256(token) → pending link
+  const pending = new Map<string, PendingLink>()
+
+  // address → when its last link was sent; send times of the last minute, oldest first
+  const lastSent = new Map<string, number>()
+  const recentSends: number[] = []
+
+  const prune = (now: number) => {
+    for (const [hash, link] of pending) if (link.expiresAt < now) pending.delete(hash)
+    for (const [address, sentAt] of lastSent) {
+      if (sentAt + email.resendIntervalSeconds <= now) lastSent.delete(address)
+    }
+    while (recentSends.length > 0 && recentSends[0] + 60 <= now) recentSends.shift()
+  }
+
+  // Every link is an email to an address nobody has proven yet: throttled per address and
+  // in total, so the endpoint cannot be used to flood an inbox or burn the mail quota
+  const throttle = (address: string, now: number) => {
+    const sentAt = lastSent.get(address)
+    if (sentAt !== undefined) {
+      const wait = sentAt + email.resendIntervalSeconds - now
+      throw new HttpError(429, `A login link was just sent to this address, retry in ${wait} s`)
+    }
+    if (recentSends.length >= email.maxSendsPerMinute) {
+      throw new HttpError(429, "Too many login emails, try again later")
+    }
+    lastSent.set(address, now)
+    recentSends.push(now)
+  }
+
+  async function start(body: unknown): Promise<{ sent: true }> {
+    const b = requireObject(body)
+    const address = normalizeEmail(field(b, "email"))
+    const redirectUri = field(b, "redirectUri")
+    const nonce = field(b, "nonce")
+    checkRedirectUri(config, redirectUri)
+
+    const now = Math.floor(Date.now() / 1000)
+    prune(now)
+    throttle(address, now)
+    // A new link replaces the previous one of the same address
+    for (const [hash, link] of pending) if (link.email === address) pending.delete(hash)
+    if (pending.size >= MAX_PENDING_LINKS) {
+      throw new HttpError(429, "Too many pending logins, try again later")
+    }
+
+    const token = randomBytes(32).toString("base64url")
+    pending.set(sha256(token), { email: address, nonce, expiresAt: now + email.ttlSeconds })
+
+    const link = `${redirectUri}?${new URLSearchParams({ magic_token: token })}`
+    await email.send({
+      to: address,
+      subject: "Your AA demo login link",
+      text: `Open this link in the browser where you asked to log in (valid ${Math.round(email.ttlSeconds / 60)} minutes):\n\n${link}\n`,
+      link
+    })
+    return { sent: true }
+  }
+
+  async function verify(body: unknown): Promise<LoginResult> {
+    const b = requireObject(body)
+    const hash = sha256(field(b, "token"))
+    const nonce = field(b, "nonce")
+    const variant = field(b, "variant")
+    checkVariant(config, variant)
+
+    // Single use: consumed by the first attempt, right or wrong
+    const link = pending.get(hash)
+    pending.delete(hash)
+
+    if (!link || link.expiresAt < Math.floor(Date.now() / 1000)) {
+      throw new HttpError(401, "Unknown, used or expired login link")
+    }
+    if (link.nonce !== nonce) {
+      throw new HttpError(401, "The login link was requested from another browser")
+    }
+
+    return issueAccount(config, { provider: "email", userId: `email:${link.email}`, variant })
+  }
+
+  return { start, verify }
+}
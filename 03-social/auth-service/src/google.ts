@@ -0,0 +1,24 @@
+import type { OidcProviderConfig } from "./oidc"
+
+export const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token"
+const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"]
+
+/**
+ * Google as an OpenID Connect provider. Its users keep the bare `sub` as user id (no
+ * namespace): the uuidStrings of the first version of the demo, so existing accounts keep
+ * their address. Google subs are numeric, so they never collide with `oidc:` / `email:` ids.
+ */
+export function googleProvider(options: {
+  clientId: string
+  clientSecret: string
+  tokenUrl?: string
+}): OidcProviderConfig {
+  return {
+    id: "google",
+    issuers: GOOGLE_ISSUERS,
+    clientId: options.clientId,
+    clientSecret: options.clientSecret,
+    tokenUrl: options.tokenUrl ?? GOOGLE_TOKEN_URL,
+    userId: ({ sub }) => sub
+  }
+}
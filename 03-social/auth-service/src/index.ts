@@ -0,0 +1,192 @@
+import * as dotenv from "dotenv"
+
+dotenv.config()
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http"
+import { privateKeyToAccount } from "viem/accounts"
+import type { AuthConfig, LoginResult } from "./accounts"
+import { createMagicLinks, type MagicLinkMessage } from "./email"
+import { googleProvider } from "./google"
+import { createOidcExchange, genericOidcProvider, type OidcProviderConfig } from "./oidc"
+import {
+  CYAN,
+  envHex,
+  envList,
+  envNumber,
+  envValue,
+  GREEN,
+  HttpError,
+  RED,
+  RESET,
+  YELLOW
+} from "./utils"
+
+// ============================================================================
+// ENV & CONFIG
+// ============================================================================
+// The OAuth client secrets and the binding signer key live ONLY here: the web client
+// sends the authorization code (+ PKCE verifier) or the magic link token and gets back its
+// account uuidString.
+const PORT = Number(process.env.PORT ?? 8788)
+const CORS_ORIGIN = process.env.CORS_ORIGIN ?? "http://localhost:5173"
+
+const config: AuthConfig = {
+  redirectUris: envList(process.env.OAUTH_REDIRECT_URIS, "OAUTH_REDIRECT_URIS"),
+  // Same account kinds as the web client: ECDSA owner (V2) or passkey owner
+  accountVariants: ["V2", "passkey"],
+  chainId: envNumber(process.env.CHAIN_ID, "CHAIN_ID") ?? 534351,
+  signer: privateKeyToAccount(envHex(process.env.BINDING_SIGNER_PK, "BINDING_SIGNER_PK")),
+  bindingTtlSeconds: envNumber(process.env.BINDING_TTL_SECONDS, "BINDING_TTL_SECONDS") ?? 86_400
+}
+
+// ---------------------- IDENTITY PROVIDERS ----------------------
+// Each one is enabled by its env vars; at least one is required.
+const oidcProviders: OidcProviderConfig[] = []
+
+if (process.env.GOOGLE_CLIENT_ID) {
+  oidcProviders.push(
+    googleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: envValue(process.env.GOOGLE_CLIENT_SECRET, "GOOGLE_CLIENT_SECRET"),
+      // Overridable so the e2e harness can stand in for Google
+      tokenUrl: process.env.GOOGLE_TOKEN_URL || undefined
+    })
+  )
+}
+
+if (process.env.OIDC_ISSUER) {
+  oidcProviders.push(
+    genericOidcProvider({
+      issuer: process.env.OIDC_ISSUER,
+      clientId: envValue(process.env.OIDC_CLIENT_ID, "OIDC_CLIENT_ID"),
+      clientSecret: envValue(process.env.OIDC_CLIENT_SECRET, "OIDC_CLIENT_SECRET"),
+      tokenUrl: process.env.OIDC_TOKEN_URL || undefined
+    })
+  )
+}
+
+// Magic links are mailed through EMAIL_WEBHOOK_URL (JSON POST to a mail service or
+// automation); without it they are printed here, for local development.
+const EMAIL_WEBHOOK_URL = process.env.EMAIL_WEBHOOK_URL
+const EMAIL_LOGIN = process.env.EMAIL_LOGIN === "true"
+
+async function sendMagicLink(message: MagicLinkMessage) {
+  if (!EMAIL_WEBHOOK_URL) {
+    console.log(`${YELLOW}[email]${RESET} login link for ${message.to}: ${message.link}`)
+    return
+  }
+  const res = await fetch(EMAIL_WEBHOOK_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ to: message.to, subject: message.subject, text: message.text })
+  })
+  if (!res.ok) throw new Error(`Email webhook failed (HTTP ${res.status})`)
+}
+
+// POST routes: request body → JSON answer
+const routes = new Map<string, (body: unknown) => Promise<unknown>>()
+
+for (const provider of oidcProviders) {
+  routes.set(`/auth/${provider.id}/exchange`, createOidcExchange(provider, config))
+}
+
+if (EMAIL_LOGIN) {
+  const magicLinks = createMagicLinks(
+    {
+      ttlSeconds: envNumber(process.env.MAGIC_LINK_TTL_SECONDS, "MAGIC_LINK_TTL_SECONDS") ?? 900,
+      resendIntervalSeconds:
+        envNumber(process.env.MAGIC_LINK_RESEND_SECONDS, "MAGIC_LINK_RESEND_SECONDS") ?? 60,
+      maxSendsPerMinute:
+        envNumber(process.env.MAGIC_LINK_MAX_PER_MINUTE, "MAGIC_LINK_MAX_PER_MINUTE") ?? 30,
+      send: sendMagicLink
+    },
+    config
+  )
+  routes.set("/auth/email/start", magicLinks.start)
+  routes.set("/auth/email/verify", magicLinks.verify)
+}
+
+if (routes.size === 0) {
+  throw new Error("No identity provider: set GOOGLE_CLIENT_ID, OIDC_ISSUER or EMAIL_LOGIN=true")
+}
+
+// Requests bigger than this are not login requests
+const MAX_BODY_BYTES = 16 * 1024
+
+// ============================================================================
+// HTTP
+// ============================================================================
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    req.setEncoding("utf8")
+    req.on("data", (chunk: string) => {
+      body += chunk
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large"))
+        req.destroy()
+      }
+    })
+    req.on("end", () => resolve(body))
+    req.on("error", reject)
+  })
+}
+
+function send(res: ServerResponse, status: number, payload?: unknown) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": CORS_ORIGIN,
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Content-Type": "application/json",
+    // Login responses must never be cached
+    "Cache-Control": "no-store"
+  })
+  res.end(payload === undefined ? undefined : JSON.stringify(payload))
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204)
+  const path = req.url ?? ""
+  const route = routes.get(path)
+  if (!route) return send(res, 404, { error: "Not found" })
+  if (req.method !== "POST") return send(res, 405, { error: "Use POST" })
+
+  try {
+    let body: unknown
+    try {
+      body = JSON.parse(await readBody(req))
+    } catch (err) {
+      throw err instanceof HttpError ? err : new HttpError(400, "Invalid JSON body")
+    }
+
+    const result = await route(body)
+    if (result && typeof result === "object" && "binding" in result) {
+      const { uuidString, binding } = result as LoginResult
+      console.log(`${GREEN}[${path}]${RESET} ${uuidString} bound until ${binding.expiresAt}`)
+    }
+    send(res, 200, result)
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500
+    const message = err instanceof Error ? err.message : String(err)
+    console.log(`${RED}[${path}] rejected (${status}):${RESET} ${message}`)
+    // Internal errors are logged, not returned
+    send(res, status, { error: status === 500 ? "Internal error" : message })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`
+${CYAN}===============================================================
+LOGIN SERVICE (OIDC CODE EXCHANGE + EMAIL LINKS)
+===============================================================${RESET}
+
+Listening on http://localhost:${PORT} (CORS origin: ${CORS_ORIGIN})
+
+${oidcProviders.map((p) => `OIDC provider:  ${p.id} (${p.issuers[0]}, client ${p.clientId})`).join("\n")}
+Email login:    ${EMAIL_LOGIN ? (EMAIL_WEBHOOK_URL ? `via ${EMAIL_WEBHOOK_URL}` : "links printed here") : "off"}
+Redirect URIs:  ${config.redirectUris.join(", ")}
+Binding signer: ${config.signer.address}
+Chain id:       ${config.chainId}
+${YELLOW}Endpoints: ${[...routes.keys()].map((r) => `POST ${r}`).join(", ")}${RESET}
+`)
+})
@@ -0,0 +1,180 @@
+import {
+  type AuthConfig,
+  checkRedirectUri,
+  checkVariant,
+  field,
+  issueAccount,
+  type LoginResult,
+  requireObject
+} from "./accounts"
+import { HttpError } from "./utils"
+
+// Tolerated clock difference for exp
+const CLOCK_SKEW_SECONDS = 60
+
+// RFC 7636: 43-128 characters of [A-Z a-z 0-9 - . _ ~]
+const CODE_VERIFIER = /^[A-Za-z0-9\-._~]{43,128}$/
+
+/** An OpenID Connect IdP whose authorization codes this service redeems. */
+export interface OidcProviderConfig {
+  /** Route (`POST /auth/<id>/exchange`) and binding `provider`. */
+  id: string
+  /** Accepted `iss` values; the first one is the issuer used for discovery. */
+  issuers: string[]
+  clientId: string
+  clientSecret: string
+  /** Token endpoint; discovered from `<issuer>/.well-known/openid-configuration` when unset. */
+  tokenUrl?: string
+  /** Namespaced user id of an authenticated `sub` (uuidString = `${userId}:${variant}`). */
+  userId(claims: { iss: string; sub: string }): string
+}
+
+/** What the client posts after the IdP redirected back with `?code=...`. */
+export interface ExchangeRequest {
+  code: string
+  codeVerifier: string
+  redirectUri: string
+  nonce: string
+  variant: string
+}
+
+export function parseExchangeRequest(body: unknown): ExchangeRequest {
+  const b = requireObject(body)
+  const request: ExchangeRequest = {
+    code: field(b, "code"),
+    codeVerifier: field(b, "codeVerifier"),
+    redirectUri: field(b, "redirectUri"),
+    nonce: field(b, "nonce"),
+    variant: field(b, "variant")
+  }
+  if (!CODE_VERIFIER.test(request.codeVerifier)) {
+    throw new HttpError(400, "codeVerifier is not a valid PKCE verifier (RFC 7636)")
+  }
+  return request
+}
+
+function decodeJwtPayload(jwt: string): Record<string, unknown> {
+  const payload = jwt.split(".")[1]
+  if (!payload) throw new HttpError(502, "The IdP returned a malformed id_token")
+  return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+}
+
+// Token endpoint of the provider, discovered once (a failed discovery is retried next time)
+function tokenEndpoint(provider: OidcProviderConfig): () => Promise<string> {
+  let cached: Promise<string> | undefined
+
+  return () => {
+    if (provider.tokenUrl) return Promise.resolve(provider.tokenUrl)
+    cached ??= (async () => {
+      const issuer = provider.issuers[0].replace(/\/$/, "")
+      const res = await fetch(`${issuer}/.well-known/openid-configuration`)
+      const metadata = (await res.json().catch(() => ({}))) as { token_endpoint?: unknown }
+      if (!res.ok || typeof metadata.token_endpoint !== "string") {
+        throw new Error(`OpenID discovery failed for ${issuer} (HTTP ${res.status})`)
+      }
+      return metadata.token_endpoint
+    })().catch((err) => {
+      cached = undefined
+      throw err
+    })
+    return cached
+  }
+}
+
+/**
+ * Authorization code → id_token at the token endpoint (client secret + PKCE verifier),
+ * then the claims checks of OpenID Connect Core 3.1.3.7.
+ *
+ * The id_token comes straight from the IdP over TLS, so (as the spec allows) the TLS server
+ * check stands in for the JWS signature check; iss, aud, exp and nonce are still verified.
+ */
+async function exchangeCode(
+  provider: OidcProviderConfig,
+  tokenUrl: string,
+  request: ExchangeRequest
+) {
+  const res = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: request.code,
+      code_verifier: request.codeVerifier,
+      redirect_uri: request.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret
+    })
+  })
+  const token = (await res.json().catch(() => ({}))) as Record<string, unknown>
+
+  if (!res.ok) {
+    // invalid_grant: wrong / reused code, or a verifier that does not match the challenge
+    const reason = token.error_description ?? token.error ?? `HTTP ${res.status}`
+    throw new HttpError(401, `${provider.id} rejected the authorization code: ${String(reason)}`)
+  }
+  if (typeof token.id_token !== "string") {
+    throw new HttpError(502, "The IdP returned no id_token (is the openid scope requested?)")
+  }
+
+  const claims = decodeJwtPayload(token.id_token)
+  const now = Math.floor(Date.now() / 1000)
+
+  if (typeof claims.iss !== "string" || !provider.issuers.includes(claims.iss)) {
+    throw new HttpError(401, `Unexpected id_token issuer ${String(claims.iss)}`)
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!audiences.includes(provider.clientId)) {
+    throw new HttpError(401, "The id_token was issued for another client (aud)")
+  }
+  if (typeof claims.exp !== "number" || now > claims.exp + CLOCK_SKEW_SECONDS) {
+    throw new HttpError(401, "The id_token has expired")
+  }
+  if (claims.nonce !== request.nonce) {
+    throw new HttpError(401, "The id_token nonce does not match this login attempt")
+  }
+  if (typeof claims.sub !== "string" || claims.sub === "") {
+    throw new HttpError(502, "The id_token has no sub")
+  }
+  return { iss: claims.iss, sub: claims.sub }
+}
+
+/**
+ * POST /auth/<provider>/exchange: checks the request against the config, exchanges the code
+ * and answers the user's AccountFactory uuidString with a signed binding.
+ */
+export function createOidcExchange(provider: OidcProviderConfig, config: AuthConfig) {
+  const getTokenUrl = tokenEndpoint(provider)
+
+  return async (body: unknown): Promise<LoginResult> => {
+    const request = parseExchangeRequest(body)
+    checkRedirectUri(config, request.redirectUri)
+    checkVariant(config, request.variant)
+
+    const claims = await exchangeCode(provider, await getTokenUrl(), request)
+    return issueAccount(config, {
+      provider: provider.id,
+      userId: provider.userId(claims),
+      variant: request.variant
+    })
+  }
+}
+
+/**
+ * Any OpenID Connect IdP (e.g. a corporate Keycloak / Entra ID / Okta tenant). Users are
+ * namespaced by issuer: `oidc:<issuer>:<sub>`, so they never share an account with another IdP.
+ */
+export function genericOidcProvider(options: {
+  issuer: string
+  clientId: string
+  clientSecret: string
+  tokenUrl?: string
+}): OidcProviderConfig {
+  return {
+    id: "oidc",
+    issuers: [options.issuer],
+    clientId: options.clientId,
+    clientSecret: options.clientSecret,
+    tokenUrl: options.tokenUrl,
+    userId: ({ iss, sub }) => `oidc:${iss}:${sub}`
+  }
+}
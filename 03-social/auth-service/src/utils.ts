@@ -0,0 +1,50 @@
+import type { Hex } from "aa-demo-sdk"
+
+// Colors
+export const CYAN = "\x1b[36m"
+export const GREEN = "\x1b[32m"
+export const YELLOW = "\x1b[33m"
+export const RED = "\x1b[31m"
+export const RESET = "\x1b[0m"
+
+// ---------------------- ENV HELPERS ----------------------
+export function envHex(v: string | undefined, name: string): Hex {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  if (!v.startsWith("0x")) throw new Error(`${name} must start with 0x`)
+  return v as Hex
+}
+
+export function envValue(v: string | undefined, name: string): string {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  return v
+}
+
+// Comma separated, at least one value
+export function envList(v: string | undefined, name: string): string[] {
+  const values = envValue(v, name)
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+  if (values.length === 0) throw new Error(`Empty list in ${name}`)
+  return values
+}
+
+// Optional positive number; undefined lets the default apply.
+export function envNumber(v: string | undefined, name: string): number | undefined {
+  if (!v) return undefined
+  const n = Number(v)
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`Invalid number in ${name}: ${v}`)
+  return n
+}
+
+// ---------------------- HTTP ERRORS ----------------------
+// Rejections answered as { error } with this status; anything else is a 500.
+export class HttpError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = "HttpError"
+    this.status = status
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  AUTH_SERVICE_URL,
+  authServiceLogin,
+  type IdentityProvider,
+  type Login,
+  REDIRECT_URI,
+  randomToken
+} from "./identity"
+import { IdTokenError } from "./idToken"
+import { log } from "./ui"
+
+// localStorage, not sessionStorage: the link is usually opened in a new tab
+const MAGIC_NONCE_KEY = "aa-magic-nonce"
+
+/**
+ * Passwordless login: the auth service mails a single-use link `<REDIRECT_URI>?magic_token=`
+ * (see ../auth-service/README.md). The token only works with the nonce this browser sent
+ * when asking for it, so the link must be opened in the same browser. Users are
+ * `email:<address>`.
+ */
+export function emailProvider(): IdentityProvider {
+  async function start(email?: string) {
+    if (!email?.trim()) throw new Error("Enter an email address")
+    if (!AUTH_SERVICE_URL) throw new Error("Email login needs VITE_AUTH_SERVICE_URL")
+
+    const nonce = randomToken()
+    localStorage.setItem(MAGIC_NONCE_KEY, nonce)
+
+    const res = await fetch(`${AUTH_SERVICE_URL}/auth/email/start`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email: email.trim(), redirectUri: REDIRECT_URI, nonce })
+    })
+    if (!res.ok) {
+      const body = (await res.json().catch(() => ({}))) as { error?: string }
+      throw new Error(
+        `The auth service did not send the link: ${body.error ?? `HTTP ${res.status}`}`
+      )
+    }
+    log(`Login link sent to ${email.trim()}. Open it in this browser.`)
+  }
+
+  async function complete(variant: string): Promise<Login | null> {
+    const token = new URLSearchParams(window.location.search).get("magic_token")
+    if (!token) return null
+
+    // One attempt per link: clean the URL and forget the nonce whatever the outcome
+    window.history.replaceState(null, document.title, window.location.pathname)
+    const nonce = localStorage.getItem(MAGIC_NONCE_KEY)
+    localStorage.removeItem(MAGIC_NONCE_KEY)
+
+    if (!nonce) {
+      throw new IdTokenError("state", "This login link was not requested from this browser")
+    }
+    log("Received a login link. Verifying it through the auth service...")
+    return authServiceLogin("email", "/auth/email/verify", { token, nonce, variant })
+  }
+
+  return { id: "email", label: "email", start, complete }
+}
@@ -10,9 +10,26 @@ interface ImportMetaEnv {
   readonly VITE_SC_DEMOLOGIC_ADDRESS: Address
   readonly VITE_SC_ACCOUNT_FACTORY_ADDRESS: Address
   readonly VITE_SC_PAYMASTER_ADDRESS: Address
-  readonly VITE_PAYMASTER_SIGNER_PK: string
-  readonly VITE_GOOGLE_CLIENT_ID: string
+  readonly VITE_PAYMASTER_SERVICE_URL?: string
+  readonly VITE_GOOGLE_CLIENT_ID?: string
+  readonly VITE_OIDC_ISSUER?: string
+  readonly VITE_OIDC_CLIENT_ID?: string
+  readonly VITE_OIDC_LABEL?: string
+  readonly VITE_EMAIL_LOGIN?: string
+  readonly VITE_OAUTH_REDIRECT_URI?: string
+  readonly VITE_AUTH_SERVICE_URL?: string
+  readonly VITE_AUTH_SIGNER_ADDRESS?: Address
   readonly VITE_BACKEND_SALT: string
+  readonly VITE_OWNER_KEY_PROVIDER?: "encrypted" | "demo" | "passkey"
+  readonly VITE_SESSION_TTL_SECONDS?: string
+  readonly VITE_CALL_GAS_MULTIPLIER?: string
+  readonly VITE_VERIFICATION_GAS_MULTIPLIER?: string
+  readonly VITE_PRE_VERIFICATION_GAS_MULTIPLIER?: string
+  readonly VITE_DEBUG_USER_OP_HASH?: string
+  readonly VITE_GAS_PRICE_STRATEGY?: string
+  readonly VITE_GAS_PRICE_TIER?: string
+  readonly VITE_FIXED_MAX_FEE_PER_GAS?: string
+  readonly VITE_FIXED_MAX_PRIORITY_FEE_PER_GAS?: string
 }
 
 interface ImportMeta {
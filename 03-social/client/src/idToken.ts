@@ -0,0 +1,209 @@
+/**
+ * OpenID Connect id_token verification (RS256 JWT) with WebCrypto only (browser or Node 20+).
+ *
+ * The key set is injected (`KeySetSource`): `jwksKeySet(url)` fetches and caches the JWKS of
+ * an IdP (`googleKeySet()` for Google), `staticKeySet()` takes a fixed JWKS so tokens can be
+ * verified offline.
+ */
+
+export const GOOGLE_JWKS_URL = "https://www.googleapis.com/oauth2/v3/certs"
+export const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"]
+
+// Tolerated clock difference for exp / iat / nbf
+const CLOCK_SKEW_SECONDS = 60
+// Key set cache lifetime when the JWKS response has no Cache-Control max-age
+const DEFAULT_JWKS_TTL_MS = 60 * 60 * 1000
+
+export interface RsaJwk {
+  kty: "RSA"
+  kid: string
+  n: string
+  e: string
+  alg?: string
+  use?: string
+}
+
+export interface JwkSet {
+  keys: RsaJwk[]
+}
+
+/**
+ * Returns the JWKS used to check signatures. `refresh` is set after a token signed with an
+ * unknown `kid` (key rotation): cached sources must then fetch again.
+ */
+export type KeySetSource = (options?: { refresh?: boolean }) => Promise<JwkSet>
+
+/** Claims the demo relies on. */
+export interface IdTokenClaims {
+  iss: string
+  /** Stable account id at the issuer, the base of the AccountFactory uuid. */
+  sub: string
+  aud: string | string[]
+  exp: number
+  iat: number
+  nonce?: string
+  email?: string
+  [claim: string]: unknown
+}
+
+export type IdTokenFailure =
+  | "malformed"
+  | "algorithm"
+  | "unknownKey"
+  | "signature"
+  | "issuer"
+  | "audience"
+  | "expired"
+  | "notYetValid"
+  | "nonce"
+  | "state"
+  | "provider"
+  | "exchange"
+  | "binding"
+
+/**
+ * Login rejected. `reason` tells which check failed; the message is meant for the UI.
+ */
+export class IdTokenError extends Error {
+  readonly reason: IdTokenFailure
+
+  constructor(reason: IdTokenFailure, message: string) {
+    super(message)
+    this.name = new.target.name
+    this.reason = reason
+  }
+}
+
+/** Fixed key set (e.g. a saved copy of the JWKS, or a test key). */
+export function staticKeySet(jwks: JwkSet): KeySetSource {
+  return async () => jwks
+}
+
+/**
+ * JWKS of an IdP (OpenID discovery `jwks_uri`), fetched on first use and cached in memory for
+ * the Cache-Control max-age of the response. `url` may be resolved lazily (discovery).
+ */
+export function jwksKeySet(url: string | (() => Promise<string>)): KeySetSource {
+  let cached: { jwks: JwkSet; expiresAt: number } | undefined
+
+  return async (options) => {
+    if (cached && !options?.refresh && Date.now() < cached.expiresAt) return cached.jwks
+
+    const res = await fetch(typeof url === "string" ? url : await url())
+    if (!res.ok) throw new Error(`Could not fetch the IdP key set (HTTP ${res.status})`)
+
+    const maxAge = /max-age=(\d+)/.exec(res.headers.get("cache-control") ?? "")?.[1]
+    cached = {
+      jwks: (await res.json()) as JwkSet,
+      expiresAt: Date.now() + (maxAge ? Number(maxAge) * 1000 : DEFAULT_JWKS_TTL_MS)
+    }
+    return cached.jwks
+  }
+}
+
+/** Google's JWKS (Google rotates its keys every few days and announces them in advance). */
+export function googleKeySet(): KeySetSource {
+  return jwksKeySet(GOOGLE_JWKS_URL)
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/")
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+function decodeJson(part: string, what: string): Record<string, unknown> {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlToBytes(part)))
+  } catch {
+    throw new IdTokenError("malformed", `The id_token ${what} is not valid base64url JSON`)
+  }
+}
+
+async function findKey(keys: KeySetSource, kid: string): Promise<RsaJwk> {
+  const find = (jwks: JwkSet) => jwks.keys.find((k) => k.kid === kid && k.kty === "RSA")
+  const key = find(await keys()) ?? find(await keys({ refresh: true }))
+  if (!key) {
+    throw new IdTokenError("unknownKey", `The id_token is signed with an unknown key (${kid})`)
+  }
+  return key
+}
+
+/**
+ * Verifies an id_token and returns its claims:
+ *   1. RS256 signature against the key of its `kid`
+ *   2. `iss` is one of `issuers`, `aud` contains `clientId`
+ *   3. `exp` / `nbf` / `iat` against the clock (±60 s)
+ *   4. `nonce` equals the one sent with the authorization request (replay protection)
+ *
+ * Throws an IdTokenError on the first failed check.
+ */
+export async function verifyIdToken(
+  idToken: string,
+  options: {
+    keys: KeySetSource
+    clientId: string
+    nonce: string
+    issuers?: string[]
+    /** Current time in ms (default Date.now()). */
+    now?: number
+  }
+): Promise<IdTokenClaims> {
+  const parts = idToken.split(".")
+  if (parts.length !== 3) throw new IdTokenError("malformed", "The id_token is not a JWT")
+  const [headerPart, payloadPart, signaturePart] = parts
+
+  const header = decodeJson(headerPart, "header")
+  if (header.alg !== "RS256") {
+    throw new IdTokenError("algorithm", `Unexpected id_token algorithm ${String(header.alg)}`)
+  }
+  if (typeof header.kid !== "string") {
+    throw new IdTokenError("malformed", "The id_token header has no kid")
+  }
+
+  const jwk = await findKey(options.keys, header.kid)
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    { kty: "RSA", n: jwk.n, e: jwk.e, alg: "RS256", ext: true },
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["verify"]
+  )
+  const valid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    base64UrlToBytes(signaturePart) as BufferSource,
+    new TextEncoder().encode(`${headerPart}.${payloadPart}`)
+  )
+  if (!valid) throw new IdTokenError("signature", "The id_token signature is invalid")
+
+  const claims = decodeJson(payloadPart, "payload") as Partial<IdTokenClaims>
+  if (typeof claims.sub !== "string" || claims.sub === "") {
+    throw new IdTokenError("malformed", "The id_token has no sub")
+  }
+
+  const issuers = options.issuers ?? GOOGLE_ISSUERS
+  if (typeof claims.iss !== "string" || !issuers.includes(claims.iss)) {
+    throw new IdTokenError("issuer", `Unexpected id_token issuer ${String(claims.iss)}`)
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!audiences.includes(options.clientId)) {
+    throw new IdTokenError("audience", "The id_token was issued for another client (aud)")
+  }
+
+  const now = Math.floor((options.now ?? Date.now()) / 1000)
+  if (typeof claims.exp !== "number" || now > claims.exp + CLOCK_SKEW_SECONDS) {
+    throw new IdTokenError("expired", "The id_token has expired")
+  }
+  const notBefore = typeof claims.nbf === "number" ? claims.nbf : claims.iat
+  if (typeof notBefore === "number" && now < notBefore - CLOCK_SKEW_SECONDS) {
+    throw new IdTokenError("notYetValid", "The id_token is not valid yet (check the clock)")
+  }
+
+  if (claims.nonce !== options.nonce) {
+    throw new IdTokenError("nonce", "The id_token nonce does not match this login attempt")
+  }
+
+  return claims as IdTokenClaims
+}
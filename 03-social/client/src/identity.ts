@@ -0,0 +1,113 @@
+import { type Address, type SignedAccountBinding, verifyAccountBinding } from "aa-demo-sdk"
+import { scrollSepolia } from "viem/chains"
+import { IdTokenError } from "./idToken"
+import { log } from "./ui"
+
+/**
+ * IMPORTANT:
+ * This redirectUri MUST match exactly one of the "Authorized redirect URIs" of each OAuth
+ * client (Google, the OIDC IdP) and, with the auth service, one of its OAUTH_REDIRECT_URIS
+ * (email login links point to it too).
+ *
+ * VITE_OAUTH_REDIRECT_URI, default: the origin the app is served from + "/"
+ * (http://localhost:5173/ for Vite dev).
+ */
+export const REDIRECT_URI = import.meta.env.VITE_OAUTH_REDIRECT_URI || `${window.location.origin}/`
+
+// Backend completing the logins (../auth-service). Empty: implicit id_token flow, no email.
+export const AUTH_SERVICE_URL = import.meta.env.VITE_AUTH_SERVICE_URL?.trim().replace(/\/$/, "")
+// Expected binding signer of the auth service (optional)
+const AUTH_SIGNER = import.meta.env.VITE_AUTH_SIGNER_ADDRESS as Address | undefined
+
+/** A completed login, whatever the provider. */
+export interface Login {
+  /** IdentityProvider id. */
+  provider: string
+  /** Provider-namespaced user id: keys the owner key / passkey stored on this browser. */
+  userId: string
+  /** AccountFactory uuid of the user's smart account: `${userId}:${variant}`. */
+  uuidString: string
+  /** Auth service statement that `uuidString` belongs to this login. */
+  binding?: SignedAccountBinding
+}
+
+/**
+ * A way to log in. Each provider maps its users to its own userId namespace, so two
+ * providers never share an account:
+ *   google → `<sub>` (unchanged from the Google-only version), oidc → `oidc:<issuer>:<sub>`,
+ *   email → `email:<address>`
+ */
+export interface IdentityProvider {
+  id: string
+  label: string
+  /** Starts a login: redirect to the IdP, or a link sent by email. `hint`: login_hint / address. */
+  start(hint?: string): Promise<void>
+  /**
+   * Completes the login when the current page is this provider's response; null otherwise.
+   * Throws an IdTokenError when a check fails.
+   */
+  complete(variant: string): Promise<Login | null>
+}
+
+export function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+}
+
+// 256-bit random value, base64url encoded (43 characters: also a valid PKCE verifier)
+export function randomToken(): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * POSTs a login to the auth service and checks its answer: uuidString + binding, verified
+ * against VITE_AUTH_SIGNER_ADDRESS when set.
+ */
+export async function authServiceLogin(
+  provider: string,
+  path: string,
+  body: Record<string, string>
+): Promise<Login> {
+  const res = await fetch(`${AUTH_SERVICE_URL}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  })
+  const answer = (await res.json().catch(() => ({}))) as Partial<Login> & { error?: string }
+  if (!res.ok || !answer.userId || !answer.uuidString || !answer.binding) {
+    throw new IdTokenError(
+      "exchange",
+      `The auth service rejected the login: ${answer.error ?? `HTTP ${res.status}`}`
+    )
+  }
+
+  const { userId, uuidString, binding } = answer
+  if (AUTH_SIGNER) {
+    const bound =
+      binding.uuidString === uuidString &&
+      binding.provider === provider &&
+      (await verifyAccountBinding(binding, { chainId: scrollSepolia.id, signer: AUTH_SIGNER }))
+    if (!bound) {
+      throw new IdTokenError(
+        "binding",
+        "The auth service binding is not signed by the expected key"
+      )
+    }
+  }
+  log(`Account binding signed by ${binding.signer} (expires ${binding.expiresAt}).`)
+  return { provider, userId, uuidString, binding }
+}
+
+/** First provider recognizing the current page as its login response, or null. */
+export async function completeLogin(
+  providers: IdentityProvider[],
+  variant: string
+): Promise<Login | null> {
+  for (const provider of providers) {
+    const login = await provider.complete(variant)
+    if (login) return login
+  }
+  return null
+}
@@ -1,84 +1,87 @@
 // src/main.ts
 
+import {
+  type Address,
+  accountAddressCalculator,
+  BundlerClient,
+  BundlerError,
+  type Call,
+  cancelRecoveryCall,
+  canonicalUserOpHasher,
+  createGasPriceStrategy,
+  createNonceManager,
+  creationCodeFromArtifact,
+  decodeNonce,
+  encodeCalls,
+  encodeExecute,
+  type GasLimits,
+  type GasMultipliers,
+  type Hex,
+  type NonceManager,
+  type PaymasterSponsor,
+  passkeyOwnerSetupCalls,
+  type RecoveryState,
+  readRecoveryState,
+  revokeSessionCall,
+  rpcPaymasterSponsor,
+  SmartAccountClient,
+  sessionDummySignature,
+  sessionPermission,
+  setGuardiansCall,
+  setOwnerCall,
+  type UserOperation,
+  type UserOpSigner,
+  WEBAUTHN_DUMMY_SIGNATURE,
+  WEBAUTHN_VERIFICATION_GAS
+} from "aa-demo-sdk"
 import {
   createPublicClient,
   encodeFunctionData,
-  encodePacked,
+  formatEther,
   http,
+  isAddress,
+  isAddressEqual,
   keccak256,
-  stringToBytes
+  parseAbi,
+  parseEther,
+  stringToBytes,
+  zeroAddress
 } from "viem"
-import { privateKeyToAccount } from "viem/accounts"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
 import { scrollSepolia } from "viem/chains"
 
-import { extractPkFromGoogleRedirect, startGoogleLogin } from "./google"
+import { emailProvider } from "./email"
+import { googleProvider } from "./google"
+import { completeLogin, type IdentityProvider } from "./identity"
+import { IdTokenError } from "./idToken"
+import { genericOidcProvider } from "./oidc"
+import {
+  demoSubOwnerKeyProvider,
+  encryptedOwnerKeyProvider,
+  type OwnerKeyProvider
+} from "./ownerKey"
+import { getOrCreatePasskey, type Passkey, passkeySigner } from "./passkey"
+import {
+  createSessionKey,
+  forgetSessionKey,
+  loadSessionKey,
+  type SessionKey,
+  sessionSigner
+} from "./sessionKey"
 import {
   $,
+  addUserOpRow,
   log,
   makeLogPanelDraggable,
+  promptPassphrase,
   setCount,
+  setRecoveryInfo,
+  setSessionInfo,
   setStatus,
   showLoggedInUI,
   showLoggedOutUI
 } from "./ui"
 
-type Address = `0x${string}`
-type Hex = `0x${string}`
-
-// ============================================================================
-// USER OPERATION TYPES
-// ============================================================================
-
-/**
- * UserOperation formatted for bundler RPC (numeric values as hex).
- */
-type SimpleUserOperation = {
-  sender: Address
-  nonce: Hex
-  initCode: Hex
-  callData: Hex
-  callGasLimit: Hex
-  verificationGasLimit: Hex
-  preVerificationGas: Hex
-  maxFeePerGas: Hex
-  maxPriorityFeePerGas: Hex
-  paymasterAndData: Hex
-  signature: Hex
-}
-
-/**
- * UserOperation formatted for EntryPoint.getUserOpHash (numeric values bigint).
- */
-type EntryPointUserOperation = {
-  sender: Address
-  nonce: bigint
-  initCode: Hex
-  callData: Hex
-  callGasLimit: bigint
-  verificationGasLimit: bigint
-  preVerificationGas: bigint
-  maxFeePerGas: bigint
-  maxPriorityFeePerGas: bigint
-  paymasterAndData: Hex
-  signature: Hex
-}
-
-function toEntryPointUserOp(op: SimpleUserOperation): EntryPointUserOperation {
-  return {
-    sender: op.sender,
-    nonce: BigInt(op.nonce),
-    initCode: op.initCode,
-    callData: op.callData,
-    callGasLimit: BigInt(op.callGasLimit),
-    verificationGasLimit: BigInt(op.verificationGasLimit),
-    preVerificationGas: BigInt(op.preVerificationGas),
-    maxFeePerGas: BigInt(op.maxFeePerGas),
-    maxPriorityFeePerGas: BigInt(op.maxPriorityFeePerGas),
-    paymasterAndData: op.paymasterAndData,
-    signature: op.signature
-  }
-}
-
 // ============================================================================
 // ENV + RPC CLIENT
 // ============================================================================
@@ -96,11 +99,110 @@ if (!backendSaltEnv) {
 }
 const backendSalt = keccak256(stringToBytes(backendSaltEnv)) as Hex
 
+// Owner key source. Default: random key generated in the browser, encrypted with a user
+// passphrase (PBKDF2 + AES-GCM) in IndexedDB. VITE_OWNER_KEY_PROVIDER=demo derives it from
+// the login user id instead: reproducible by anyone who knows it, workshops only.
+// VITE_OWNER_KEY_PROVIDER=passkey uses no ECDSA key: the owner is a PasskeyOwner contract
+// holding the P-256 public key of a WebAuthn credential (see passkey.ts).
+const USE_PASSKEY = import.meta.env.VITE_OWNER_KEY_PROVIDER === "passkey"
+const OWNER_KEYS: OwnerKeyProvider =
+  import.meta.env.VITE_OWNER_KEY_PROVIDER === "demo"
+    ? demoSubOwnerKeyProvider()
+    : encryptedOwnerKeyProvider(promptPassphrase)
+
+// Passkey accounts get their own uuid: the account address does not depend on the owner
+const UUID_VERSION = USE_PASSKEY ? "passkey" : "V2"
+
+// Login methods offered on the page, each with its own account namespace (see identity.ts):
+// Google, a generic OpenID Connect IdP (e.g. the corporate one) and email magic links
+// (through the auth service).
+const PROVIDERS: IdentityProvider[] = []
+if (import.meta.env.VITE_GOOGLE_CLIENT_ID) {
+  PROVIDERS.push(googleProvider(import.meta.env.VITE_GOOGLE_CLIENT_ID))
+}
+if (import.meta.env.VITE_OIDC_ISSUER && import.meta.env.VITE_OIDC_CLIENT_ID) {
+  PROVIDERS.push(
+    genericOidcProvider({
+      issuer: import.meta.env.VITE_OIDC_ISSUER,
+      clientId: import.meta.env.VITE_OIDC_CLIENT_ID,
+      label: import.meta.env.VITE_OIDC_LABEL || "SSO"
+    })
+  )
+}
+if (import.meta.env.VITE_EMAIL_LOGIN === "true") PROVIDERS.push(emailProvider())
+
+// Session keys (see sessionKey.ts): DemoLogic.increment() only, no ETH, for
+// VITE_SESSION_TTL_SECONDS (default 1 hour)
+const SESSION_TTL_SECONDS = Number(import.meta.env.VITE_SESSION_TTL_SECONDS) || 3600
+const SESSION_PERMISSIONS = [sessionPermission(logicAddress, "increment()")]
+// The spend limit also counts the max gas cost of ops the key pays itself: without a
+// paymaster service, a small gas budget (tens of ops at Scroll fees), else nothing
+const SESSION_SPEND_LIMIT = import.meta.env.VITE_PAYMASTER_SERVICE_URL?.trim()
+  ? 0n
+  : parseEther("0.005")
+
+function envMultiplier(v: string | undefined): number | undefined {
+  const n = Number(v)
+  return v && Number.isFinite(n) && n > 0 ? n : undefined
+}
+
 const publicClient = createPublicClient({
   chain: scrollSepolia,
   transport: http(import.meta.env.VITE_SCROLL_RPC)
 })
 
+// Gas limits are estimated by the bundler (eth_estimateUserOperationGas) and scaled by
+// these safety multipliers; unset values fall back to the SDK defaults.
+const GAS_MULTIPLIERS: Partial<GasMultipliers> = {
+  callGasLimit: envMultiplier(import.meta.env.VITE_CALL_GAS_MULTIPLIER),
+  verificationGasLimit: envMultiplier(import.meta.env.VITE_VERIFICATION_GAS_MULTIPLIER),
+  preVerificationGas: envMultiplier(import.meta.env.VITE_PRE_VERIFICATION_GAS_MULTIPLIER)
+}
+
+// Fixed limits used only when the bundler cannot estimate
+// (generous enough to cover initCode deployment).
+const FALLBACK_GAS_LIMITS: GasLimits = {
+  callGasLimit: 0x350000n,
+  verificationGasLimit: 0x150000n,
+  preVerificationGas: 0x40000n
+}
+
+// Passkey owner: without the RIP-7212 precompile the P-256 check runs in Solidity
+const PASSKEY_FALLBACK_GAS_LIMITS: GasLimits = {
+  ...FALLBACK_GAS_LIMITS,
+  verificationGasLimit: 0x300000n
+}
+
+// userOpHash is computed locally (EntryPoint v0.6 getUserOpHash, no RPC roundtrip).
+// VITE_DEBUG_USER_OP_HASH=true also reads it from the EntryPoint and logs any mismatch.
+const HASH_USER_OP = canonicalUserOpHasher({
+  entryPoint: entryPointAddress,
+  chainId: scrollSepolia.id,
+  crossCheck: import.meta.env.VITE_DEBUG_USER_OP_HASH === "true" ? publicClient : undefined,
+  onMismatch: ({ local, onChain }) =>
+    log(`[DEBUG] userOpHash mismatch: local ${local} != EntryPoint ${onChain}`)
+})
+
+function envWei(v: string | undefined): bigint | undefined {
+  return v ? BigInt(v) : undefined
+}
+
+// Gas prices: VITE_GAS_PRICE_STRATEGY = fee-history (Scroll RPC eth_feeHistory +
+// eth_maxPriorityFeePerGas, default) | pimlico (Pimlico bundlers only) | fixed
+// (VITE_FIXED_MAX_FEE_PER_GAS / VITE_FIXED_MAX_PRIORITY_FEE_PER_GAS, in wei);
+// VITE_GAS_PRICE_TIER = slow | standard | fast.
+const GAS_PRICE_STRATEGY = createGasPriceStrategy(
+  {
+    strategy: import.meta.env.VITE_GAS_PRICE_STRATEGY,
+    tier: import.meta.env.VITE_GAS_PRICE_TIER,
+    fixed: {
+      maxFeePerGas: envWei(import.meta.env.VITE_FIXED_MAX_FEE_PER_GAS),
+      maxPriorityFeePerGas: envWei(import.meta.env.VITE_FIXED_MAX_PRIORITY_FEE_PER_GAS)
+    }
+  },
+  { bundler: new BundlerClient(import.meta.env.VITE_BUNDLER_URL), publicClient }
+)
+
 // ============================================================================
 // CONTRACT ABIs
 // ============================================================================
@@ -122,20 +224,6 @@ const demoLogicAbi = [
   }
 ] as const
 
-const demoAccountAbi = [
-  {
-    name: "execute",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "target", type: "address" },
-      { name: "value", type: "uint256" },
-      { name: "data", type: "bytes" }
-    ],
-    outputs: []
-  }
-] as const
-
 const factoryAbi = [
   {
     name: "createAccount",
@@ -150,67 +238,65 @@ const factoryAbi = [
     outputs: [{ type: "address" }]
   },
   {
-    name: "getAddress",
+    name: "getPasskeyOwnerAddress",
     type: "function",
     stateMutability: "view",
     inputs: [
-      { name: "uuidString", type: "string" },
-      { name: "backendSalt", type: "bytes32" },
-      { name: "entryPoint", type: "address" }
+      { name: "qx", type: "bytes32" },
+      { name: "qy", type: "bytes32" }
     ],
     outputs: [{ type: "address" }]
-  }
-] as const
-
-const entryPointAbi = [
+  },
   {
-    name: "getUserOpHash",
+    name: "getAddress",
     type: "function",
     stateMutability: "view",
     inputs: [
-      {
-        name: "userOp",
-        type: "tuple",
-        components: [
-          { name: "sender", type: "address" },
-          { name: "nonce", type: "uint256" },
-          { name: "initCode", type: "bytes" },
-          { name: "callData", type: "bytes" },
-          { name: "callGasLimit", type: "uint256" },
-          { name: "verificationGasLimit", type: "uint256" },
-          { name: "preVerificationGas", type: "uint256" },
-          { name: "maxFeePerGas", type: "uint256" },
-          { name: "maxPriorityFeePerGas", type: "uint256" },
-          { name: "paymasterAndData", type: "bytes" },
-          { name: "signature", type: "bytes" }
-        ]
-      }
+      { name: "uuidString", type: "string" },
+      { name: "backendSalt", type: "bytes32" },
+      { name: "entryPoint", type: "address" }
     ],
-    outputs: [{ type: "bytes32" }]
+    outputs: [{ type: "address" }]
   }
 ] as const
 
-// ABI to read nonce correctly
-const entryPointNonceAbi = [
-  {
-    name: "getNonce",
-    type: "function",
-    stateMutability: "view",
-    inputs: [
-      { name: "sender", type: "address" },
-      { name: "key", type: "uint192" }
-    ],
-    outputs: [{ type: "uint256" }]
-  }
-] as const
+// DemoAccount artifact from `forge build` in ../contracts (optional). With it, the account
+// address is computed offline with the AccountFactory CREATE2 formula.
+const demoAccountArtifact = Object.values(
+  import.meta.glob("../../contracts/out/DemoAccount.sol/DemoAccount.json", {
+    eager: true,
+    import: "default"
+  })
+)[0]
+
+const offlineAccountAddress = demoAccountArtifact
+  ? accountAddressCalculator({
+      factory: factoryAddress,
+      entryPoint: entryPointAddress,
+      creationCode: creationCodeFromArtifact(demoAccountArtifact)
+    })
+  : undefined
+
+// Set once the offline address matched AccountFactory.getAddress (same DemoAccount bytecode)
+let offlineAddressVerified = false
 
 // ============================================================================
 // GLOBAL STATE
 // ============================================================================
 
-let ownerPk: Hex | null = null
+// Owner signer: the key is kept in memory only, never written to localStorage. Loaded
+// lazily: not at all while a session key signs the UserOperations.
+let owner: UserOpSigner | null = null
+let userId: string | null = null
+// Set with VITE_OWNER_KEY_PROVIDER=passkey (owner = its PasskeyOwner contract)
+let passkey: Passkey | null = null
 let smartAccountAddress: Address | null = null
 let uuidString: string | null = null
+// Kept for the whole login: a client per signer, one in-flight nonce tracker per account
+// (owner and session ops share key 0), so an op sent while another is pending gets the
+// next nonce instead of replacing it
+const accountClients = new Map<string, SmartAccountClient>()
+const nonceManagers = new Map<Address, NonceManager>()
 
 // ============================================================================
 // SMART ACCOUNT HELPERS
@@ -253,20 +339,36 @@ export function maskAfterFive(input: string): string {
  * and logs whether it's already deployed.
  */
 async function ensureSmartAccount(): Promise<Address> {
-  if (!ownerPk) throw new Error("Missing owner PK")
   if (!uuidString) throw new Error("Missing uuidString")
 
   log(`uuidString: ${maskAfterFive(uuidString)}`)
   log(`backendSalt (hex): ${backendSalt}`)
 
-  const computed = (await publicClient.readContract({
-    address: factoryAddress,
-    abi: factoryAbi,
-    functionName: "getAddress",
-    args: [uuidString, backendSalt, entryPointAddress]
-  })) as Address
+  // Offline CREATE2 (instant) when the artifact is available; AccountFactory.getAddress
+  // is only called until the offline formula has matched it once.
+  const offline = offlineAccountAddress?.(uuidString, backendSalt)
+  if (offline) log(`Computed smart account (offline CREATE2): ${offline}`)
 
-  log(`Computed smart account: ${computed}`)
+  let computed = offline
+  if (!computed || !offlineAddressVerified) {
+    const onChain = (await publicClient.readContract({
+      address: factoryAddress,
+      abi: factoryAbi,
+      functionName: "getAddress",
+      args: [uuidString, backendSalt, entryPointAddress]
+    })) as Address
+
+    if (offline && offline !== onChain) {
+      log(
+        `Offline address differs from AccountFactory.getAddress (${onChain}): ` +
+          "contracts/out does not match the deployed factory, using the on-chain value."
+      )
+    } else if (offline) {
+      offlineAddressVerified = true
+    }
+    computed = onChain
+    log(`Computed smart account: ${computed}`)
+  }
 
   const exists = await smartAccountExists(computed)
   log(`smartAccountExists? (${computed}) = ${exists}`)
@@ -279,90 +381,187 @@ async function ensureSmartAccount(): Promise<Address> {
 // PAYMASTER SIGNATURE
 // ============================================================================
 
-function getPaymasterSignerPk(): Hex | null {
-  const pk = import.meta.env.VITE_PAYMASTER_SIGNER_PK
-  if (!pk || pk.trim() === "") return null
-  return pk as Hex
+/**
+ * paymasterAndData comes from the sponsorship service (../paymaster-service):
+ * the paymaster signer key never reaches the browser.
+ */
+function getPaymasterSponsor(): PaymasterSponsor | undefined {
+  const url = import.meta.env.VITE_PAYMASTER_SERVICE_URL
+  if (!url || url.trim() === "") return undefined
+
+  log(`Paymaster:${paymasterAddress} (service: ${url})`)
+  return rpcPaymasterSponsor({ url, entryPoint: entryPointAddress, chainId: scrollSepolia.id })
 }
 
+// ============================================================================
+// SEND USER OPERATION
+// ============================================================================
+
 /**
- * Signs digest = keccak(sender, callData, nonce).
+ * SmartAccountClient of `sender`, signing with the session key when given, else the owner.
+ * Created once per signer and login (see `accountClients`).
  */
-async function signPaymaster(userOp: SimpleUserOperation): Promise<Hex | null> {
-  const pk = getPaymasterSignerPk()
-  if (!pk) return null
+function accountClient(sender: Address, session: SessionKey | null): SmartAccountClient {
+  if (!session && !owner) throw new Error("Missing owner")
 
-  const acc = privateKeyToAccount(pk)
+  const key = `${sender}:${session ? session.grantHash : "owner"}`
+  const cached = accountClients.get(key)
+  if (cached) return cached
 
-  const digest = keccak256(
-    encodePacked(
-      ["address", "bytes", "uint256"],
-      [userOp.sender, userOp.callData, BigInt(userOp.nonce)]
-    )
-  )
+  const client = new SmartAccountClient({
+    publicClient,
+    bundlerUrl: import.meta.env.VITE_BUNDLER_URL,
+    entryPoint: entryPointAddress,
+    sender,
+    signer: session ? sessionSigner(session) : (owner as UserOpSigner),
+    hashUserOp: HASH_USER_OP,
+    gasPriceStrategy: GAS_PRICE_STRATEGY,
+    paymaster: getPaymasterSponsor(),
+    gasMultipliers: GAS_MULTIPLIERS,
+    fallbackGasLimits: passkey ? PASSKEY_FALLBACK_GAS_LIMITS : FALLBACK_GAS_LIMITS,
+    // Session signature: grant + owner signature + session key signature
+    ...(session && {
+      dummySignature: sessionDummySignature(session.grant, session.ownerSignature)
+    }),
+    // A passkey signature is ~480 bytes and its P-256 check is not run during estimation
+    ...(!session &&
+      passkey && {
+        dummySignature: WEBAUTHN_DUMMY_SIGNATURE,
+        extraVerificationGas: WEBAUTHN_VERIFICATION_GAS
+      }),
+    nonces: accountNonces(sender)
+  })
+  accountClients.set(key, client)
+  return client
+}
 
-  log(`Paymaster:${paymasterAddress}`)
+function accountNonces(sender: Address): NonceManager {
+  let nonces = nonceManagers.get(sender)
+  if (!nonces) {
+    nonces = createNonceManager(publicClient, entryPointAddress, sender)
+    nonceManagers.set(sender, nonces)
+  }
+  return nonces
+}
+
+/**
+ * First UserOperation of a passkey account. Its initCode may only deploy the account
+ * (ERC-7562: one CREATE2 during validation, rule-enforcing bundlers reject more), and the
+ * passkey cannot sign before its PasskeyOwner exists. So a throwaway key, in memory for this
+ * op only, owns the new account while the op deploys the PasskeyOwner and hands it the account.
+ */
+async function bootstrapPasskeyAccount(sender: Address, passkeyOwner: Address) {
+  if (!uuidString || !passkey) throw new Error("Missing passkey login")
+
+  const bootstrapKey = privateKeyToAccount(generatePrivateKey())
+  const aa = new SmartAccountClient({
+    publicClient,
+    bundlerUrl: import.meta.env.VITE_BUNDLER_URL,
+    entryPoint: entryPointAddress,
+    sender,
+    signer: bootstrapKey,
+    hashUserOp: HASH_USER_OP,
+    gasPriceStrategy: GAS_PRICE_STRATEGY,
+    paymaster: getPaymasterSponsor(),
+    gasMultipliers: GAS_MULTIPLIERS,
+    fallbackGasLimits: FALLBACK_GAS_LIMITS,
+    nonces: accountNonces(sender)
+  })
+  const deployAccount = (factoryAddress +
+    encodeFunctionData({
+      abi: factoryAbi,
+      functionName: "createAccount",
+      args: [uuidString, backendSalt, entryPointAddress, bootstrapKey.address]
+    }).slice(2)) as Hex
+  const callData = encodeCalls(
+    passkeyOwnerSetupCalls({
+      factory: factoryAddress,
+      account: sender,
+      publicKey: passkey.publicKey,
+      passkeyOwner
+    })
+  )
 
-  const sig = await acc.signMessage({ message: { raw: digest } })
-  log("Paymaster signature created.")
-  return sig as Hex
+  log(
+    `Bootstrap UserOperation: deploys ${sender} with a throwaway owner (${bootstrapKey.address}), then the PasskeyOwner ${passkeyOwner} as its owner.`
+  )
+  // A reverted bootstrap still deployed the account, owned by the throwaway key: its calls
+  // are retried while the key is still in memory
+  for (const initCode of [deployAccount, "0x" as Hex]) {
+    const userOp = await aa.buildUserOp({ initCode, callData })
+    const uoHash = await aa.send(await aa.sponsorAndSign(userOp))
+    log(`Bundler accepted the bootstrap UserOperation: ${uoHash}`)
+
+    const outcome = await aa.waitForReceipt(uoHash)
+    if (outcome.status === "included") {
+      log("PasskeyOwner deployed and set as the account owner.")
+      return
+    }
+    if (outcome.status === "dropped") {
+      throw new Error(`Bootstrap UserOperation dropped: ${outcome.reason}`)
+    }
+    log("Bootstrap calls reverted, retrying them...")
+  }
+  throw new Error(`Bootstrap failed: ${sender} is left owned by ${bootstrapKey.address}`)
 }
 
-// ============================================================================
-// SEND USER OPERATION
-// ============================================================================
+// Loads the owner once per page, when a UserOperation or a grant needs it
+async function requireOwner(): Promise<UserOpSigner> {
+  if (!userId) throw new Error("Missing user id (expected from the login / aa-user)")
+  if (!owner) {
+    owner = await loadOwner(userId)
+    if (smartAccountAddress) await migrateLegacyOwner(smartAccountAddress)
+  }
+  return owner
+}
 
 async function sendUserOp() {
-  if (!ownerPk) {
+  if (!uuidString) {
     log("Cannot send UserOperation: not logged in.")
     return
   }
-  if (!uuidString) {
-    throw new Error("Missing uuidString (expected from Google sub / aa-uuid)")
-  }
 
   setStatus("Preparing UserOperation...")
   log("Preparing UserOperation...")
 
-  const owner = privateKeyToAccount(ownerPk)
-
   // 1) Compute deterministic smart account address
   const sender = await ensureSmartAccount()
   const exists = await smartAccountExists(sender)
 
-  // 2) Fetch correct nonce from EntryPoint
-  const epNonce = (await publicClient.readContract({
-    address: entryPointAddress,
-    abi: entryPointNonceAbi,
-    functionName: "getNonce",
-    args: [sender, 0n]
-  })) as bigint
-
-  log(`EntryPoint nonce: ${epNonce}`)
+  // Session key of this browser when there is one (deployed accounts only: initCode
+  // needs the owner), otherwise the owner
+  const session = exists ? loadSessionKey(sender) : null
+  if (session) {
+    log(
+      `Signing with session key ${session.address} (valid until ${new Date(session.grant.validUntil * 1000).toLocaleString()}): owner key not needed.`
+    )
+  }
+  const signer = session ? null : await requireOwner()
+  const aa = accountClient(sender, session)
 
-  // 3) Prepare DemoLogic.increment call
+  // 2) Prepare DemoLogic.increment call
   const logicCall = encodeFunctionData({
     abi: demoLogicAbi,
     functionName: "increment",
     args: []
   })
 
-  // 4) Wrap in DemoAccount.execute()
-  const callData = encodeFunctionData({
-    abi: demoAccountAbi,
-    functionName: "execute",
-    args: [logicAddress, 0n, logicCall]
-  })
+  // 3) Wrap in DemoAccount.execute()
+  const callData = encodeExecute(logicAddress, 0n, logicCall)
 
-  // 5) initCode:
+  // 4) initCode:
   //    - si la cuenta NO existe => factory.createAccount(...)
+  //      (con passkey: antes, una UserOperation de bootstrap despliega la cuenta y el
+  //      PasskeyOwner, ver bootstrapPasskeyAccount)
   //    - si la cuenta YA existe => initCode = "0x" (obligatorio, sino AA10)
-  let initCode: Hex
+  let initCode = "0x" as Hex
   if (exists) {
     log(
       `Smart account is already deployed: ${sender}. Using empty initCode (required by EntryPoint).`
     )
-    initCode = "0x" as Hex
+  } else if (passkey) {
+    log(`Smart account NOT deployed on-chain yet: ${sender}. Bootstrapping it for the passkey.`)
+    await bootstrapPasskeyAccount(sender, (signer as UserOpSigner).address)
   } else {
     log(
       `Smart account NOT deployed on-chain yet: ${sender}. Adding factory.createAccount to initCode.`
@@ -371,68 +570,393 @@ async function sendUserOp() {
     const initCallData = encodeFunctionData({
       abi: factoryAbi,
       functionName: "createAccount",
-      args: [uuidString, backendSalt, entryPointAddress, owner.address as Address]
+      args: [uuidString, backendSalt, entryPointAddress, (signer as UserOpSigner).address]
     })
 
     initCode = (factoryAddress + initCallData.slice(2)) as Hex
   }
 
-  // 6) Build UserOperation
-  const userOp: SimpleUserOperation = {
-    sender,
-    nonce: `0x${epNonce.toString(16)}` as Hex,
+  // 5) Build UserOperation: the SDK nonce manager reserves the next EntryPoint nonce
+  //    (key 0), gas prices come from the strategy, gas limits from the bundler
+  const userOp = await aa.buildUserOp({
     initCode,
-    callData,
-    callGasLimit: "0x350000",
-    verificationGasLimit: "0x150000",
-    preVerificationGas: "0x40000",
-    maxFeePerGas: "0x2540be400",
-    maxPriorityFeePerGas: "0x2540be400",
-    paymasterAndData: "0x",
-    signature: "0x"
+    callData
+  })
+
+  const { key, sequence } = decodeNonce(BigInt(userOp.nonce))
+  log(`EntryPoint nonce: ${BigInt(userOp.nonce)} (key ${key}, sequence ${sequence})`)
+
+  log(
+    `Gas prices (${GAS_PRICE_STRATEGY.name}/${GAS_PRICE_STRATEGY.tier}): ` +
+      `maxFeePerGas=${BigInt(userOp.maxFeePerGas)} ` +
+      `maxPriorityFeePerGas=${BigInt(userOp.maxPriorityFeePerGas)}`
+  )
+
+  log(
+    `Gas limits: call=${BigInt(userOp.callGasLimit)} ` +
+      `verification=${BigInt(userOp.verificationGasLimit)} ` +
+      `preVerification=${BigInt(userOp.preVerificationGas)}`
+  )
+
+  // 6-8) Sponsor and sign. The client (and its nonce tracker) lives for the whole login:
+  //      a refused sponsorship or a cancelled prompt must give the nonce back
+  let signed: UserOperation
+  try {
+    // 6) Paymaster signing
+    const sponsored = await aa.sponsor(userOp)
+    if (sponsored.paymasterAndData !== "0x") {
+      log("Paymaster signature received from the sponsorship service.")
+    }
+
+    // 7) Compute userOpHash
+    const userOpHash = await aa.getUserOpHash(sponsored)
+    log(`UserOp hash: ${userOpHash}`)
+
+    // 8) Owner signature (passkey: the authenticator prompts for biometrics / PIN), or the
+    //    session key one
+    if (passkey && !session) log("Waiting for the passkey signature...")
+    signed = await aa.sign(sponsored)
+  } catch (err) {
+    aa.releaseNonce(userOp)
+    throw err
+  }
+
+  // 9) Send to bundler
+  const uoHash = await aa.send(signed)
+  log(`Bundler accepted UserOperation: ${uoHash}`)
+
+  setStatus("UserOperation sent, waiting for inclusion...")
+
+  // 10) Follow it until inclusion, in the background: more ops can be sent meanwhile
+  void trackUserOp(aa, uoHash).catch((err) => {
+    if (err instanceof DOMException && err.name === "AbortError") return
+    console.error(err)
+    log(`Error tracking UserOperation ${uoHash}: ${String(err)}`)
+  })
+}
+
+// ============================================================================
+// SESSION KEYS
+// ============================================================================
+
+function showSession(session: SessionKey | null) {
+  setSessionInfo(
+    session
+      ? `${session.address}, DemoLogic.increment() only, until ${new Date(session.grant.validUntil * 1000).toLocaleString()}`
+      : "none (UserOperations are signed by the owner)"
+  )
+}
+
+/**
+ * New session key for the deployed account: the owner signs its grant once (passphrase /
+ * passkey prompt), then "Send UserOperation" no longer needs the owner key.
+ */
+async function createSession() {
+  if (!uuidString) return
+  const sender = await ensureSmartAccount()
+  if (!(await smartAccountExists(sender))) {
+    log("Send a first UserOperation to deploy the account before creating a session key.")
+    setStatus("Account not deployed yet.")
+    return
   }
 
-  // 7) Paymaster signing
-  const pmSig = await signPaymaster(userOp)
-  if (pmSig) {
-    userOp.paymasterAndData = (paymasterAddress + pmSig.slice(2)) as Hex
+  const signer = await requireOwner()
+  log(
+    `Owner signing a session key grant (DemoLogic.increment(), ${SESSION_SPEND_LIMIT > 0n ? `up to ${formatEther(SESSION_SPEND_LIMIT)} ETH of gas` : "sponsored ops only"})...`
+  )
+  const session = await createSessionKey({
+    account: sender,
+    chainId: scrollSepolia.id,
+    owner: signer,
+    permissions: SESSION_PERMISSIONS,
+    ttlSeconds: SESSION_TTL_SECONDS,
+    spendLimit: SESSION_SPEND_LIMIT
+  })
+  log(`Session key ${session.address} granted (grant ${session.grantHash}).`)
+  log("Checked on-chain with the first session UserOperation, remembered by the account.")
+  showSession(session)
+  setStatus("Session key created.")
+}
+
+/**
+ * Revokes the session key on-chain (a UserOperation it signs itself: the one call to the
+ * account a grant allows) and forgets it. An unused grant is just forgotten.
+ */
+async function revokeSession() {
+  if (!uuidString) return
+  const sender = await ensureSmartAccount()
+  const session = loadSessionKey(sender)
+  if (!session) {
+    log("No session key to revoke on this browser (expired ones are forgotten).")
+    showSession(null)
+    return
   }
 
-  // 8) Compute userOpHash
-  const opForHash = toEntryPointUserOp(userOp)
+  log(`Revoking session key ${session.address} (DemoAccount.revokeSession)...`)
+  const aa = accountClient(sender, session)
+  const userOp = await aa.buildUserOp({
+    callData: encodeCalls([revokeSessionCall(sender, session.grantHash)])
+  })
+  const uoHash = await aa.send(await aa.sponsorAndSign(userOp))
+  log(`Bundler accepted the revocation: ${uoHash}`)
+
+  forgetSessionKey(sender)
+  showSession(null)
+  setStatus("Session key revoked, waiting for inclusion...")
+  void trackUserOp(aa, uoHash).catch((err) => {
+    if (err instanceof DOMException && err.name === "AbortError") return
+    console.error(err)
+    log(`Error tracking UserOperation ${uoHash}: ${String(err)}`)
+  })
+}
+
+// ============================================================================
+// GUARDIAN RECOVERY
+// ============================================================================
+
+const ownerAbi = parseAbi(["function owner() view returns (address)"])
+
+function showRecovery(state: RecoveryState) {
+  const guardians =
+    state.guardians.length === 0
+      ? "none (a lost owner key cannot be recovered)"
+      : `${state.threshold} of ${state.guardians.length} (${state.guardians.join(", ")}), timelock ${state.delay / 3600} h`
+  setRecoveryInfo(
+    guardians,
+    state.pending && {
+      newOwner: state.pending.newOwner,
+      executeAfter: new Date(state.pending.executeAfter * 1000).toLocaleString()
+    }
+  )
+}
+
+/**
+ * Reads the guardians of the deployed account. When the owner key of this browser is not the
+ * on-chain owner (new device, cleared site data...), explains how the guardians recover it.
+ */
+async function refreshRecovery() {
+  const sender = smartAccountAddress
+  if (!sender || !(await smartAccountExists(sender))) {
+    setRecoveryInfo("none (account not deployed yet)", null)
+    return
+  }
 
-  const userOpHash = (await publicClient.readContract({
-    address: entryPointAddress,
-    abi: entryPointAbi,
-    functionName: "getUserOpHash",
-    args: [opForHash]
-  })) as Hex
+  const [state, onChainOwner] = await Promise.all([
+    readRecoveryState(publicClient, sender),
+    publicClient.readContract({ address: sender, abi: ownerAbi, functionName: "owner" })
+  ])
+  showRecovery(state)
 
-  log(`UserOp hash: ${userOpHash}`)
+  if (state.pending) {
+    log(
+      `Recovery pending: ${state.pending.newOwner} becomes the owner from ${new Date(state.pending.executeAfter * 1000).toLocaleString()} unless the owner cancels it.`
+    )
+  }
+  if (owner && !isAddressEqual(owner.address, onChainOwner)) {
+    log(
+      `This browser's owner ${owner.address} is not the account owner (${onChainOwner}): ` +
+        "its UserOperations will be rejected (AA24)."
+    )
+    if (state.guardians.length === 0) {
+      log("The account has no guardians: it cannot be recovered.")
+    } else {
+      log(
+        `Ask ${state.threshold} of its guardians to approve the new owner ` +
+          `(yarn recovery approve ${sender} ${owner.address}), then start the recovery ` +
+          "with their approvals (03-social/recovery)."
+      )
+    }
+  }
+}
 
-  // 9) Owner signature
-  const ownerSig = await owner.signMessage({
-    message: { raw: userOpHash }
+/** Owner UserOperation calling the account itself (guardian configuration, cancel). */
+async function sendOwnerCalls(calls: Call[], what: string) {
+  if (!uuidString) return
+  const sender = await ensureSmartAccount()
+  if (!(await smartAccountExists(sender))) {
+    log(`Send a first UserOperation to deploy the account before you ${what}.`)
+    setStatus("Account not deployed yet.")
+    return
+  }
+
+  await requireOwner()
+  const aa = accountClient(sender, null)
+  const userOp = await aa.buildUserOp({ callData: encodeCalls(calls) })
+  if (passkey) log("Waiting for the passkey signature...")
+  const uoHash = await aa.send(await aa.sponsorAndSign(userOp))
+  log(`Bundler accepted the UserOperation to ${what}: ${uoHash}`)
+
+  setStatus("UserOperation sent, waiting for inclusion...")
+  void trackUserOp(aa, uoHash, refreshRecovery).catch((err) => {
+    if (err instanceof DOMException && err.name === "AbortError") return
+    console.error(err)
+    log(`Error tracking UserOperation ${uoHash}: ${String(err)}`)
   })
-  userOp.signature = ownerSig as Hex
-
-  // 10) Send to bundler
-  const res = await fetch(import.meta.env.VITE_BUNDLER_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "eth_sendUserOperation",
-      params: [userOp, entryPointAddress]
-    })
+}
+
+/**
+ * Accounts created before the encrypted key provider are owned by the demo key derived from
+ * the login user id (keccak256(sub)), which the new browser key cannot sign for (AA24). The
+ * legacy key still can: one op signed with it hands the account to the browser key
+ * (`setOwner`), and the legacy key is dropped from memory afterwards.
+ */
+async function migrateLegacyOwner(sender: Address) {
+  if (USE_PASSKEY || OWNER_KEYS.kind !== "encrypted" || !userId || !owner) return
+  if (!(await smartAccountExists(sender))) return
+
+  const legacyKey = privateKeyToAccount(await demoSubOwnerKeyProvider().getOwnerKey(userId))
+  const onChainOwner = await publicClient.readContract({
+    address: sender,
+    abi: ownerAbi,
+    functionName: "owner"
+  })
+  if (!isAddressEqual(onChainOwner, legacyKey.address)) return
+
+  log(
+    `Account owned by the legacy owner ${legacyKey.address} (derived from the login user id): ` +
+      `moving it to this browser's key ${owner.address}...`
+  )
+  const aa = new SmartAccountClient({
+    publicClient,
+    bundlerUrl: import.meta.env.VITE_BUNDLER_URL,
+    entryPoint: entryPointAddress,
+    sender,
+    signer: legacyKey,
+    hashUserOp: HASH_USER_OP,
+    gasPriceStrategy: GAS_PRICE_STRATEGY,
+    paymaster: getPaymasterSponsor(),
+    gasMultipliers: GAS_MULTIPLIERS,
+    fallbackGasLimits: FALLBACK_GAS_LIMITS,
+    nonces: accountNonces(sender)
+  })
+  const userOp = await aa.buildUserOp({
+    callData: encodeCalls([setOwnerCall(sender, owner.address)])
   })
+  const uoHash = await aa.send(await aa.sponsorAndSign(userOp))
+  log(`Bundler accepted the owner migration UserOperation: ${uoHash}`)
+
+  setStatus("Owner migration sent, waiting for inclusion...")
+  await trackUserOp(aa, uoHash, async () => log("Owner migrated: the legacy key is retired."))
+}
+
+/**
+ * Sets the guardians from the form: comma-separated EOAs, the approvals needed, and the
+ * timelock during which the owner can cancel a recovery. Replaces the previous ones and
+ * cancels a pending recovery.
+ */
+async function saveGuardians() {
+  const guardians = ($("guardianList") as HTMLInputElement).value
+    .split(",")
+    .map((g) => g.trim())
+    .filter((g) => g !== "")
+  const invalid = guardians.find((g) => !isAddress(g))
+  if (invalid) {
+    setStatus(`Not an address: ${invalid}`)
+    return
+  }
+  const threshold = Number(($("guardianThreshold") as HTMLInputElement).value)
+  const delayHours = Number(($("recoveryDelayHours") as HTMLInputElement).value)
+  if (guardians.length > 0 && !(threshold >= 1 && threshold <= guardians.length)) {
+    setStatus(`Threshold must be between 1 and ${guardians.length}.`)
+    return
+  }
+  // DemoAccount.MIN_RECOVERY_DELAY
+  if (guardians.length > 0 && !(delayHours >= 1)) {
+    setStatus("The timelock must be at least 1 hour.")
+    return
+  }
 
-  const json = await res.json()
-  log("Bundler response:")
-  log(JSON.stringify(json, null, 2))
+  const account = await ensureSmartAccount()
+  log(
+    guardians.length === 0
+      ? "Removing the guardians (recovery disabled)..."
+      : `Setting ${threshold}-of-${guardians.length} guardians, timelock ${delayHours} h...`
+  )
+  await sendOwnerCalls(
+    [
+      guardians.length === 0
+        ? setGuardiansCall(account, [], 0n, 0)
+        : setGuardiansCall(
+            account,
+            guardians as Address[],
+            BigInt(threshold),
+            Math.round(delayHours * 3600)
+          )
+    ],
+    "set the guardians"
+  )
+}
 
-  setStatus("UserOperation sent.")
+async function cancelRecovery() {
+  const account = await ensureSmartAccount()
+  log("Cancelling the pending recovery (DemoAccount.cancelRecovery)...")
+  await sendOwnerCalls([cancelRecoveryCall(account)], "cancel the recovery")
+}
+
+// ============================================================================
+// USER OPERATION TRACKING
+// ============================================================================
+
+// Receipt waits in progress, cancelled on logout
+const tracking = new Set<AbortController>()
+
+/**
+ * Follows a sent UserOperation: pending → included → success / reverted (or dropped when
+ * no receipt shows up in time). The SDK polls eth_getUserOperationReceipt with backoff and
+ * falls back to the EntryPoint UserOperationEvent logs.
+ */
+async function trackUserOp(
+  aa: SmartAccountClient,
+  userOpHash: Hex,
+  onSuccess: () => Promise<void> = refreshCount
+) {
+  const updateRow = addUserOpRow(userOpHash)
+  const controller = new AbortController()
+  tracking.add(controller)
+
+  try {
+    const outcome = await aa.waitForReceipt(userOpHash, { signal: controller.signal })
+
+    if (outcome.status === "dropped") {
+      updateRow({ state: "dropped" })
+      log(`UserOperation ${userOpHash} dropped: ${outcome.reason}`)
+      setStatus("UserOperation dropped (not included).")
+      return
+    }
+
+    const { receipt } = outcome
+    const txHash = receipt.receipt?.transactionHash
+    const explorer = scrollSepolia.blockExplorers.default.url
+    const details = {
+      txHash,
+      txUrl: txHash ? `${explorer}/tx/${txHash}` : undefined,
+      gasCost: receipt.actualGasCost ? `${formatEther(BigInt(receipt.actualGasCost))} ETH` : "-",
+      // No paymaster: the account paid from its EntryPoint deposit
+      paidBy:
+        receipt.paymaster && receipt.paymaster !== zeroAddress
+          ? `paymaster ${receipt.paymaster}`
+          : "account"
+    }
+    updateRow({ state: "included", ...details })
+
+    const from = outcome.source === "logs" ? " (from EntryPoint logs)" : ""
+    log(`UserOperation included${from} in tx ${txHash ?? "N/A"}`)
+    log(`Actual gas cost: ${details.gasCost}, paid by ${details.paidBy}`)
+
+    if (outcome.status === "reverted") {
+      // Included and charged, but DemoAccount.execute reverted
+      updateRow({ state: "reverted" })
+      log("UserOperation REVERTED: the account call failed (gas was still charged).")
+      setStatus("UserOperation included but reverted.")
+      return
+    }
+
+    updateRow({ state: "success" })
+    setStatus("UserOperation included: success.")
+    await onSuccess()
+  } finally {
+    tracking.delete(controller)
+  }
 }
 
 // ============================================================================
@@ -456,10 +980,17 @@ async function refreshCount() {
 // ============================================================================
 
 function logout() {
-  ownerPk = null
+  for (const controller of tracking) controller.abort()
+  accountClients.clear()
+  nonceManagers.clear()
+  // The session key stays usable by whoever reads localStorage: not after a logout
+  if (smartAccountAddress) forgetSessionKey(smartAccountAddress)
+  owner = null
+  userId = null
+  passkey = null
   smartAccountAddress = null
   uuidString = null
-  localStorage.removeItem("aa-owner-pk")
+  localStorage.removeItem("aa-user")
   localStorage.removeItem("aa-smart-account")
   localStorage.removeItem("aa-uuid")
   showLoggedOutUI()
@@ -467,16 +998,43 @@ function logout() {
   setCount("-")
 }
 
+// Loads the owner of `userId`: its passkey, or its key from the configured provider
+// (may prompt for the passphrase)
+async function loadOwner(userId: string): Promise<UserOpSigner> {
+  if (USE_PASSKEY) {
+    log("Loading passkey owner...")
+    const loaded = await getOrCreatePasskey(userId)
+    passkey = loaded.passkey
+    log(`${loaded.created ? "Created" : "Found"} passkey: ${passkey.credentialId}`)
+    log(`P-256 public key: qx=${passkey.publicKey.x} qy=${passkey.publicKey.y}`)
+
+    const ownerAddress = (await publicClient.readContract({
+      address: factoryAddress,
+      abi: factoryAbi,
+      functionName: "getPasskeyOwnerAddress",
+      args: [passkey.publicKey.x, passkey.publicKey.y]
+    })) as Address
+    log(`PasskeyOwner (ERC-1271 owner): ${ownerAddress}`)
+    return passkeySigner(passkey, ownerAddress)
+  }
+
+  log(`Loading owner key (${OWNER_KEYS.kind} provider)...`)
+  if (OWNER_KEYS.kind === "demo") {
+    log("WARNING: demo owner key derived from the login user id. Never use it with real funds.")
+  }
+  return privateKeyToAccount(await OWNER_KEYS.getOwnerKey(userId))
+}
+
 async function restoreSession() {
-  const savedPk = localStorage.getItem("aa-owner-pk")
+  const savedUser = localStorage.getItem("aa-user")
   const savedUuid = localStorage.getItem("aa-uuid")
-  if (!savedPk || !savedUuid) return false
+  if (!savedUser || !savedUuid) return false
+  // Session of the other owner type (passkey vs key): log in again
+  if (savedUuid !== `${savedUser}:${UUID_VERSION}`) return false
 
-  ownerPk = savedPk as Hex
+  userId = savedUser
   uuidString = savedUuid
 
-  const owner = privateKeyToAccount(ownerPk)
-
   const savedSa = localStorage.getItem("aa-smart-account")
   if (savedSa) {
     smartAccountAddress = savedSa as Address
@@ -485,35 +1043,44 @@ async function restoreSession() {
     await ensureSmartAccount()
   }
 
-  showLoggedInUI(owner.address, smartAccountAddress as Address)
+  // With a session key, the owner key stays locked until it is needed
+  const session = loadSessionKey(smartAccountAddress as Address)
+  if (session) {
+    log(`Session key ${session.address} found: owner key not loaded.`)
+  } else {
+    await requireOwner()
+  }
+
+  showLoggedInUI(session?.owner ?? (owner as UserOpSigner).address, smartAccountAddress as Address)
+  showSession(session)
   setStatus("Session restored.")
+  await refreshRecovery()
 
   return true
 }
 
-async function handleGoogleRedirect() {
-  const pk = extractPkFromGoogleRedirect()
-  if (!pk) return false
+async function handleLoginRedirect() {
+  // uuidString = <userId>:<UUID_VERSION>, issued by the auth service in the code flow
+  const login = await completeLogin(PROVIDERS, UUID_VERSION)
+  if (!login) return false
 
-  ownerPk = pk
-  localStorage.setItem("aa-owner-pk", pk)
+  localStorage.setItem("aa-user", login.userId)
+  userId = login.userId
+  const signer = await requireOwner()
 
-  const storedUuid = localStorage.getItem("aa-uuid")
-  if (!storedUuid) {
-    throw new Error("Missing aa-uuid from Google redirect")
-  }
+  uuidString = login.uuidString
+  localStorage.setItem("aa-uuid", login.uuidString)
 
-  const versionedUuid = `${storedUuid}:V2`
-  uuidString = versionedUuid
-  localStorage.setItem("aa-uuid", versionedUuid)
-
-  const owner = privateKeyToAccount(pk)
   const sa = await ensureSmartAccount()
+  await migrateLegacyOwner(sa)
 
   localStorage.setItem("aa-smart-account", sa)
 
-  showLoggedInUI(owner.address, sa)
-  setStatus("Logged in with Google.")
+  showLoggedInUI(signer.address, sa)
+  showSession(loadSessionKey(sa))
+  const provider = PROVIDERS.find((p) => p.id === login.provider)
+  setStatus(`Logged in with ${provider?.label ?? login.provider}.`)
+  await refreshRecovery()
 
   return true
 }
@@ -527,18 +1094,78 @@ async function init() {
   showLoggedOutUI()
   setStatus("Idle.")
 
-  const handled = await handleGoogleRedirect()
-  if (!handled) await restoreSession()
+  // Older versions kept the owner key in plaintext here
+  if (localStorage.getItem("aa-owner-pk")) {
+    localStorage.removeItem("aa-owner-pk")
+    log("Removed a plaintext owner key left in localStorage by a previous version.")
+  }
+  // Google-only versions saved the session user as its sub (same value as its user id)
+  const legacySub = localStorage.getItem("aa-sub")
+  if (legacySub) {
+    localStorage.setItem("aa-user", legacySub)
+    localStorage.removeItem("aa-sub")
+  }
 
-  $("googleLogin").onclick = () => startGoogleLogin()
+  try {
+    const handled = await handleLoginRedirect()
+    if (!handled) await restoreSession()
+  } catch (err) {
+    // e.g. rejected id_token, wrong passphrase or prompt cancelled: stay logged out,
+    // login again to retry
+    console.error(err)
+    owner = null
+    userId = null
+    uuidString = null
+    passkey = null
+    showLoggedOutUI()
+    if (err instanceof IdTokenError) {
+      log(`Login rejected (${err.reason}): ${err.message}`)
+      setStatus(`Login rejected: ${err.message}`)
+    } else {
+      log(`Could not load the owner key: ${String(err)}`)
+      setStatus("Logged out.")
+    }
+  }
+
+  // <id>Option wraps the controls of each provider: <id>Login button, optional <id>Hint input
+  for (const provider of PROVIDERS) {
+    $(`${provider.id}Option`).style.display = "inline"
+    const button = $(`${provider.id}Login`)
+    if (!button.textContent) button.textContent = `Login with ${provider.label}`
+    const hint = document.getElementById(`${provider.id}Hint`) as HTMLInputElement | null
+
+    button.onclick = () =>
+      void provider.start(hint?.value).catch((err) => {
+        console.error(err)
+        log(`Could not start the ${provider.label} login: ${String(err)}`)
+        setStatus(err instanceof Error ? err.message : String(err))
+      })
+  }
   $("logoutBtn").onclick = () => logout()
 
-  $("sendOp").onclick = () =>
-    void sendUserOp().catch((err) => {
-      console.error(err)
-      log(`Error sending UserOperation: ${String(err)}`)
-      setStatus("Error")
-    })
+  const onSendError = (what: string) => (err: unknown) => {
+    console.error(err)
+    if (err instanceof BundlerError) {
+      // Decoded ERC-4337 / AAxx reason instead of the raw bundler JSON.
+      log(
+        `Bundler rejected ${err.method}${err.aaCode ? ` (${err.aaCode})` : ""}: ${err.explanation}`
+      )
+      log(`Raw bundler message: ${err.rawMessage}`)
+      setStatus(`Rejected: ${err.explanation}`)
+      return
+    }
+    log(`Error ${what}: ${String(err)}`)
+    setStatus("Error")
+  }
+  $("sendOp").onclick = () => void sendUserOp().catch(onSendError("sending UserOperation"))
+  $("createSession").onclick = () =>
+    void createSession().catch(onSendError("creating the session key"))
+  $("revokeSession").onclick = () =>
+    void revokeSession().catch(onSendError("revoking the session key"))
+  $("saveGuardians").onclick = () =>
+    void saveGuardians().catch(onSendError("setting the guardians"))
+  $("cancelRecovery").onclick = () =>
+    void cancelRecovery().catch(onSendError("cancelling the recovery"))
 
   $("refreshCount").onclick = () =>
     void refreshCount().catch((err) => {
@@ -0,0 +1,204 @@
+import {
+  AUTH_SERVICE_URL,
+  authServiceLogin,
+  base64Url,
+  type IdentityProvider,
+  type Login,
+  REDIRECT_URI,
+  randomToken
+} from "./identity"
+import { IdTokenError, jwksKeySet, type KeySetSource, verifyIdToken } from "./idToken"
+import { log } from "./ui"
+
+// sessionStorage: per tab, survives the redirect to the IdP and back, gone with the tab
+const PROVIDER_KEY = "aa-oauth-provider"
+const STATE_KEY = "aa-oauth-state"
+const NONCE_KEY = "aa-oauth-nonce"
+const VERIFIER_KEY = "aa-oauth-verifier"
+
+export interface OidcProviderOptions {
+  id: string
+  label: string
+  clientId: string
+  /** Issuer URL: `<issuer>/.well-known/openid-configuration` gives the missing endpoints. */
+  issuer: string
+  /** Accepted `iss` values (default: `[issuer]`). */
+  issuers?: string[]
+  authorizationEndpoint?: string
+  /** id_token keys of the implicit flow (default: the discovered `jwks_uri`). */
+  keys?: KeySetSource
+  /** Extra authorization request parameters (e.g. `prompt`). */
+  params?: Record<string, string>
+  /** Namespaced user id of a verified `sub`. */
+  userId(claims: { iss: string; sub: string }): string
+}
+
+interface OidcMetadata {
+  authorization_endpoint: string
+  jwks_uri: string
+}
+
+// PKCE S256: base64url(sha256(verifier))
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier))
+  return base64Url(new Uint8Array(digest))
+}
+
+/**
+ * OpenID Connect login. With VITE_AUTH_SERVICE_URL: authorization-code flow with PKCE
+ * (response_type=code, the code is exchanged by the auth service at
+ * `/auth/<id>/exchange`); without it: implicit flow (response_type=id_token, verified in the
+ * browser against the IdP's JWKS).
+ *
+ * `state` (CSRF: the response belongs to a login started in this tab), `nonce` (replay: the
+ * IdP copies it into the id_token) and the PKCE verifier are kept in sessionStorage until
+ * the redirect, with the id of the provider the login was started with.
+ */
+export function createOidcProvider(options: OidcProviderOptions): IdentityProvider {
+  const issuers = options.issuers ?? [options.issuer]
+
+  // OpenID discovery, fetched once when an endpoint is not configured
+  let metadata: Promise<OidcMetadata> | undefined
+  const discover = () => {
+    metadata ??= (async () => {
+      const url = `${options.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+      const res = await fetch(url)
+      if (!res.ok)
+        throw new Error(`OpenID discovery failed for ${options.issuer} (HTTP ${res.status})`)
+      return (await res.json()) as OidcMetadata
+    })().catch((err) => {
+      // Retried on the next login
+      metadata = undefined
+      throw err
+    })
+    return metadata
+  }
+  const keys = options.keys ?? jwksKeySet(async () => (await discover()).jwks_uri)
+
+  async function start(hint?: string) {
+    const state = randomToken()
+    const nonce = randomToken()
+    sessionStorage.setItem(PROVIDER_KEY, options.id)
+    sessionStorage.setItem(STATE_KEY, state)
+    sessionStorage.setItem(NONCE_KEY, nonce)
+
+    const params = new URLSearchParams({
+      client_id: options.clientId,
+      redirect_uri: REDIRECT_URI,
+      scope: "openid email profile",
+      state,
+      nonce,
+      ...options.params
+    })
+    if (hint) params.set("login_hint", hint)
+
+    if (AUTH_SERVICE_URL) {
+      const verifier = randomToken()
+      sessionStorage.setItem(VERIFIER_KEY, verifier)
+      params.set("response_type", "code")
+      params.set("code_challenge", await codeChallenge(verifier))
+      params.set("code_challenge_method", "S256")
+    } else {
+      params.set("response_type", "id_token")
+    }
+
+    const endpoint = options.authorizationEndpoint ?? (await discover()).authorization_endpoint
+    log(
+      `Redirecting to ${options.label} (${params.get("response_type")} flow)... redirect_uri=${REDIRECT_URI}`
+    )
+    window.location.href = `${endpoint}?${params}`
+  }
+
+  /**
+   * Checks `state`, then gets the user's `sub` (unique, stable account id at the issuer)
+   * and the account uuidString:
+   *   - code flow (`?code=`): from the auth service
+   *   - implicit flow (`#id_token=`): from the id_token, verified here (RS256 signature,
+   *     `iss`, `aud` = our client id, `exp`, `nonce`)
+   */
+  async function complete(variant: string): Promise<Login | null> {
+    // The code flow answers in the query string, the implicit flow in the hash fragment
+    const query = window.location.search.slice(1)
+    const params = new URLSearchParams(query || window.location.hash.slice(1))
+    const code = params.get("code")
+    const idToken = params.get("id_token")
+    const error = params.get("error")
+
+    if (!code && !idToken && !error) return null
+    // Response to a login started with another provider
+    const pending = sessionStorage.getItem(PROVIDER_KEY)
+    if (pending && pending !== options.id) return null
+
+    if (`${window.location.origin}${window.location.pathname}` !== REDIRECT_URI) {
+      log(`Current page does not match REDIRECT_URI (${REDIRECT_URI}).`)
+    }
+
+    // One attempt per login: clean the URL and forget state / nonce / verifier
+    // whatever the outcome
+    window.history.replaceState(null, document.title, window.location.pathname)
+    const expectedState = sessionStorage.getItem(STATE_KEY)
+    const nonce = sessionStorage.getItem(NONCE_KEY)
+    const verifier = sessionStorage.getItem(VERIFIER_KEY)
+    for (const key of [PROVIDER_KEY, STATE_KEY, NONCE_KEY, VERIFIER_KEY]) {
+      sessionStorage.removeItem(key)
+    }
+
+    if (error) throw new IdTokenError("provider", `${options.label} returned an error: ${error}`)
+    if (!expectedState || !nonce || params.get("state") !== expectedState) {
+      throw new IdTokenError(
+        "state",
+        "The login response does not match a login started in this tab (state)"
+      )
+    }
+
+    if (code) {
+      if (!AUTH_SERVICE_URL || !verifier) {
+        throw new IdTokenError("state", "Authorization code received without a PKCE verifier")
+      }
+      log(
+        `Received authorization code from ${options.label}. Exchanging it through the auth service...`
+      )
+      return authServiceLogin(options.id, `/auth/${options.id}/exchange`, {
+        code,
+        codeVerifier: verifier,
+        redirectUri: REDIRECT_URI,
+        nonce,
+        variant
+      })
+    }
+
+    log(
+      `Received id_token from ${options.label}. Verifying signature, issuer, audience, expiry and nonce...`
+    )
+    const claims = await verifyIdToken(idToken as string, {
+      keys,
+      clientId: options.clientId,
+      nonce,
+      issuers
+    })
+    log(`id_token verified (iss ${claims.iss}).`)
+
+    const userId = options.userId(claims)
+    return { provider: options.id, userId, uuidString: `${userId}:${variant}` }
+  }
+
+  return { id: options.id, label: options.label, start, complete }
+}
+
+/**
+ * Any OpenID Connect IdP (e.g. the corporate one), endpoints and keys from discovery.
+ * Users are namespaced by issuer: `oidc:<issuer>:<sub>`.
+ */
+export function genericOidcProvider(options: {
+  issuer: string
+  clientId: string
+  label: string
+}): IdentityProvider {
+  return createOidcProvider({
+    id: "oidc",
+    label: options.label,
+    clientId: options.clientId,
+    issuer: options.issuer,
+    userId: ({ iss, sub }) => `oidc:${iss}:${sub}`
+  })
+}
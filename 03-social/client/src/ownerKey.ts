@@ -0,0 +1,186 @@
+import { bytesToHex, hexToBytes, keccak256, stringToBytes } from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+
+/**
+ * Where the smart account owner key comes from.
+ * `sub` is the login user id (Google sub, `oidc:` / `email:` id, see identity.ts): it
+ * identifies the user, it must never be the key.
+ */
+export interface OwnerKeyProvider {
+  readonly kind: "encrypted" | "demo"
+  /** Returns the owner key of the user, creating it on first use. */
+  getOwnerKey(sub: string): Promise<Hex>
+}
+
+/**
+ * Asks the user for the passphrase protecting the owner key.
+ * "create": first login on this browser (new key), "unlock": existing key.
+ * Resolves to null when the user cancels.
+ */
+export type PassphrasePrompt = (reason: "create" | "unlock") => Promise<string | null>
+
+// ---------------------- DEMO (SUB-DERIVED) ----------------------
+
+/**
+ * WARNING: Demo-only private key derivation: owner key = keccak256(sub).
+ *
+ * This is acceptable ONLY for demos and workshops because:
+ *   - The `sub` value is a PUBLIC identifier of the user.
+ *   - Anyone who knows the `sub` can reproduce the same private key.
+ *   - Therefore this MUST NOT be used in production.
+ *
+ * Only used with VITE_OWNER_KEY_PROVIDER=demo.
+ */
+export function demoSubOwnerKeyProvider(): OwnerKeyProvider {
+  return {
+    kind: "demo",
+    async getOwnerKey(sub) {
+      return keccak256(stringToBytes(sub))
+    }
+  }
+}
+
+// ---------------------- ENCRYPTED (INDEXEDDB) ----------------------
+
+const DB_NAME = "aa-demo-owner-keys"
+const STORE = "keys"
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000
+const MIN_PASSPHRASE_LENGTH = 8
+
+// What IndexedDB keeps per user: never the plaintext key
+interface EncryptedOwnerKey {
+  sub: string
+  address: Address
+  salt: Uint8Array
+  iv: Uint8Array
+  ciphertext: ArrayBuffer
+  iterations: number
+  createdAt: number
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "sub" })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE))
+      request.onsuccess = () => resolve(request.result as T)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// AES-256-GCM key derived from the passphrase (PBKDF2-SHA256), never extractable
+async function deriveAesKey(passphrase: string, salt: Uint8Array, iterations: number) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  )
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: salt as BufferSource, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  )
+}
+
+/**
+ * Random owner key generated in the browser, stored in IndexedDB encrypted with
+ * AES-GCM under a key derived from a user passphrase (PBKDF2). The ciphertext is bound
+ * to the user `sub` (AES-GCM additional data), and the plaintext key only lives in memory.
+ *
+ * The key exists on this browser only: clearing site data or forgetting the passphrase
+ * loses it, and the account can then only be recovered by its guardians, if it has any.
+ */
+export function encryptedOwnerKeyProvider(requestPassphrase: PassphrasePrompt): OwnerKeyProvider {
+  const ask = async (reason: "create" | "unlock") => {
+    const passphrase = await requestPassphrase(reason)
+    if (passphrase === null) throw new Error("Passphrase prompt cancelled")
+    return passphrase
+  }
+
+  const create = async (sub: string): Promise<Hex> => {
+    const passphrase = await ask("create")
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must have at least ${MIN_PASSPHRASE_LENGTH} characters`)
+    }
+
+    const pk = generatePrivateKey()
+    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const aesKey = await deriveAesKey(passphrase, salt, PBKDF2_ITERATIONS)
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: stringToBytes(sub) as BufferSource },
+      aesKey,
+      hexToBytes(pk) as BufferSource
+    )
+
+    const record: EncryptedOwnerKey = {
+      sub,
+      address: privateKeyToAccount(pk).address,
+      salt,
+      iv,
+      ciphertext,
+      iterations: PBKDF2_ITERATIONS,
+      createdAt: Date.now()
+    }
+    await withStore("readwrite", (store) => store.add(record))
+    return pk
+  }
+
+  const unlock = async (record: EncryptedOwnerKey): Promise<Hex> => {
+    const passphrase = await ask("unlock")
+    const aesKey = await deriveAesKey(passphrase, record.salt, record.iterations)
+
+    let plaintext: ArrayBuffer
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: record.iv as BufferSource,
+          additionalData: stringToBytes(record.sub) as BufferSource
+        },
+        aesKey,
+        record.ciphertext
+      )
+    } catch {
+      // AES-GCM authentication failed: wrong passphrase (or tampered record)
+      throw new Error("Wrong passphrase")
+    }
+
+    const pk = bytesToHex(new Uint8Array(plaintext))
+    if (privateKeyToAccount(pk).address !== record.address) {
+      throw new Error("Decrypted owner key does not match the stored address")
+    }
+    return pk
+  }
+
+  return {
+    kind: "encrypted",
+    async getOwnerKey(sub) {
+      const record = await withStore<EncryptedOwnerKey | undefined>("readonly", (store) =>
+        store.get(sub)
+      )
+      return record ? unlock(record) : create(sub)
+    }
+  }
+}
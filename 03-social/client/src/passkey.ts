@@ -0,0 +1,104 @@
+import {
+  type Address,
+  type P256PublicKey,
+  parseP256PublicKey,
+  type UserOpSigner,
+  type WebAuthnAssertion,
+  webAuthnSigner
+} from "aa-demo-sdk"
+import { bytesToHex, hexToBytes, sha256, stringToBytes } from "viem"
+
+// COSE algorithm id of ES256 (ECDSA P-256 + SHA-256), the only one PasskeyOwner verifies
+const ES256 = -7
+const STORAGE_PREFIX = "aa-passkey:"
+
+/**
+ * A WebAuthn credential registered as the smart account owner.
+ * Both fields are public: the private key never leaves the authenticator.
+ */
+export interface Passkey {
+  credentialId: Hex
+  publicKey: P256PublicKey
+}
+
+/**
+ * Returns the passkey of the user on this browser, creating one (`navigator.credentials.create`)
+ * on first login. The public key is only readable at creation, so it is kept in localStorage:
+ * clearing site data means a new passkey, i.e. a new owner the guardians must recover to.
+ */
+export async function getOrCreatePasskey(
+  sub: string
+): Promise<{ passkey: Passkey; created: boolean }> {
+  const stored = localStorage.getItem(STORAGE_PREFIX + sub)
+  if (stored) return { passkey: JSON.parse(stored) as Passkey, created: false }
+
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      // Nothing verifies the attestation: the public key itself is what goes on-chain
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rp: { name: "AA Demo on Scroll" },
+      // Opaque user handle: a hash of the sub, never the sub itself
+      user: {
+        id: hexToBytes(sha256(stringToBytes(sub))) as BufferSource,
+        name: `aa-demo-${sub.slice(0, 6)}`,
+        displayName: "AA demo smart account"
+      },
+      pubKeyCredParams: [{ type: "public-key", alg: ES256 }],
+      authenticatorSelection: { residentKey: "preferred", userVerification: "required" },
+      attestation: "none"
+    }
+  })) as PublicKeyCredential | null
+  if (!credential) throw new Error("Passkey creation cancelled")
+
+  const response = credential.response as AuthenticatorAttestationResponse
+  const spki = response.getPublicKey()
+  if (response.getPublicKeyAlgorithm() !== ES256 || !spki) {
+    throw new Error("The authenticator did not create a P-256 (ES256) passkey")
+  }
+
+  const passkey: Passkey = {
+    credentialId: bytesToHex(new Uint8Array(credential.rawId)),
+    publicKey: parseP256PublicKey(bytesToHex(new Uint8Array(spki)))
+  }
+  localStorage.setItem(STORAGE_PREFIX + sub, JSON.stringify(passkey))
+  return { passkey, created: true }
+}
+
+/**
+ * Signs `challenge` with the passkey (`navigator.credentials.get`, user verification required)
+ * and returns the assertion fields, undecoded: authenticatorData and the DER signature as hex,
+ * clientDataJSON as the exact UTF-8 string the authenticator signed.
+ */
+export async function getPasskeyAssertion(
+  passkey: Passkey,
+  challenge: Hex
+): Promise<WebAuthnAssertion> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      challenge: hexToBytes(challenge) as BufferSource,
+      allowCredentials: [
+        { type: "public-key", id: hexToBytes(passkey.credentialId) as BufferSource }
+      ],
+      userVerification: "required"
+    }
+  })) as PublicKeyCredential | null
+  if (!credential) throw new Error("Passkey signature cancelled")
+
+  const response = credential.response as AuthenticatorAssertionResponse
+  return {
+    authenticatorData: bytesToHex(new Uint8Array(response.authenticatorData)),
+    clientDataJSON: new TextDecoder().decode(response.clientDataJSON),
+    signature: bytesToHex(new Uint8Array(response.signature))
+  }
+}
+
+/**
+ * UserOperation signer of an account owned by `ownerAddress` (the PasskeyOwner of `passkey`):
+ * every signature prompts the authenticator.
+ */
+export function passkeySigner(passkey: Passkey, ownerAddress: Address): UserOpSigner {
+  return webAuthnSigner({
+    address: ownerAddress,
+    getAssertion: (challenge) => getPasskeyAssertion(passkey, challenge)
+  })
+}
@@ -0,0 +1,102 @@
+import {
+  type Address,
+  type Hex,
+  hashSessionGrant,
+  type SessionGrant,
+  type SessionPermission,
+  sessionKeySigner,
+  signSessionGrant,
+  type UserOpSigner
+} from "aa-demo-sdk"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+
+const STORAGE_PREFIX = "aa-session:"
+
+// A key this close to validUntil is dropped: its ops would expire in the mempool (AA22)
+const EXPIRY_MARGIN_SECONDS = 60
+
+/**
+ * A session key of the smart account: an ephemeral key plus the grant the owner signed for
+ * it once. The key is kept in plaintext in localStorage, unlike the owner key: it can only
+ * make the calls of its grant, until validUntil, and the owner (or the key) can revoke it.
+ */
+export interface SessionKey {
+  privateKey: Hex
+  address: Address
+  grant: SessionGrant
+  grantHash: Hex
+  ownerSignature: Hex
+  /** Owner that signed the grant (a grant dies with an owner change). */
+  owner: Address
+}
+
+// JSON has no bigint
+type StoredSessionKey = Omit<SessionKey, "grant"> & {
+  grant: Omit<SessionGrant, "spendLimit"> & { spendLimit: string }
+}
+
+/**
+ * Generates a session key for `account` and has the owner sign its grant (the only owner
+ * signature of the session: passphrase / passkey prompt here, not at each UserOperation).
+ */
+export async function createSessionKey(args: {
+  account: Address
+  chainId: number
+  owner: UserOpSigner
+  permissions: SessionPermission[]
+  ttlSeconds: number
+  spendLimit: bigint
+}): Promise<SessionKey> {
+  const privateKey = generatePrivateKey()
+  const address = privateKeyToAccount(privateKey).address
+  const grant: SessionGrant = {
+    sessionKey: address,
+    validAfter: 0,
+    validUntil: Math.floor(Date.now() / 1000) + args.ttlSeconds,
+    spendLimit: args.spendLimit,
+    permissions: args.permissions
+  }
+  const domain = { account: args.account, chainId: args.chainId }
+  const ownerSignature = await signSessionGrant(args.owner, grant, domain)
+
+  const session: SessionKey = {
+    privateKey,
+    address,
+    grant,
+    grantHash: hashSessionGrant(grant, domain),
+    ownerSignature,
+    owner: args.owner.address
+  }
+  const stored: StoredSessionKey = {
+    ...session,
+    grant: { ...grant, spendLimit: grant.spendLimit.toString() }
+  }
+  localStorage.setItem(STORAGE_PREFIX + args.account, JSON.stringify(stored))
+  return session
+}
+
+/** The usable session key of `account` on this browser; expired ones are forgotten. */
+export function loadSessionKey(account: Address): SessionKey | null {
+  const stored = localStorage.getItem(STORAGE_PREFIX + account)
+  if (!stored) return null
+
+  const parsed = JSON.parse(stored) as StoredSessionKey
+  if (parsed.grant.validUntil - EXPIRY_MARGIN_SECONDS <= Date.now() / 1000) {
+    forgetSessionKey(account)
+    return null
+  }
+  return { ...parsed, grant: { ...parsed.grant, spendLimit: BigInt(parsed.grant.spendLimit) } }
+}
+
+export function forgetSessionKey(account: Address) {
+  localStorage.removeItem(STORAGE_PREFIX + account)
+}
+
+/** Signs UserOperations with the session key, its signature wrapped with the grant. */
+export function sessionSigner(session: SessionKey): UserOpSigner {
+  return sessionKeySigner({
+    sessionKey: privateKeyToAccount(session.privateKey),
+    grant: session.grant,
+    ownerSignature: session.ownerSignature
+  })
+}
@@ -12,30 +12,114 @@ export function setCount(v: string) {
   $("count").textContent = v
 }
 
+export function setSessionInfo(msg: string) {
+  $("sessionInfo").textContent = msg
+}
+
+/** Guardian configuration, and the pending recovery the owner may cancel. */
+export function setRecoveryInfo(
+  guardians: string,
+  pending: { newOwner: string; executeAfter: string } | null
+) {
+  $("guardianInfo").textContent = guardians
+  $("pendingRecovery").style.display = pending ? "block" : "none"
+  $("pendingOwner").textContent = pending?.newOwner ?? ""
+  $("pendingAfter").textContent = pending?.executeAfter ?? ""
+}
+
 export function showLoggedOutUI() {
-  $("googleLogin").style.display = "inline-block"
+  $("loginOptions").style.display = "inline"
   $("logoutBtn").style.display = "none"
   $("userInfo").style.display = "none"
 
   ;($("sendOp") as HTMLButtonElement).disabled = true
   ;($("refreshCount") as HTMLButtonElement).disabled = true
+  ;($("createSession") as HTMLButtonElement).disabled = true
+  ;($("revokeSession") as HTMLButtonElement).disabled = true
+  setSessionInfo("-")
+  ;($("saveGuardians") as HTMLButtonElement).disabled = true
+  $("recoveryCard").style.display = "none"
 
   $("eoa").textContent = ""
   $("smartAccount").textContent = ""
+
+  $("userOpsCard").style.display = "none"
+  $("userOpRows").replaceChildren()
 }
 
 export function showLoggedInUI(owner: string, smartAccount: string) {
-  $("googleLogin").style.display = "none"
+  $("loginOptions").style.display = "none"
   $("logoutBtn").style.display = "inline-block"
   $("userInfo").style.display = "block"
 
   ;($("sendOp") as HTMLButtonElement).disabled = false
   ;($("refreshCount") as HTMLButtonElement).disabled = false
+  ;($("createSession") as HTMLButtonElement).disabled = false
+  ;($("revokeSession") as HTMLButtonElement).disabled = false
+  ;($("saveGuardians") as HTMLButtonElement).disabled = false
+  $("recoveryCard").style.display = "block"
 
   $("eoa").textContent = owner
   $("smartAccount").textContent = smartAccount
 }
 
+/** Lifecycle of a sent UserOperation, as shown in the UserOperations table. */
+export interface UserOpRowUpdate {
+  state: "pending" | "included" | "success" | "reverted" | "dropped"
+  txHash?: string
+  txUrl?: string
+  gasCost?: string
+  paidBy?: string
+}
+
+/**
+ * Adds a row (newest first) for a sent UserOperation; returns its updater.
+ */
+export function addUserOpRow(userOpHash: string): (update: UserOpRowUpdate) => void {
+  $("userOpsCard").style.display = "block"
+  const row = document.createElement("tr")
+  const cells = Array.from({ length: 5 }, () => row.appendChild(document.createElement("td")))
+  cells[0].textContent = `${userOpHash.slice(0, 10)}...${userOpHash.slice(-8)}`
+  cells[0].title = userOpHash
+  $("userOpRows").prepend(row)
+
+  const update = ({ state, txHash, txUrl, gasCost, paidBy }: UserOpRowUpdate) => {
+    cells[1].textContent = state
+    if (txHash) {
+      const link = document.createElement("a")
+      link.textContent = `${txHash.slice(0, 10)}...`
+      link.title = txHash
+      if (txUrl) {
+        link.href = txUrl
+        link.target = "_blank"
+      }
+      cells[2].replaceChildren(link)
+    }
+    if (gasCost) cells[3].textContent = gasCost
+    if (paidBy) cells[4].textContent = paidBy
+  }
+  update({ state: "pending" })
+  return update
+}
+
+/**
+ * Passphrase protecting the owner key (see ownerKey.ts). A new key asks twice.
+ * Resolves to null when the user cancels or the two entries differ.
+ */
+export async function promptPassphrase(reason: "create" | "unlock"): Promise<string | null> {
+  if (reason === "unlock") return window.prompt("Passphrase to unlock your owner key:")
+
+  const passphrase = window.prompt(
+    "Choose a passphrase (8+ characters) to encrypt your new owner key on this browser:"
+  )
+  if (passphrase === null) return null
+  if (window.prompt("Repeat the passphrase:") !== passphrase) {
+    window.alert("Passphrases do not match.")
+    return null
+  }
+  return passphrase
+}
+
 export function log(msg: string) {
   const container = $("logContent")
   const entry = document.createElement("div")
@@ -1,7 +1,11 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 
 export default defineConfig({
   server: {
-    port: 5173
+    port: 5173,
+    fs: {
+      // ../contracts/out holds the DemoAccount artifact used for offline CREATE2 addresses
+      allow: [searchForWorkspaceRoot(process.cwd()), "../contracts/out"]
+    }
   }
 });
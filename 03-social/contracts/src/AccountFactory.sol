@@ -2,6 +2,7 @@
 pragma solidity ^0.8.24;
 
 import "./DemoAccount.sol";
+import "./PasskeyOwner.sol";
 
 /**
  * @title AccountFactory
@@ -14,8 +15,11 @@ import "./DemoAccount.sol";
  *     - this factory address
  *     - (uuidString, backendSalt) → combined into a salt
  *     - DemoAccount bytecode + constructor args (entryPoint)
- * - Allows an admin to later change the owner of a deployed smart account
- *   for recovery purposes (centralized recovery).
+ * - Keeps no admin: a lost owner is replaced through the guardians the owner set on the
+ *   account (DemoAccount.setGuardians / startRecovery).
+ * - Can also deploy accounts owned by a passkey (`createPasskeyAccount`, plain transactions
+ *   only): the owner is then a PasskeyOwner contract (ERC-1271) holding the P-256 public key
+ *   of a WebAuthn credential.
  *
  * ## Deterministic address & AA
  * - The address returned by `getAddress()` is exactly the same address
@@ -30,39 +34,16 @@ import "./DemoAccount.sol";
  *   anyone could call `createAccount()` first and choose a malicious `initialOwner`.
  * - In this demo we assume:
  *     - `backendSalt` is controlled and kept secret by the backend.
- *     - The backend / admin are trusted.
+ *     - The backend is trusted.
  * - In production you would typically:
  *     - Tie ownership to a verifiable identity (e.g. OAuth proof, signatures),
  *       not blindly trust the `initialOwner` param.
  *     - Carefully design who can recover / rotate owners and how.
  */
 contract AccountFactory {
-    /// @notice Admin allowed to perform owner recovery on smart accounts.
-    address public admin;
-
     /// @notice Emitted whenever a new DemoAccount is deployed via CREATE2.
     event AccountDeployed(address indexed account, string uuidString);
 
-    /// @notice Emitted whenever the owner of a smart account is changed by admin.
-    event SmartAccountOwnerChanged(address indexed account, address newOwner);
-
-    /**
-     * @dev Sets the factory admin to the deployer.
-     * In this demo, admin is a single address; in production this could be a multisig
-     * or a governance-controlled contract.
-     */
-    constructor() {
-        admin = msg.sender;
-    }
-
-    /**
-     * @dev Restricts certain operations to the factory admin.
-     */
-    modifier onlyAdmin() {
-        require(msg.sender == admin, "Only admin");
-        _;
-    }
-
     /**
      * @notice Deploy a DemoAccount with a deterministic address, or return it if already deployed.
      *
@@ -75,7 +56,7 @@ contract AccountFactory {
      *     1) Compute salt from (uuidString, backendSalt).
      *     2) Compute predicted address via the same formula as CREATE2 (`getAddress`).
      *     3) If code already exists at `predicted`, return it (idempotent deployment).
-     *     4) Otherwise, deploy via CREATE2 and call `init(initialOwner, admin)`.
+     *     4) Otherwise, deploy via CREATE2 and call `init(initialOwner)`.
      *
      * - This pattern is useful for AA + social login:
      *     - The client can call `getAddress()` off-chain to know the smart account address.
@@ -97,7 +78,7 @@ contract AccountFactory {
      *     - Or require some backend-signed authorization to bind the account to a user.
      */
     function createAccount(string memory uuidString, bytes32 backendSalt, address entryPoint, address initialOwner)
-        external
+        public
         returns (address payable account)
     {
         bytes32 salt = keccak256(abi.encodePacked(uuidString, backendSalt));
@@ -120,12 +101,73 @@ contract AccountFactory {
 
         require(account != address(0), "CREATE2 failed");
 
-        // Initialize DemoAccount with initial owner and factory admin (for recovery).
-        DemoAccount(account).init(initialOwner, admin);
+        // Initialize DemoAccount with its initial owner (guardians are set later by the owner).
+        DemoAccount(account).init(initialOwner);
 
         emit AccountDeployed(account, uuidString);
     }
 
+    /**
+     * @notice Deploy a DemoAccount owned by a passkey, or return it if already deployed.
+     *
+     * @dev
+     * - Deploys (once per key) the PasskeyOwner holding (qx, qy) via CREATE2, then calls
+     *   `createAccount` with it as `initialOwner`.
+     * - The account address does not depend on the owner: it is still `getAddress(...)`,
+     *   so the uuidString should differ from the one of an ECDSA-owned account of the same user.
+     * - NOT for `initCode`: it deploys two contracts, and ERC-7562 allows a single CREATE2
+     *   during validation (the sender's). Bundlers enforcing the rules reject such an op.
+     *   Call it in a plain transaction, or deploy the account from its first UserOperation as
+     *   a bootstrap: `createAccount` with a throwaway ECDSA owner in `initCode`, and callData
+     *   calling `deployPasskeyOwner(qx, qy)` then `setOwner(getPasskeyOwnerAddress(qx, qy))`
+     *   (executed after validation, where CREATE2 is allowed).
+     *
+     * @param qx    x coordinate of the passkey P-256 public key.
+     * @param qy    y coordinate of the passkey P-256 public key.
+     *
+     * @return account        The deployed (or existing) DemoAccount address.
+     */
+    function createPasskeyAccount(
+        string memory uuidString,
+        bytes32 backendSalt,
+        address entryPoint,
+        bytes32 qx,
+        bytes32 qy
+    ) external returns (address payable account) {
+        return createAccount(uuidString, backendSalt, entryPoint, deployPasskeyOwner(qx, qy));
+    }
+
+    /**
+     * @notice Deploy the PasskeyOwner of a P-256 public key, or return it if already deployed.
+     *
+     * @dev Permissionless: the address only depends on (qx, qy). Called by the bootstrap op of
+     * a passkey account (see `createPasskeyAccount`), and on its own when guardians recover an
+     * account to a new passkey, which must exist before it signs.
+     */
+    function deployPasskeyOwner(bytes32 qx, bytes32 qy) public returns (address passkeyOwner) {
+        passkeyOwner = getPasskeyOwnerAddress(qx, qy);
+
+        if (passkeyOwner.code.length == 0) {
+            new PasskeyOwner{salt: keccak256(abi.encode(qx, qy))}(qx, qy);
+        }
+    }
+
+    /**
+     * @notice Compute the deterministic address of the PasskeyOwner for a P-256 public key.
+     *
+     * @dev CREATE2 with salt = keccak256(abi.encode(qx, qy)) and
+     * bytecode = PasskeyOwner.creationCode ++ abi.encode(qx, qy).
+     */
+    function getPasskeyOwnerAddress(bytes32 qx, bytes32 qy) public view returns (address) {
+        bytes memory bytecode = abi.encodePacked(type(PasskeyOwner).creationCode, abi.encode(qx, qy));
+
+        bytes32 hash = keccak256(
+            abi.encodePacked(bytes1(0xff), address(this), keccak256(abi.encode(qx, qy)), keccak256(bytecode))
+        );
+
+        return address(uint160(uint256(hash)));
+    }
+
     /**
      * @notice Compute the deterministic address of a DemoAccount for given parameters.
      *
@@ -2,53 +2,139 @@
 pragma solidity ^0.8.24;
 
 import {IERC1271} from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {_packValidationData} from "lib/account-abstraction/contracts/core/Helpers.sol";
 import "./AASimpleTypes.sol";
 
 /**
  * @dev Minimal ERC-4337 compatible smart account for demo purposes.
  *      Uses SimpleUserOperation and ISimpleEntryPoint to avoid clashes
  *      with the official AA library types.
+ *
+ *      Recovery: the owner picks M-of-N guardians (EOAs). If the owner key is lost, the
+ *      guardians sign EIP-712 `Recovery` approvals for a new owner; once `threshold` of them
+ *      started the recovery, the new owner can take over after `recoveryDelay`, unless the
+ *      current owner cancels it meanwhile.
  */
-contract DemoAccount is IERC1271 {
+contract DemoAccount is IERC1271, EIP712 {
+    /// @dev validationData returned on signature mismatch (ERC-4337).
+    uint256 internal constant SIG_VALIDATION_FAILED = 1;
+
+    /// @dev First bytes of a session-key `userOp.signature`. An owner signature starting with
+    ///      them (probability 2^-32) is read as a session signature and rejected: re-sign.
+    bytes4 public constant SESSION_SIGNATURE_MAGIC = bytes4(keccak256("DemoAccount.session"));
+
+    bytes32 public constant SESSION_PERMISSION_TYPEHASH =
+        keccak256("SessionPermission(address target,bytes4 selector)");
+    bytes32 public constant SESSION_GRANT_TYPEHASH = keccak256(
+        "SessionGrant(address sessionKey,uint48 validAfter,uint48 validUntil,uint256 spendLimit,SessionPermission[] permissions)SessionPermission(address target,bytes4 selector)"
+    );
+
+    /// @dev A call a session key may make. selector 0x00000000 = plain ETH transfer (no data).
+    struct SessionPermission {
+        address target;
+        bytes4 selector;
+    }
+
+    /**
+     * @dev Owner-signed (EIP-712, then EIP-191 like the UserOperations) authorization of an
+     *      ephemeral key: valid in [validAfter, validUntil] (validUntil 0 is refused, it would
+     *      mean "no expiry"), only for `permissions`, and for at most `spendLimit` wei in total:
+     *      call value, plus the maximum gas cost of the ops it does not get sponsored.
+     */
+    struct SessionGrant {
+        address sessionKey;
+        uint48 validAfter;
+        uint48 validUntil;
+        uint256 spendLimit;
+        SessionPermission[] permissions;
+    }
+
+    /// @dev `approvedBy`: owner whose grant signature was checked (a new owner voids it).
+    struct SessionState {
+        address approvedBy;
+        bool revoked;
+        uint256 spent;
+    }
+
+    /// @dev Guardian approval (EIP-712) of a new owner; `nonce` = recoveryNonce when signed.
+    bytes32 public constant RECOVERY_TYPEHASH = keccak256("Recovery(address newOwner,uint256 nonce)");
+
+    uint256 public constant MAX_GUARDIANS = 10;
+    /// @dev Lower bound of the timelock: the owner must have time to notice and cancel.
+    uint48 public constant MIN_RECOVERY_DELAY = 1 hours;
+
+    struct PendingRecovery {
+        address newOwner;
+        uint48 executeAfter;
+    }
+
     address public owner;
-    address public factoryAdmin; // <── NEW: allows recovery
     ISimpleEntryPoint public immutable entryPoint;
-    uint256 public nonce;
     bool public initialized;
 
+    /// @dev Session grant hash (hashSessionGrant) => usage.
+    mapping(bytes32 => SessionState) public sessions;
+
+    address[] internal guardians;
+    mapping(address => bool) public isGuardian;
+    /// @dev Approvals needed to start a recovery (0: no guardians, no recovery).
+    uint256 public guardianThreshold;
+    uint48 public recoveryDelay;
+    /// @dev Bumped by each started recovery and guardian change: approvals are single-use.
+    uint256 public recoveryNonce;
+    PendingRecovery public pendingRecovery;
+
+    /// @dev Emitted once per successful call, in call order (lets clients report per-call outcomes).
     event Executed(address target, uint256 value, bytes data);
 
+    /// @dev Reverts the whole batch: `index` is the failing call, `reason` its revert data.
+    error CallFailed(uint256 index, bytes reason);
+
+    /// @dev Emitted when a session grant is first used (its owner signature checked).
+    event SessionApproved(bytes32 indexed grantHash, address indexed sessionKey);
+    event SessionRevoked(bytes32 indexed grantHash);
+
+    /// @dev Session UserOperation calling outside its grant (validation reverts: AA23).
+    error SessionCallNotAllowed(address target, bytes4 selector);
+    error SessionSpendLimitExceeded(uint256 spent, uint256 limit);
+
+    event GuardiansChanged(address[] guardians, uint256 threshold, uint48 delay);
+    event RecoveryStarted(address indexed newOwner, uint48 executeAfter, uint256 nonce);
+    event RecoveryExecuted(address indexed newOwner);
+    event RecoveryCancelled(address indexed newOwner);
+
     /**
      * @notice Constructor ONLY sets the entryPoint.
      * @dev Owner is NOT set here because CREATE2 address must NOT depend on owner.
      */
-    constructor(address _entryPoint) {
+    constructor(address _entryPoint) EIP712("DemoAccount", "1") {
         entryPoint = ISimpleEntryPoint(_entryPoint);
     }
 
     /**
      * @notice Initializes smart account owner once after CREATE2 deployment.
      * @dev Called exclusively by the factory. Prevents reinitialization.
+     *      No guardians yet: the owner adds them with `setGuardians`.
      *
      * @param _owner        Initial owner
-     * @param _factoryAdmin Address allowed to perform recovery
      */
-    function init(address _owner, address _factoryAdmin) external {
+    function init(address _owner) external {
         require(!initialized, "Already initialized");
         initialized = true;
         owner = _owner;
-        factoryAdmin = _factoryAdmin;
     }
 
     /**
-     * @notice Allows owner rotation for recovery.
-     * @dev Can be called by:
-     *      - current owner (normal operation)
-     *      - factoryAdmin (recovery if user loses keys)
+     * @notice Allows owner rotation.
+     * @dev Can be called by the current owner, directly or through an owner UserOperation
+     *      (the account calling itself). A lost owner is replaced through the guardians.
      */
     function setOwner(address newOwner) external {
-        require(msg.sender == owner || msg.sender == factoryAdmin, "Not authorized");
+        require(msg.sender == owner || msg.sender == address(this), "Not authorized");
         owner = newOwner;
     }
 
@@ -61,6 +147,24 @@ contract DemoAccount is IERC1271 {
         emit Executed(target, value, data);
     }
 
+    /**
+     * @notice Runs several calls atomically in one UserOperation.
+     * @dev If any call reverts, every call is rolled back and the op reverts with
+     *      CallFailed(index, reason), which the EntryPoint reports in UserOperationRevertReason.
+     */
+    function executeBatch(address[] calldata targets, uint256[] calldata values, bytes[] calldata datas)
+        external
+    {
+        require(msg.sender == address(entryPoint), "Only EntryPoint");
+        require(targets.length == values.length && targets.length == datas.length, "Length mismatch");
+
+        for (uint256 i = 0; i < targets.length; i++) {
+            (bool ok, bytes memory reason) = targets[i].call{value: values[i]}(datas[i]);
+            if (!ok) revert CallFailed(i, reason);
+            emit Executed(targets[i], values[i], datas[i]);
+        }
+    }
+
     /**
      * @notice Called by EntryPoint during validation.
      * @param userOp      Struct with AA data (sender, callData, gas, etc.).
@@ -69,25 +173,313 @@ contract DemoAccount is IERC1271 {
      *      which applies the standard EIP-191 prefix:
      *      keccak256("\x19Ethereum Signed Message:\n32" ++ userOpHash)
      *      so we must reconstruct that hash here before verifying.
+     * @dev A bad signature returns SIG_VALIDATION_FAILED instead of reverting, so bundlers
+     *      can simulate the op with a dummy signature in eth_estimateUserOperationGas.
+     * @dev The nonce is checked by the EntryPoint NonceManager (key << 64 | sequence), so
+     *      ops on different keys can be in flight at the same time.
+     * @dev Without a paymaster, the account pays `missingAccountFunds` from its balance.
      */
-    function validateUserOp(SimpleUserOperation calldata userOp, bytes32 userOpHash, uint256 /* missingFunds */ )
+    function validateUserOp(SimpleUserOperation calldata userOp, bytes32 userOpHash, uint256 missingAccountFunds)
         external
-        returns (uint256)
+        returns (uint256 validationData)
     {
         require(msg.sender == address(entryPoint), "Only EntryPoint");
 
+        validationData = _validateAuthorization(userOp, userOpHash);
+        _payPrefund(missingAccountFunds);
+    }
+
+    function _validateAuthorization(SimpleUserOperation calldata userOp, bytes32 userOpHash)
+        internal
+        returns (uint256)
+    {
+        // Recovery UserOperations are authorized by their callData (guardian approvals, then
+        // the timelock), not by userOp.signature: anyone may submit them, with the gas fields
+        // of their choice. Paid by the account, such ops could drain it as fees to a
+        // beneficiary of the submitter's choice: a paymaster has to sign the exact op instead.
+        bytes4 fn = userOp.callData.length >= 4 ? bytes4(userOp.callData[:4]) : bytes4(0);
+        if (fn == this.startRecovery.selector || fn == this.executeRecovery.selector) {
+            require(userOp.paymasterAndData.length != 0, "Recovery needs a paymaster");
+            return _validateRecoveryUserOp(userOp.callData, fn);
+        }
+
         // Rebuild the same hash that viem.signMessage() used for (raw userOpHash).
         bytes32 ethSignedHash = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", userOpHash));
 
-        bool valid = SignatureChecker.isValidSignatureNow(owner, ethSignedHash, userOp.signature);
-        require(valid, "Invalid signature");
+        if (userOp.signature.length >= 4 && bytes4(userOp.signature[:4]) == SESSION_SIGNATURE_MAGIC) {
+            return _validateSessionUserOp(userOp, ethSignedHash);
+        }
 
-        require(userOp.nonce == nonce, "Bad nonce");
-        nonce++;
+        bool valid = SignatureChecker.isValidSignatureNow(owner, ethSignedHash, userOp.signature);
 
+        if (!valid) return SIG_VALIDATION_FAILED;
         return 0; // success
     }
 
+    /// @dev Tops up the account's EntryPoint deposit (the EntryPoint `receive` deposits for
+    ///      the sender). Zero when a paymaster pays or the deposit already covers the op.
+    function _payPrefund(uint256 missingAccountFunds) internal {
+        if (missingAccountFunds != 0) {
+            (bool ok,) = payable(msg.sender).call{value: missingAccountFunds}("");
+            (ok); // A failed payment shows up as AA21 (didn't pay prefund)
+        }
+    }
+
+    // ---------------------------------------------------------------------
+    // Session keys
+    // ---------------------------------------------------------------------
+
+    /// @notice EIP-712 hash of a grant (domain: "DemoAccount", "1", chainId, this account).
+    function hashSessionGrant(SessionGrant memory grant) public view returns (bytes32) {
+        bytes32[] memory permissionHashes = new bytes32[](grant.permissions.length);
+        for (uint256 i = 0; i < grant.permissions.length; i++) {
+            SessionPermission memory p = grant.permissions[i];
+            permissionHashes[i] = keccak256(abi.encode(SESSION_PERMISSION_TYPEHASH, p.target, p.selector));
+        }
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    SESSION_GRANT_TYPEHASH,
+                    grant.sessionKey,
+                    grant.validAfter,
+                    grant.validUntil,
+                    grant.spendLimit,
+                    keccak256(abi.encodePacked(permissionHashes))
+                )
+            )
+        );
+    }
+
+    /**
+     * @notice Ends a session grant for good.
+     * @dev Called by the owner, or by the account itself: an owner UserOperation, or the session
+     *      key revoking its own grant (the only call to this account a grant allows).
+     */
+    function revokeSession(bytes32 grantHash) external {
+        require(msg.sender == address(this) || msg.sender == owner, "Not authorized");
+        sessions[grantHash].revoked = true;
+        emit SessionRevoked(grantHash);
+    }
+
+    /**
+     * @dev Session UserOperation: signature = SESSION_SIGNATURE_MAGIC ++
+     *      abi.encode(SessionGrant grant, bytes ownerSignature, bytes sessionSignature).
+     *      - the calls must be in the grant (reverts otherwise, the op can never be valid)
+     *      - their value counts against spendLimit, and so does the gas of a self-paid op:
+     *        the key picks the gas fields and could otherwise pay itself fees as beneficiary
+     *      - ownerSignature (over the EIP-191 hash of the grant hash) is checked on first use
+     *        only, then remembered for the current owner
+     *      - sessionSignature is the session key ECDSA signature, like an owner one
+     *      The validity window goes back to the EntryPoint in validationData (no TIMESTAMP in
+     *      validation). State is written even when a signature is wrong: the EntryPoint then
+     *      reverts the whole bundle, and gas estimation sees the real cost.
+     */
+    function _validateSessionUserOp(SimpleUserOperation calldata userOp, bytes32 ethSignedHash)
+        internal
+        returns (uint256)
+    {
+        (SessionGrant memory grant, bytes memory ownerSignature, bytes memory sessionSignature) =
+            abi.decode(userOp.signature[4:], (SessionGrant, bytes, bytes));
+        require(grant.validUntil != 0, "Session without expiry");
+        bytes32 grantHash = hashSessionGrant(grant);
+        SessionState storage session = sessions[grantHash];
+
+        require(!session.revoked, "Session revoked");
+        uint256 spent =
+            session.spent + _sessionCallsValue(userOp.callData, grant, grantHash) + _maxSelfPaidGasCost(userOp);
+        if (spent > grant.spendLimit) revert SessionSpendLimitExceeded(spent, grant.spendLimit);
+        session.spent = spent;
+
+        bool valid = session.approvedBy == owner;
+        if (!valid) {
+            valid = SignatureChecker.isValidSignatureNow(
+                owner, MessageHashUtils.toEthSignedMessageHash(grantHash), ownerSignature
+            );
+            session.approvedBy = owner;
+            emit SessionApproved(grantHash, grant.sessionKey);
+        }
+
+        (address signer, ECDSA.RecoverError err,) = ECDSA.tryRecover(ethSignedHash, sessionSignature);
+        valid = valid && err == ECDSA.RecoverError.NoError && signer == grant.sessionKey;
+
+        return _packValidationData(!valid, grant.validUntil, grant.validAfter);
+    }
+
+    /// @dev Most an op without a paymaster can cost the account: the EntryPoint v0.6 prefund
+    ///      (gas limits x maxFeePerGas), taken from its deposit and missingAccountFunds.
+    function _maxSelfPaidGasCost(SimpleUserOperation calldata userOp) internal pure returns (uint256) {
+        if (userOp.paymasterAndData.length != 0) return 0;
+        return (userOp.callGasLimit + userOp.verificationGasLimit + userOp.preVerificationGas) * userOp.maxFeePerGas;
+    }
+
+    /// @dev Checks every call of an execute / executeBatch callData against the grant and
+    ///      returns their total value.
+    function _sessionCallsValue(bytes calldata callData, SessionGrant memory grant, bytes32 grantHash)
+        internal
+        view
+        returns (uint256 total)
+    {
+        bytes4 fn = callData.length >= 4 ? bytes4(callData[:4]) : bytes4(0);
+
+        if (fn == this.execute.selector) {
+            (address target, uint256 value, bytes memory data) = abi.decode(callData[4:], (address, uint256, bytes));
+            _checkSessionCall(grant, grantHash, target, data);
+            return value;
+        }
+
+        if (fn == this.executeBatch.selector) {
+            (address[] memory targets, uint256[] memory values, bytes[] memory datas) =
+                abi.decode(callData[4:], (address[], uint256[], bytes[]));
+            require(targets.length == values.length && targets.length == datas.length, "Length mismatch");
+            for (uint256 i = 0; i < targets.length; i++) {
+                _checkSessionCall(grant, grantHash, targets[i], datas[i]);
+                total += values[i];
+            }
+            return total;
+        }
+
+        revert SessionCallNotAllowed(address(this), fn);
+    }
+
+    function _checkSessionCall(SessionGrant memory grant, bytes32 grantHash, address target, bytes memory data)
+        internal
+        view
+    {
+        bytes4 selector = data.length >= 4 ? bytes4(data) : bytes4(0);
+
+        // Calls to this account (setOwner, other grants...) are never granted, except
+        // revoking the grant in use
+        if (target == address(this)) {
+            if (keccak256(data) == keccak256(abi.encodeCall(this.revokeSession, (grantHash)))) return;
+            revert SessionCallNotAllowed(target, selector);
+        }
+
+        for (uint256 i = 0; i < grant.permissions.length; i++) {
+            if (grant.permissions[i].target == target && grant.permissions[i].selector == selector) return;
+        }
+        revert SessionCallNotAllowed(target, selector);
+    }
+
+    // ---------------------------------------------------------------------
+    // Guardian recovery
+    // ---------------------------------------------------------------------
+
+    /**
+     * @notice Replaces the guardians: `threshold` of `_guardians` (EOAs) can start a recovery,
+     *         which executes after `delay`. An empty list (threshold 0) disables recovery.
+     * @dev Owner only (directly or through an owner UserOperation). Cancels a pending recovery
+     *      and invalidates the approvals signed so far.
+     */
+    function setGuardians(address[] calldata _guardians, uint256 threshold, uint48 delay) external {
+        require(msg.sender == owner || msg.sender == address(this), "Not authorized");
+        require(_guardians.length <= MAX_GUARDIANS, "Too many guardians");
+        require(threshold <= _guardians.length && (threshold > 0) == (_guardians.length > 0), "Invalid threshold");
+        require(_guardians.length == 0 || delay >= MIN_RECOVERY_DELAY, "Recovery delay too short");
+
+        for (uint256 i = 0; i < guardians.length; i++) {
+            isGuardian[guardians[i]] = false;
+        }
+        delete guardians;
+        for (uint256 i = 0; i < _guardians.length; i++) {
+            address guardian = _guardians[i];
+            require(guardian != address(0) && guardian != address(this) && !isGuardian[guardian], "Invalid guardian");
+            isGuardian[guardian] = true;
+            guardians.push(guardian);
+        }
+        guardianThreshold = threshold;
+        recoveryDelay = delay;
+
+        recoveryNonce++;
+        if (pendingRecovery.newOwner != address(0)) {
+            emit RecoveryCancelled(pendingRecovery.newOwner);
+            delete pendingRecovery;
+        }
+        emit GuardiansChanged(_guardians, threshold, delay);
+    }
+
+    function getGuardians() external view returns (address[] memory) {
+        return guardians;
+    }
+
+    /// @notice EIP-712 hash a guardian signs to approve `newOwner` (domain as hashSessionGrant).
+    function hashRecovery(address newOwner, uint256 nonce) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(RECOVERY_TYPEHASH, newOwner, nonce)));
+    }
+
+    /**
+     * @notice Starts the recovery to `newOwner`, approved by `guardianThreshold` guardians
+     *         (signatures of hashRecovery(newOwner, recoveryNonce), sorted by guardian address).
+     * @dev Callable by anyone, usually as a UserOperation with this callData (see
+     *      validateUserOp). The owner can cancel it until `executeAfter`.
+     */
+    function startRecovery(address newOwner, bytes[] calldata signatures) external {
+        require(newOwner != address(0), "Invalid owner");
+        require(pendingRecovery.newOwner == address(0), "Recovery pending");
+        require(_guardiansApproved(newOwner, signatures), "Not approved by the guardians");
+
+        uint48 executeAfter = uint48(block.timestamp) + recoveryDelay;
+        pendingRecovery = PendingRecovery(newOwner, executeAfter);
+        emit RecoveryStarted(newOwner, executeAfter, recoveryNonce);
+        recoveryNonce++;
+    }
+
+    /// @notice Makes the pending recovery's new owner the owner, once its timelock is over.
+    function executeRecovery() external {
+        PendingRecovery memory recovery = pendingRecovery;
+        require(recovery.newOwner != address(0), "No recovery pending");
+        require(block.timestamp >= recovery.executeAfter, "Recovery timelocked");
+
+        delete pendingRecovery;
+        owner = recovery.newOwner;
+        emit RecoveryExecuted(recovery.newOwner);
+    }
+
+    /// @notice Owner veto of a pending recovery (directly or through an owner UserOperation).
+    function cancelRecovery() external {
+        require(msg.sender == owner || msg.sender == address(this), "Not authorized");
+        address newOwner = pendingRecovery.newOwner;
+        require(newOwner != address(0), "No recovery pending");
+
+        delete pendingRecovery;
+        emit RecoveryCancelled(newOwner);
+    }
+
+    /// @dev Approvals of `guardianThreshold` distinct guardians, in ascending signer order.
+    function _guardiansApproved(address newOwner, bytes[] memory signatures) internal view returns (bool) {
+        if (guardianThreshold == 0 || signatures.length < guardianThreshold) return false;
+
+        bytes32 digest = hashRecovery(newOwner, recoveryNonce);
+        address last = address(0);
+        for (uint256 i = 0; i < signatures.length; i++) {
+            (address signer, ECDSA.RecoverError err,) = ECDSA.tryRecover(digest, signatures[i]);
+            if (err != ECDSA.RecoverError.NoError || !isGuardian[signer] || signer <= last) return false;
+            last = signer;
+        }
+        return true;
+    }
+
+    /**
+     * @dev Recovery UserOperation, callData = startRecovery(...) or executeRecovery():
+     *      - start: valid when the guardian approvals are (no owner signature: it is lost)
+     *      - execute: valid from `executeAfter` on (validAfter in validationData)
+     *      Only sponsored by a paymaster (see _validateAuthorization), never paid by the
+     *      account. Anyone holding the approvals can submit the start once, since it
+     *      consumes them. Relayed as plain transactions, the calls need no paymaster.
+     */
+    function _validateRecoveryUserOp(bytes calldata callData, bytes4 fn) internal view returns (uint256) {
+        PendingRecovery memory recovery = pendingRecovery;
+
+        if (fn == this.startRecovery.selector) {
+            (address newOwner, bytes[] memory signatures) = abi.decode(callData[4:], (address, bytes[]));
+            bool approved =
+                newOwner != address(0) && recovery.newOwner == address(0) && _guardiansApproved(newOwner, signatures);
+            return approved ? 0 : SIG_VALIDATION_FAILED;
+        }
+
+        if (recovery.newOwner == address(0)) return SIG_VALIDATION_FAILED;
+        return _packValidationData(false, 0, recovery.executeAfter);
+    }
+
     /**
      * @dev EIP-1271 signature validation hook.
      *
@@ -3,6 +3,7 @@ pragma solidity ^0.8.24;
 
 import {IEntryPoint} from "lib/account-abstraction/contracts/interfaces/IEntryPoint.sol";
 import {IPaymaster, UserOperation} from "lib/account-abstraction/contracts/interfaces/IPaymaster.sol";
+import {_packValidationData} from "lib/account-abstraction/contracts/core/Helpers.sol";
 
 /**
  * @title DemoPaymaster
@@ -10,8 +11,18 @@ import {IPaymaster, UserOperation} from "lib/account-abstraction/contracts/inter
  *         This paymaster accepts a user operation only if a valid
  *         offchain signature from `signer` is included in paymasterAndData.
  *         It sponsors gas fees by using its deposit in the EntryPoint.
+ *
+ *         paymasterAndData layout (149 bytes):
+ *         [0:20]   paymaster address
+ *         [20:84]  abi.encode(uint48 validUntil, uint48 validAfter)
+ *         [84:149] signature over getHash(userOp, validUntil, validAfter)
  */
 contract DemoPaymaster is IPaymaster {
+    /// @dev Offsets inside paymasterAndData (see layout above).
+    uint256 private constant VALID_TIMESTAMP_OFFSET = 20;
+    uint256 private constant SIGNATURE_OFFSET = 84;
+    uint256 private constant PAYMASTER_AND_DATA_LENGTH = SIGNATURE_OFFSET + 65;
+
     IEntryPoint public immutable entryPoint;
     address public owner;
     address public signer;
@@ -48,12 +59,61 @@ contract DemoPaymaster is IPaymaster {
     /*                      PAYMASTER VALIDATION (EntryPoint)                     */
     /* -------------------------------------------------------------------------- */
 
+    /**
+     * @notice Hash the paymaster signer signs for a UserOperation.
+     * @dev Covers every UserOperation field except paymasterAndData and signature, plus
+     *      chainId and this paymaster address (no replay on another chain or paymaster)
+     *      and the validity window.
+     * @param userOp The UserOperation being sponsored
+     * @param validUntil Last timestamp the sponsorship is valid (0 = no expiry)
+     * @param validAfter First timestamp the sponsorship is valid
+     */
+    function getHash(UserOperation calldata userOp, uint48 validUntil, uint48 validAfter)
+        public
+        view
+        returns (bytes32)
+    {
+        return keccak256(
+            abi.encode(
+                userOp.sender,
+                userOp.nonce,
+                keccak256(userOp.initCode),
+                keccak256(userOp.callData),
+                userOp.callGasLimit,
+                userOp.verificationGasLimit,
+                userOp.preVerificationGas,
+                userOp.maxFeePerGas,
+                userOp.maxPriorityFeePerGas,
+                block.chainid,
+                address(this),
+                validUntil,
+                validAfter
+            )
+        );
+    }
+
+    /**
+     * @notice Splits paymasterAndData into its validity window and signature.
+     */
+    function parsePaymasterAndData(bytes calldata paymasterAndData)
+        public
+        pure
+        returns (uint48 validUntil, uint48 validAfter, bytes calldata signature)
+    {
+        (validUntil, validAfter) =
+            abi.decode(paymasterAndData[VALID_TIMESTAMP_OFFSET:SIGNATURE_OFFSET], (uint48, uint48));
+        signature = paymasterAndData[SIGNATURE_OFFSET:];
+    }
+
     /**
      * @notice Validates a UserOperation for the Paymaster
-     * @dev Ensures the operation is properly signed and returns validationData with expiration time
+     * @dev Ensures the operation is properly signed and returns validationData with the
+     *      validity window, which the EntryPoint enforces (AA32 when expired or not due).
+     *      A bad signature returns sigFailed instead of reverting, so bundlers can
+     *      estimate gas with a dummy paymasterAndData of the final length.
      * @param userOp The UserOperation struct containing operation details
      * @return context Additional context for the operation (empty in this case)
-     * @return validationData A packed value containing validation status and expiration time
+     * @return validationData A packed value containing validation status and validity window
      */
     function validatePaymasterUserOp(UserOperation calldata userOp, bytes32, uint256)
         external
@@ -62,18 +122,16 @@ contract DemoPaymaster is IPaymaster {
         returns (bytes memory context, uint256 validationData)
     {
         require(msg.sender == address(entryPoint), "only entrypoint");
+        require(
+            userOp.paymasterAndData.length == PAYMASTER_AND_DATA_LENGTH, "invalid paymasterAndData length"
+        );
 
-        // paymasterAndData = address(this) (20 bytes) + signature
-        bytes calldata pnd = userOp.paymasterAndData;
-        require(pnd.length == 20 + 65, "invalid paymasterAndData length");
-        bytes calldata signature = pnd[20:85];
-
-        bytes32 h = keccak256(abi.encodePacked(userOp.sender, userOp.callData, userOp.nonce));
+        (uint48 validUntil, uint48 validAfter, bytes calldata signature) =
+            parsePaymasterAndData(userOp.paymasterAndData);
 
-        address recovered = _recover(h, signature);
-        require(recovered == signer, "invalid paymaster signature");
+        address recovered = _recover(getHash(userOp, validUntil, validAfter), signature);
 
-        return ("", 0);
+        return ("", _packValidationData(recovered != signer, validUntil, validAfter));
     }
 
     /* -------------------------------------------------------------------------- */
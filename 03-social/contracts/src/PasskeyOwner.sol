@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@openzeppelin/contracts/utils/cryptography/WebAuthn.sol";
+
+/**
+ * @title PasskeyOwner
+ * @dev ERC-1271 signer holding the P-256 public key of a WebAuthn credential (passkey).
+ *
+ * ## How it is used
+ * - It is set as the `owner` of a DemoAccount (see `AccountFactory.createPasskeyAccount`).
+ * - DemoAccount validates UserOperations with `SignatureChecker.isValidSignatureNow(owner, ...)`,
+ *   which calls `isValidSignature` here because the owner is a contract.
+ * - `userOp.signature` is the ABI-encoded `WebAuthn.WebAuthnAuth` of an assertion
+ *   (`navigator.credentials.get`) whose challenge is the hash DemoAccount checks:
+ *   the EIP-191 hash of the userOpHash.
+ *
+ * ## Verification
+ * - `WebAuthn.verify` checks the type and challenge in clientDataJSON, the UP/UV flags in
+ *   authenticatorData, then the P-256 signature over authenticatorData ++ sha256(clientDataJSON).
+ * - P-256 first uses the RIP-7212 precompile (available on Scroll) and falls back to a
+ *   Solidity implementation on chains without it (e.g. a local anvil), which costs a few
+ *   hundred thousand gas more.
+ *
+ * ## Validation rules (ERC-7562)
+ * - The key is immutable (part of the bytecode), so validating reads no storage.
+ */
+contract PasskeyOwner is IERC1271 {
+    /// @notice P-256 public key (affine coordinates) of the passkey.
+    bytes32 public immutable qx;
+    bytes32 public immutable qy;
+
+    constructor(bytes32 _qx, bytes32 _qy) {
+        require(P256.isValidPublicKey(_qx, _qy), "Invalid P-256 key");
+        qx = _qx;
+        qy = _qy;
+    }
+
+    /**
+     * @inheritdoc IERC1271
+     * @dev Malformed signatures return the failure value instead of reverting, so the
+     * EntryPoint gets SIG_VALIDATION_FAILED (and bundler gas estimation keeps working).
+     * User verification (biometrics / PIN) is required, not only user presence.
+     */
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        (bool decoded, WebAuthn.WebAuthnAuth calldata auth) = WebAuthn.tryDecodeAuth(signature);
+        if (decoded && WebAuthn.verify(abi.encodePacked(hash), auth, qx, qy, true)) {
+            return IERC1271.isValidSignature.selector;
+        }
+        return 0xffffffff;
+    }
+}
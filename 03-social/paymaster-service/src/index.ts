@@ -0,0 +1,135 @@
+import * as dotenv from "dotenv"
+
+dotenv.config()
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http"
+import { createSponsorshipPolicyEngine } from "aa-demo-sdk"
+import { privateKeyToAccount } from "viem/accounts"
+import { createSponsorHandlers, type SponsorConfig } from "./sponsor"
+import {
+  CYAN,
+  envAddress,
+  envBigInt,
+  envHex,
+  envNumber,
+  envValue,
+  GREEN,
+  loadPolicyFile,
+  METHOD_NOT_FOUND,
+  RED,
+  RESET,
+  RpcError,
+  YELLOW
+} from "./utils"
+
+// ============================================================================
+// ENV & CONFIG
+// ============================================================================
+// The paymaster signer key lives ONLY here: the web client asks this service
+// for paymasterAndData instead of signing it in the browser.
+const PORT = Number(process.env.PORT ?? 8787)
+const CORS_ORIGIN = process.env.CORS_ORIGIN ?? "http://localhost:5173"
+const POLICY_FILE = envValue(process.env.POLICY_FILE, "POLICY_FILE")
+
+const config: SponsorConfig = {
+  chainId: envBigInt(process.env.CHAIN_ID, "CHAIN_ID") ?? 534351n,
+  entryPoint: envAddress(process.env.SC_ENTRYPOINT_ADDRESS, "SC_ENTRYPOINT_ADDRESS"),
+  paymaster: envAddress(process.env.SC_PAYMASTER_ADDRESS, "SC_PAYMASTER_ADDRESS"),
+  signer: privateKeyToAccount(envHex(process.env.PAYMASTER_SIGNER_PK, "PAYMASTER_SIGNER_PK")),
+  validitySeconds: envNumber(process.env.PAYMASTER_VALIDITY_SECONDS, "PAYMASTER_VALIDITY_SECONDS"),
+  // Quotas are kept in memory: they reset when the service restarts.
+  policy: createSponsorshipPolicyEngine(loadPolicyFile(POLICY_FILE))
+}
+
+const handlers = createSponsorHandlers(config)
+
+// Requests bigger than this are not UserOperations
+const MAX_BODY_BYTES = 64 * 1024
+
+// ============================================================================
+// HTTP / JSON-RPC
+// ============================================================================
+type RpcRequest = { id?: unknown; method?: unknown; params?: unknown }
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    req.setEncoding("utf8")
+    req.on("data", (chunk: string) => {
+      body += chunk
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"))
+        req.destroy()
+      }
+    })
+    req.on("end", () => resolve(body))
+    req.on("error", reject)
+  })
+}
+
+function send(res: ServerResponse, status: number, payload?: unknown) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": CORS_ORIGIN,
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Content-Type": "application/json"
+  })
+  res.end(payload === undefined ? undefined : JSON.stringify(payload))
+}
+
+async function handleRpc(request: RpcRequest) {
+  const id = request.id ?? null
+  const method = String(request.method)
+  const params = Array.isArray(request.params) ? request.params : []
+
+  const handler = handlers[method]
+  try {
+    if (!handler) throw new RpcError(METHOD_NOT_FOUND, `Method ${method} not found`)
+
+    const result = await handler(params)
+    const sender = (params[0] as { sender?: string } | undefined)?.sender
+    console.log(`${GREEN}[${method}]${RESET} sponsored ${sender}`)
+    return { jsonrpc: "2.0", id, result }
+  } catch (err) {
+    const code = err instanceof RpcError ? err.code : -32603
+    const data = err instanceof RpcError ? err.data : undefined
+    const message = err instanceof Error ? err.message : String(err)
+    console.log(`${RED}[${method}] rejected (${code}):${RESET} ${message}`)
+    return { jsonrpc: "2.0", id, error: { code, message, data } }
+  }
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204)
+  if (req.method !== "POST") return send(res, 405, { error: "Use POST (JSON-RPC)" })
+
+  let request: RpcRequest
+  try {
+    request = JSON.parse(await readBody(req)) as RpcRequest
+  } catch {
+    return send(res, 400, {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32700, message: "Parse error" }
+    })
+  }
+
+  send(res, 200, await handleRpc(request))
+})
+
+server.listen(PORT, () => {
+  console.log(`
+${CYAN}===============================================================
+PAYMASTER SPONSORSHIP SERVICE
+===============================================================${RESET}
+
+Listening on http://localhost:${PORT} (CORS origin: ${CORS_ORIGIN})
+
+Paymaster:   ${config.paymaster}
+Signer:      ${config.signer.address}
+EntryPoint:  ${config.entryPoint}
+Chain id:    ${config.chainId}
+Policy:      ${POLICY_FILE}
+${YELLOW}Methods: pm_getPaymasterStubData, pm_getPaymasterData, pm_sponsorUserOperation${RESET}
+`)
+})
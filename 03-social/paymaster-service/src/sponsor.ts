@@ -0,0 +1,160 @@
+import {
+  type Address,
+  buildPaymasterAndData,
+  buildStubPaymasterAndData,
+  type Hex,
+  paymasterValidityWindow,
+  type SponsorshipPolicyEngine,
+  SponsorshipRejectedError,
+  type UserOperation,
+  type UserOpSigner
+} from "aa-demo-sdk"
+import { isAddress, isHex } from "viem"
+import { INVALID_PARAMS, PAYMASTER_REJECTED, RpcError } from "./utils"
+
+export interface SponsorConfig {
+  chainId: bigint
+  entryPoint: Address
+  paymaster: Address
+  /** Paymaster signer key: it never leaves this service. */
+  signer: UserOpSigner
+  /** How long each signature stays valid (validUntil = now + validitySeconds). */
+  validitySeconds?: number
+  /** Allow / deny lists, fee cap and daily quotas (see POLICY_FILE). */
+  policy: SponsorshipPolicyEngine
+}
+
+type Handler = (params: unknown[]) => Promise<unknown>
+
+const USER_OP_FIELDS = [
+  "sender",
+  "nonce",
+  "initCode",
+  "callData",
+  "callGasLimit",
+  "verificationGasLimit",
+  "preVerificationGas",
+  "maxFeePerGas",
+  "maxPriorityFeePerGas",
+  "paymasterAndData",
+  "signature"
+] as const
+
+// ---------------------- VALIDATION ----------------------
+
+/**
+ * Checks that the param is a v0.6 UserOperation in RPC (hex) format.
+ */
+export function parseUserOperation(value: unknown): UserOperation {
+  if (!value || typeof value !== "object") {
+    throw new RpcError(INVALID_PARAMS, "userOp must be an object")
+  }
+
+  const op = value as Record<string, unknown>
+  for (const field of USER_OP_FIELDS) {
+    // paymasterAndData / signature may be missing while the op is being built
+    const v =
+      op[field] ?? (field === "paymasterAndData" || field === "signature" ? "0x" : undefined)
+    if (typeof v !== "string" || !isHex(v)) {
+      throw new RpcError(INVALID_PARAMS, `userOp.${field} must be a hex string`)
+    }
+  }
+  if (!isAddress(op.sender as string)) {
+    throw new RpcError(INVALID_PARAMS, "userOp.sender must be an address")
+  }
+
+  return {
+    ...(op as unknown as UserOperation),
+    paymasterAndData: (op.paymasterAndData as Hex | undefined) ?? "0x",
+    signature: (op.signature as Hex | undefined) ?? "0x"
+  }
+}
+
+function checkEntryPoint(config: SponsorConfig, entryPoint: unknown) {
+  if (
+    typeof entryPoint !== "string" ||
+    entryPoint.toLowerCase() !== config.entryPoint.toLowerCase()
+  ) {
+    throw new RpcError(INVALID_PARAMS, `Unsupported EntryPoint: ${String(entryPoint)}`)
+  }
+}
+
+function checkChainId(config: SponsorConfig, chainId: unknown) {
+  let value: bigint | undefined
+  try {
+    value = typeof chainId === "string" || typeof chainId === "number" ? BigInt(chainId) : undefined
+  } catch {
+    value = undefined
+  }
+  if (value !== config.chainId) {
+    throw new RpcError(INVALID_PARAMS, `Unsupported chainId: ${String(chainId)}`)
+  }
+}
+
+// ---------------------- POLICY ----------------------
+
+// A refusal becomes a -32501 error whose `data.reason` carries the reason code
+// (e.g. TARGET_NOT_ALLOWED, DAILY_OP_QUOTA_EXCEEDED)
+async function rejectAsRpcError<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run()
+  } catch (err) {
+    if (err instanceof SponsorshipRejectedError) {
+      throw new RpcError(PAYMASTER_REJECTED, err.message, { reason: err.reason })
+    }
+    throw err
+  }
+}
+
+// ---------------------- HANDLERS ----------------------
+
+/**
+ * JSON-RPC methods served by the sponsorship service.
+ *
+ * - pm_getPaymasterStubData (ERC-7677): paymaster + dummy signature, for gas estimation
+ * - pm_getPaymasterData     (ERC-7677): paymaster + validity window + real signature
+ * - pm_sponsorUserOperation (Pimlico style, v0.6): same as pm_getPaymasterData, no chainId
+ */
+export function createSponsorHandlers(config: SponsorConfig): Record<string, Handler> {
+  const sign = (userOp: UserOperation) =>
+    buildPaymasterAndData(config.paymaster, config.signer, userOp, {
+      chainId: config.chainId,
+      ...paymasterValidityWindow(config.validitySeconds)
+    })
+
+  // Policy applies to stub and final data alike, so a refused op already fails at
+  // gas estimation; only signed ops count against the quotas. They are reserved before
+  // signing (concurrent requests of one sender cannot all pass) and given back on failure.
+  const prepare = async (params: unknown[], withChainId: boolean) => {
+    const [rawUserOp, entryPoint, chainId] = params
+    const userOp = parseUserOperation(rawUserOp)
+    checkEntryPoint(config, entryPoint)
+    if (withChainId) checkChainId(config, chainId)
+    await rejectAsRpcError(() => config.policy.check(userOp))
+    return userOp
+  }
+
+  const reserveAndSign = async (userOp: UserOperation) => {
+    const release = await rejectAsRpcError(() => config.policy.reserve(userOp))
+    try {
+      return { paymasterAndData: await sign(userOp) }
+    } catch (err) {
+      await release()
+      throw err
+    }
+  }
+
+  return {
+    pm_getPaymasterStubData: async (params) => {
+      await prepare(params, true)
+      return {
+        paymasterAndData: buildStubPaymasterAndData(config.paymaster),
+        isFinal: false
+      }
+    },
+
+    pm_getPaymasterData: async (params) => reserveAndSign(await prepare(params, true)),
+
+    pm_sponsorUserOperation: async (params) => reserveAndSign(await prepare(params, false))
+  }
+}
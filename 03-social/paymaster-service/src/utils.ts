@@ -0,0 +1,74 @@
+import { readFileSync } from "node:fs"
+import { type Address, type Hex, parseSponsorshipPolicy, type SponsorshipPolicy } from "aa-demo-sdk"
+import { isAddress } from "viem"
+import { parse as parseYaml } from "yaml"
+
+// Colors
+export const CYAN = "\x1b[36m"
+export const GREEN = "\x1b[32m"
+export const YELLOW = "\x1b[33m"
+export const RED = "\x1b[31m"
+export const RESET = "\x1b[0m"
+
+// ---------------------- ENV HELPERS ----------------------
+export function envAddress(v: string | undefined, name: string): Address {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  if (!isAddress(v)) throw new Error(`Invalid address in ${name}: ${v}`)
+  return v as Address
+}
+
+export function envHex(v: string | undefined, name: string): Hex {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  if (!v.startsWith("0x")) throw new Error(`${name} must start with 0x`)
+  return v as Hex
+}
+
+export function envValue(v: string | undefined, name: string): string {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  return v
+}
+
+// Optional positive number; undefined lets the default apply.
+export function envNumber(v: string | undefined, name: string): number | undefined {
+  if (!v) return undefined
+  const n = Number(v)
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`Invalid number in ${name}: ${v}`)
+  return n
+}
+
+// Optional integer (wei amounts, chain id); undefined when unset.
+export function envBigInt(v: string | undefined, name: string): bigint | undefined {
+  if (!v) return undefined
+  try {
+    return BigInt(v)
+  } catch {
+    throw new Error(`Invalid integer in ${name}: ${v}`)
+  }
+}
+
+// ---------------------- POLICY FILE ----------------------
+// .yaml / .yml files are parsed as YAML, anything else as JSON.
+export function loadPolicyFile(path: string): SponsorshipPolicy {
+  const text = readFileSync(path, "utf8")
+  const raw = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text)
+  return parseSponsorshipPolicy(raw)
+}
+
+// ---------------------- JSON-RPC ERRORS ----------------------
+// Codes follow the ERC-4337 bundler ones, so the SDK decodes them into
+// InvalidParamsError (-32602) / PaymasterRejectedError (-32501).
+export const INVALID_PARAMS = -32602
+export const METHOD_NOT_FOUND = -32601
+export const PAYMASTER_REJECTED = -32501
+
+export class RpcError extends Error {
+  readonly code: number
+  readonly data?: unknown
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message)
+    this.name = "RpcError"
+    this.code = code
+    this.data = data
+  }
+}
@@ -0,0 +1,225 @@
+import * as dotenv from "dotenv"
+
+// quiet: stdout of `approve` is the approval JSON
+dotenv.config({ quiet: true })
+
+import {
+  type Address,
+  canonicalUserOpHasher,
+  checkApprovals,
+  encodeExecuteRecovery,
+  encodeStartRecovery,
+  type Hex,
+  RECOVERY_SIGNER,
+  readRecoveryState,
+  recoveryTypedData,
+  rpcPaymasterSponsor,
+  SmartAccountClient,
+  toRecoveryApprovalFile
+} from "aa-demo-sdk"
+import { createPublicClient, http, parseAbi } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import {
+  argAddress,
+  CYAN,
+  envHex,
+  envValue,
+  GREEN,
+  RED,
+  RESET,
+  readApprovalFile,
+  YELLOW
+} from "./utils"
+
+// ============================================================================
+// ENV + CLIENTS
+// ============================================================================
+// Read lazily: `approve` with an explicit nonce needs neither an RPC nor a bundler, so a
+// guardian can sign on an offline machine. CHAIN_ID default: Scroll Sepolia.
+const CHAIN_ID = Number(process.env.CHAIN_ID || 534351)
+
+const USAGE = `Usage:
+  yarn recovery status <account>
+  yarn recovery approve <account> <newOwner> [nonce]        (GUARDIAN_PK; prints the approval JSON)
+  yarn recovery start <account> <newOwner> <approval.json>...
+  yarn recovery execute <account>`
+
+function rpc() {
+  return createPublicClient({ transport: http(envValue(process.env.SCROLL_RPC, "SCROLL_RPC")) })
+}
+
+/**
+ * Client of the recovery UserOperations: the guardian approvals (start) or the timelock
+ * (execute) authorize them, not a signature. Gas is paid by the paymaster service (policy
+ * with `recovery: true`): the account rejects unsponsored recovery ops, which anyone could
+ * send to drain its balance in fees.
+ */
+function recoveryClient(account: Address) {
+  const entryPoint = envHex(process.env.SC_ENTRYPOINT_ADDRESS, "SC_ENTRYPOINT_ADDRESS") as Address
+  return new SmartAccountClient({
+    publicClient: rpc(),
+    bundlerUrl: envValue(process.env.BUNDLER_URL, "BUNDLER_URL"),
+    entryPoint,
+    sender: account,
+    signer: RECOVERY_SIGNER,
+    paymaster: rpcPaymasterSponsor({
+      url: envValue(process.env.PAYMASTER_SERVICE_URL, "PAYMASTER_SERVICE_URL"),
+      entryPoint,
+      chainId: CHAIN_ID
+    }),
+    dummySignature: "0x",
+    hashUserOp: canonicalUserOpHasher({ entryPoint, chainId: CHAIN_ID })
+  })
+}
+
+async function sendRecoveryOp(account: Address, callData: Hex) {
+  const aa = recoveryClient(account)
+  const userOp = await aa.buildUserOp({ callData })
+  const userOpHash = await aa.send(await aa.sponsorAndSign(userOp))
+  console.log(`${CYAN}UserOperation sent:${RESET} ${userOpHash}, waiting for inclusion...`)
+
+  const outcome = await aa.waitForReceipt(userOpHash)
+  if (outcome.status !== "included") {
+    const reason = outcome.status === "dropped" ? outcome.reason : "the call reverted"
+    throw new Error(`Recovery UserOperation ${outcome.status}: ${reason}`)
+  }
+  console.log(`${GREEN}Included${RESET} in tx ${outcome.receipt.receipt?.transactionHash}`)
+}
+
+const when = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString()
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+async function status(args: string[]) {
+  const account = argAddress(args[0], "account")
+  const client = rpc()
+  const [state, owner] = await Promise.all([
+    readRecoveryState(client, account),
+    client.readContract({
+      address: account,
+      abi: parseAbi(["function owner() view returns (address)"]),
+      functionName: "owner"
+    })
+  ])
+
+  console.log(`${CYAN}Account:${RESET}   ${account}`)
+  console.log(`${CYAN}Owner:${RESET}     ${owner}`)
+  if (state.guardians.length === 0) {
+    console.log(`${YELLOW}No guardians: the owner has not enabled recovery.${RESET}`)
+    return
+  }
+  console.log(`${CYAN}Guardians:${RESET} ${state.threshold} of ${state.guardians.length}`)
+  for (const guardian of state.guardians) console.log(`  - ${guardian}`)
+  console.log(`${CYAN}Timelock:${RESET}  ${state.delay} s`)
+  console.log(`${CYAN}Nonce:${RESET}     ${state.nonce} (to sign in the next approvals)`)
+  console.log(
+    state.pending
+      ? `${YELLOW}Pending recovery${RESET} to ${state.pending.newOwner}, executable from ${when(state.pending.executeAfter)}`
+      : "No pending recovery."
+  )
+}
+
+/** A guardian signs its approval (EIP-712) and prints it, for whoever submits the start. */
+async function approve(args: string[]) {
+  const account = argAddress(args[0], "account")
+  const newOwner = argAddress(args[1], "newOwner")
+  const guardian = privateKeyToAccount(envHex(process.env.GUARDIAN_PK, "GUARDIAN_PK"))
+
+  // Offline with an explicit nonce (see `status`), otherwise read from the account
+  const nonce =
+    args[2] !== undefined ? BigInt(args[2]) : (await readRecoveryState(rpc(), account)).nonce
+  const request = { account, chainId: CHAIN_ID, newOwner, nonce }
+  const signature = await guardian.signTypedData(recoveryTypedData(request))
+
+  // Logs on stderr: stdout is the approval file (`yarn -s recovery approve ... > me.json`)
+  console.error(
+    `${GREEN}Guardian ${guardian.address} approves owner ${newOwner} for ${account} (nonce ${nonce}).${RESET}`
+  )
+  console.log(
+    JSON.stringify(
+      toRecoveryApprovalFile(request, { guardian: guardian.address, signature }),
+      null,
+      2
+    )
+  )
+}
+
+/**
+ * Checks the approvals offline against the account's guardians and nonce, then aggregates
+ * them into the one UserOperation starting the recovery.
+ */
+async function start(args: string[]) {
+  const account = argAddress(args[0], "account")
+  const newOwner = argAddress(args[1], "newOwner")
+  const files = args.slice(2)
+  const state = await readRecoveryState(rpc(), account)
+
+  if (state.pending) {
+    throw new Error(`A recovery to ${state.pending.newOwner} is already pending`)
+  }
+
+  const approvals = await checkApprovals(
+    { account, chainId: CHAIN_ID, newOwner },
+    state,
+    files.map(readApprovalFile)
+  )
+  console.log(`Approvals of ${approvals.map((a) => a.guardian).join(", ")} checked.`)
+
+  console.log(`Starting the recovery to ${newOwner} with ${approvals.length} approval(s)...`)
+  await sendRecoveryOp(account, encodeStartRecovery(newOwner, approvals))
+
+  const pending = (await readRecoveryState(rpc(), account)).pending
+  if (pending) {
+    console.log(
+      `${GREEN}Recovery started.${RESET} The owner can cancel it until ${when(pending.executeAfter)}; then run: yarn recovery execute ${account}`
+    )
+  }
+}
+
+/** Makes the new owner the owner, once the timelock is over (anyone can send it). */
+async function execute(args: string[]) {
+  const account = argAddress(args[0], "account")
+  const client = rpc()
+  const [{ pending }, block] = await Promise.all([
+    readRecoveryState(client, account),
+    client.getBlock()
+  ])
+
+  if (!pending) throw new Error(`No pending recovery on ${account} (executed or cancelled?)`)
+  const wait = pending.executeAfter - Number(block.timestamp)
+  if (wait > 0) {
+    throw new Error(`Timelocked for ${wait} more seconds (until ${when(pending.executeAfter)})`)
+  }
+
+  console.log(`Executing the recovery to ${pending.newOwner}...`)
+  await sendRecoveryOp(account, encodeExecuteRecovery())
+  console.log(`${GREEN}${pending.newOwner} is now the owner of ${account}.${RESET}`)
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const COMMANDS: Record<string, (args: string[]) => Promise<void>> = {
+  status,
+  approve,
+  start,
+  execute
+}
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2)
+  const command = COMMANDS[name ?? ""]
+  if (!command) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+  await command(args)
+}
+
+main().catch((err) => {
+  console.error(`${RED}${err instanceof Error ? err.message : String(err)}${RESET}`)
+  process.exit(1)
+})
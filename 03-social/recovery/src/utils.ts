@@ -0,0 +1,33 @@
+import { readFileSync } from "node:fs"
+import { type Address, type Hex, type ParsedApproval, parseRecoveryApprovalFile } from "aa-demo-sdk"
+import { isAddress } from "viem"
+
+// Colors
+export const CYAN = "\x1b[36m"
+export const GREEN = "\x1b[32m"
+export const YELLOW = "\x1b[33m"
+export const RED = "\x1b[31m"
+export const RESET = "\x1b[0m"
+
+// ---------------------- ENV / ARG HELPERS ----------------------
+export function envHex(v: string | undefined, name: string): Hex {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  if (!v.startsWith("0x")) throw new Error(`${name} must start with 0x`)
+  return v as Hex
+}
+
+export function envValue(v: string | undefined, name: string): string {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  return v
+}
+
+export function argAddress(v: string | undefined, name: string): Address {
+  if (!v) throw new Error(`Missing argument: ${name}`)
+  if (!isAddress(v)) throw new Error(`Invalid address for ${name}: ${v}`)
+  return v as Address
+}
+
+// ---------------------- APPROVAL FILES ----------------------
+export function readApprovalFile(path: string): ParsedApproval {
+  return parseRecoveryApprovalFile(JSON.parse(readFileSync(path, "utf8")), path)
+}
@@ -0,0 +1,19 @@
+import { parseAbi } from "viem"
+
+// EntryPoint v0.6 surface used by the bundler (simulation, bundling, events)
+export const ENTRYPOINT_BUNDLER_ABI = parseAbi([
+  "struct UserOperation { address sender; uint256 nonce; bytes initCode; bytes callData; uint256 callGasLimit; uint256 verificationGasLimit; uint256 preVerificationGas; uint256 maxFeePerGas; uint256 maxPriorityFeePerGas; bytes paymasterAndData; bytes signature; }",
+  "struct ReturnInfo { uint256 preOpGas; uint256 prefund; bool sigFailed; uint48 validAfter; uint48 validUntil; bytes paymasterContext; }",
+  "struct StakeInfo { uint256 stake; uint256 unstakeDelaySec; }",
+  "struct AggregatorStakeInfo { address aggregator; StakeInfo stakeInfo; }",
+  "function simulateValidation(UserOperation userOp)",
+  "function handleOps(UserOperation[] ops, address beneficiary)",
+  "function getUserOpHash(UserOperation userOp) view returns (bytes32)",
+  "function getNonce(address sender, uint192 key) view returns (uint256 nonce)",
+  "error FailedOp(uint256 opIndex, string reason)",
+  "error SignatureValidationFailed(address aggregator)",
+  "error ValidationResult(ReturnInfo returnInfo, StakeInfo senderInfo, StakeInfo factoryInfo, StakeInfo paymasterInfo)",
+  "error ValidationResultWithAggregation(ReturnInfo returnInfo, StakeInfo senderInfo, StakeInfo factoryInfo, StakeInfo paymasterInfo, AggregatorStakeInfo aggregatorInfo)",
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+  "event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)"
+])
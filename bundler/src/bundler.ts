@@ -0,0 +1,348 @@
+import {
+  type Address,
+  computeCanonicalUserOpHash,
+  decodeNonce,
+  encodeNonce,
+  type Hex,
+  toEntryPointUserOp,
+  toHex,
+  type UserOperation,
+  type UserOperationByHash,
+  type UserOperationReceipt
+} from "aa-demo-sdk"
+import {
+  type Account,
+  type Chain,
+  type Log,
+  type PublicClient,
+  parseEventLogs,
+  type Transport,
+  toEventSelector,
+  type WalletClient
+} from "viem"
+import { ENTRYPOINT_BUNDLER_ABI } from "./abi"
+import { createMempool, type MempoolEntry } from "./mempool"
+import { CYAN, errorMessage, GREEN, INVALID_PARAMS, RED, RESET, RpcError, YELLOW } from "./utils"
+import {
+  checkEntryPoint,
+  failedOpError,
+  parseUserOperation,
+  simulateValidation
+} from "./validation"
+
+// Safety margin over eth_estimateGas for the handleOps transaction
+const HANDLE_OPS_GAS_MULTIPLIER_PERCENT = 120n
+
+const USER_OPERATION_EVENT_TOPIC = toEventSelector(
+  "UserOperationEvent(bytes32,address,address,uint256,bool,uint256,uint256)"
+)
+const BEFORE_EXECUTION_TOPIC = toEventSelector("BeforeExecution()")
+
+// Receipts of included ops are kept this long, and at most this many (oldest evicted first)
+const INCLUDED_TTL_MS = 60 * 60 * 1000
+const MAX_INCLUDED = 10_000
+
+export interface BundlerConfig {
+  publicClient: PublicClient
+  /** Account sending handleOps (pays the gas, refunded by the EntryPoint). */
+  walletClient: WalletClient<Transport, Chain, Account>
+  entryPoint: Address
+  chainId: bigint
+  /** Receives the fees paid by the bundled ops. */
+  beneficiary: Address
+  /** Max UserOperations per handleOps transaction. */
+  maxBundleSize: number
+  /** Max pending UserOperations. */
+  maxMempoolSize: number
+}
+
+interface IncludedOperation {
+  userOperation: UserOperation
+  receipt: UserOperationReceipt
+  transactionHash: Hex
+  blockHash: Hex
+  blockNumber: bigint
+  // Unix ms, for the eviction of old receipts
+  includedAt: number
+}
+
+export interface Bundler {
+  sendUserOperation(params: unknown[]): Promise<Hex>
+  /** Bundles the pending ops right away; returns the included userOpHashes. */
+  sendBundle(): Promise<Hex[]>
+  getUserOperationReceipt(userOpHash: Hex): UserOperationReceipt | null
+  getUserOperationByHash(userOpHash: Hex): UserOperationByHash | null
+  dumpMempool(): MempoolEntry[]
+  /** Bundles every `intervalMs` until `stop()`. */
+  start(intervalMs: number): void
+  stop(): void
+}
+
+// Logs emitted while executing one op: everything after the previous op's
+// UserOperationEvent (or BeforeExecution) up to its own UserOperationEvent.
+function logsOfOperation(logs: readonly Log[], entryPoint: Address, eventLogIndex: number) {
+  const isBoundary = (log: Log) =>
+    log.address.toLowerCase() === entryPoint.toLowerCase() &&
+    (log.topics[0] === USER_OPERATION_EVENT_TOPIC || log.topics[0] === BEFORE_EXECUTION_TOPIC)
+
+  const end = logs.findIndex((log) => log.logIndex === eventLogIndex)
+  let start = end
+  while (start > 0 && !isBoundary(logs[start - 1])) start--
+
+  return logs.slice(start, end).map((log) => ({
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    logIndex: log.logIndex === null ? null : toHex(log.logIndex)
+  }))
+}
+
+/**
+ * Minimal ERC-4337 (EntryPoint v0.6) bundler: validates incoming ops with
+ * `simulateValidation`, keeps them in an in-memory mempool and bundles them into
+ * `handleOps` transactions. Ops failing again at bundling time are dropped.
+ */
+export function createBundler(config: BundlerConfig): Bundler {
+  const { publicClient, walletClient, entryPoint } = config
+  const mempool = createMempool(config.maxMempoolSize)
+  const included = new Map<Hex, IncludedOperation>()
+
+  let bundling: Promise<Hex[]> | undefined
+  let timer: NodeJS.Timeout | undefined
+  let running = false
+
+  const drop = (entry: MempoolEntry, reason: string) => {
+    mempool.remove(entry.userOpHash)
+    console.log(`${RED}[DROPPED]${RESET} ${entry.userOpHash}: ${reason}`)
+  }
+
+  // Map order is insertion order: the oldest receipts come first
+  const evictIncluded = (now: number) => {
+    for (const [userOpHash, op] of included) {
+      if (included.size <= MAX_INCLUDED && now - op.includedAt < INCLUDED_TTL_MS) break
+      included.delete(userOpHash)
+    }
+  }
+
+  /**
+   * Whether an op rejected with AA25 only waits for pending ops of its sender: its sequence
+   * is above the on-chain one of its key, and every sequence in between is in the mempool.
+   */
+  const isQueued = async (userOp: UserOperation, err: unknown) => {
+    if (!(err instanceof RpcError) || !err.message.includes("AA25")) return false
+
+    const { key, sequence } = decodeNonce(BigInt(userOp.nonce))
+    const onChain = await publicClient.readContract({
+      address: entryPoint,
+      abi: ENTRYPOINT_BUNDLER_ABI,
+      functionName: "getNonce",
+      args: [userOp.sender, key]
+    })
+    const next = decodeNonce(onChain).sequence
+    if (sequence <= next) return false
+    for (let s = next; s < sequence; s++) {
+      if (!mempool.hasNonce(userOp.sender, encodeNonce(key, s))) return false
+    }
+    return true
+  }
+
+  // ---------------------- SUBMISSION ----------------------
+  const sendUserOperation = async (params: unknown[]): Promise<Hex> => {
+    const [rawUserOp, requestedEntryPoint] = params
+    const userOp = parseUserOperation(rawUserOp)
+    checkEntryPoint(entryPoint, requestedEntryPoint)
+
+    const userOpHash = computeCanonicalUserOpHash(userOp, entryPoint, config.chainId)
+    if (included.has(userOpHash)) {
+      throw new RpcError(INVALID_PARAMS, "UserOperation already included")
+    }
+
+    // An op queued behind pending ones of its key cannot be simulated yet: it is validated
+    // when it becomes the sender's lowest pending nonce, at bundling time
+    let queued = false
+    try {
+      await simulateValidation(publicClient, entryPoint, userOp)
+    } catch (err) {
+      queued = await isQueued(userOp, err)
+      if (!queued) throw err
+    }
+    mempool.add({ userOpHash, userOp, receivedAt: Date.now() })
+
+    const state = queued ? "queued behind pending nonces" : `${mempool.size} pending`
+    console.log(`${CYAN}[MEMPOOL]${RESET} ${userOpHash} from ${userOp.sender} (${state})`)
+    return userOpHash
+  }
+
+  // ---------------------- BUNDLING ----------------------
+  const recordIncluded = async (entries: MempoolEntry[], transactionHash: Hex) => {
+    const txReceipt = await publicClient.waitForTransactionReceipt({ hash: transactionHash })
+    if (txReceipt.status !== "success") {
+      for (const entry of entries) drop(entry, `handleOps ${transactionHash} reverted`)
+      return []
+    }
+
+    const events = parseEventLogs({ abi: ENTRYPOINT_BUNDLER_ABI, logs: txReceipt.logs })
+    const hashes: Hex[] = []
+    const now = Date.now()
+    evictIncluded(now)
+
+    for (const entry of entries) {
+      const event = events.find(
+        (e) => e.eventName === "UserOperationEvent" && e.args.userOpHash === entry.userOpHash
+      )
+      if (event?.eventName !== "UserOperationEvent") {
+        drop(entry, `no UserOperationEvent in ${transactionHash}`)
+        continue
+      }
+      const revert = events.find(
+        (e) => e.eventName === "UserOperationRevertReason" && e.args.userOpHash === entry.userOpHash
+      )
+
+      included.set(entry.userOpHash, {
+        userOperation: entry.userOp,
+        transactionHash,
+        blockHash: txReceipt.blockHash,
+        blockNumber: txReceipt.blockNumber,
+        includedAt: now,
+        receipt: {
+          userOpHash: entry.userOpHash,
+          entryPoint,
+          sender: event.args.sender,
+          nonce: toHex(event.args.nonce),
+          paymaster: event.args.paymaster,
+          actualGasCost: toHex(event.args.actualGasCost),
+          actualGasUsed: toHex(event.args.actualGasUsed),
+          success: event.args.success,
+          reason:
+            revert?.eventName === "UserOperationRevertReason"
+              ? revert.args.revertReason
+              : undefined,
+          logs: logsOfOperation(txReceipt.logs, entryPoint, event.logIndex),
+          receipt: {
+            transactionHash,
+            transactionIndex: toHex(txReceipt.transactionIndex),
+            blockHash: txReceipt.blockHash,
+            blockNumber: toHex(txReceipt.blockNumber),
+            from: txReceipt.from,
+            to: txReceipt.to,
+            gasUsed: toHex(txReceipt.gasUsed),
+            effectiveGasPrice: toHex(txReceipt.effectiveGasPrice),
+            status: "0x1"
+          }
+        }
+      })
+      mempool.remove(entry.userOpHash)
+      hashes.push(entry.userOpHash)
+    }
+
+    return hashes
+  }
+
+  const bundleOnce = async (): Promise<Hex[]> => {
+    // Re-validate: state may have changed since the op entered the mempool
+    const entries: MempoolEntry[] = []
+    for (const entry of mempool.next(config.maxBundleSize)) {
+      try {
+        await simulateValidation(publicClient, entryPoint, entry.userOp)
+        entries.push(entry)
+      } catch (err) {
+        drop(entry, errorMessage(err))
+      }
+    }
+
+    // A FailedOp while estimating names the offending op: drop it and retry without it
+    while (entries.length > 0) {
+      const call = {
+        address: entryPoint,
+        abi: ENTRYPOINT_BUNDLER_ABI,
+        functionName: "handleOps",
+        args: [entries.map((e) => toEntryPointUserOp(e.userOp)), config.beneficiary],
+        account: walletClient.account
+      } as const
+
+      let gas: bigint
+      try {
+        gas = await publicClient.estimateContractGas(call)
+      } catch (err) {
+        const failed = failedOpError(err)
+        if (!failed || !entries[failed.opIndex]) throw err
+        drop(entries[failed.opIndex], failed.message)
+        entries.splice(failed.opIndex, 1)
+        continue
+      }
+
+      const transactionHash = await walletClient.writeContract({
+        ...call,
+        chain: walletClient.chain,
+        gas: (gas * HANDLE_OPS_GAS_MULTIPLIER_PERCENT) / 100n
+      })
+      console.log(
+        `${YELLOW}[BUNDLE]${RESET} handleOps with ${entries.length} op(s) → ${transactionHash}`
+      )
+
+      const hashes = await recordIncluded(entries, transactionHash)
+      console.log(`${GREEN}[INCLUDED]${RESET} ${hashes.length} op(s) in ${transactionHash}`)
+      return hashes
+    }
+
+    return []
+  }
+
+  // One bundle at a time: concurrent callers share the running one
+  const sendBundle = () => {
+    bundling ??= bundleOnce().finally(() => {
+      bundling = undefined
+    })
+    return bundling
+  }
+
+  return {
+    sendUserOperation,
+    sendBundle,
+
+    getUserOperationReceipt: (userOpHash) => included.get(userOpHash)?.receipt ?? null,
+
+    getUserOperationByHash(userOpHash) {
+      const done = included.get(userOpHash)
+      if (done) {
+        return {
+          userOperation: done.userOperation,
+          entryPoint,
+          transactionHash: done.transactionHash,
+          blockHash: done.blockHash,
+          blockNumber: toHex(done.blockNumber)
+        }
+      }
+
+      const pending = mempool.get(userOpHash)
+      if (!pending) return null
+      return {
+        userOperation: pending.userOp,
+        entryPoint,
+        transactionHash: null,
+        blockHash: null,
+        blockNumber: null
+      }
+    },
+
+    dumpMempool: () => mempool.dump(),
+
+    start(intervalMs) {
+      running = true
+      const tick = async () => {
+        if (mempool.size > 0) {
+          await sendBundle().catch((err) => {
+            console.log(`${RED}[BUNDLE FAILED]${RESET} ${errorMessage(err)}`)
+          })
+        }
+        if (running) timer = setTimeout(tick, intervalMs)
+      }
+      timer = setTimeout(tick, intervalMs)
+    },
+
+    stop() {
+      running = false
+      clearTimeout(timer)
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import * as dotenv from "dotenv"
+
+dotenv.config()
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http"
+import type { Hex } from "aa-demo-sdk"
+import { createPublicClient, createWalletClient, defineChain, http, toHex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { createBundler } from "./bundler"
+import {
+  CYAN,
+  envAddress,
+  envHex,
+  envInteger,
+  envValue,
+  errorMessage,
+  GREEN,
+  METHOD_NOT_FOUND,
+  RED,
+  RESET,
+  RpcError,
+  YELLOW
+} from "./utils"
+
+// ============================================================================
+// ENV & CONFIG
+// ============================================================================
+const PORT = envInteger(process.env.PORT, "PORT") ?? 4337
+const RPC_URL = envValue(process.env.RPC_URL, "RPC_URL")
+const ENTRYPOINT = envAddress(process.env.SC_ENTRYPOINT_ADDRESS, "SC_ENTRYPOINT_ADDRESS")
+// Key sending handleOps: it needs ETH for gas, repaid by the ops to BENEFICIARY
+const BUNDLER_ACCOUNT = privateKeyToAccount(
+  envHex(process.env.BUNDLER_PRIVATE_KEY, "BUNDLER_PRIVATE_KEY")
+)
+const BENEFICIARY = process.env.BENEFICIARY
+  ? envAddress(process.env.BENEFICIARY, "BENEFICIARY")
+  : BUNDLER_ACCOUNT.address
+// 0 disables automatic bundling (use debug_bundler_sendBundleNow)
+const BUNDLE_INTERVAL_MS = envInteger(process.env.BUNDLE_INTERVAL_MS, "BUNDLE_INTERVAL_MS") ?? 1000
+const MAX_BUNDLE_SIZE = envInteger(process.env.MAX_BUNDLE_SIZE, "MAX_BUNDLE_SIZE") ?? 10
+const MAX_MEMPOOL_SIZE = envInteger(process.env.MAX_MEMPOOL_SIZE, "MAX_MEMPOOL_SIZE") ?? 1000
+
+// Requests bigger than this are not UserOperations
+const MAX_BODY_BYTES = 64 * 1024
+
+type Handler = (params: unknown[]) => Promise<unknown>
+type RpcRequest = { id?: unknown; method?: unknown; params?: unknown }
+
+// ============================================================================
+// HTTP / JSON-RPC
+// ============================================================================
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    req.setEncoding("utf8")
+    req.on("data", (chunk: string) => {
+      body += chunk
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"))
+        req.destroy()
+      }
+    })
+    req.on("end", () => resolve(body))
+    req.on("error", reject)
+  })
+}
+
+function send(res: ServerResponse, status: number, payload?: unknown) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Content-Type": "application/json"
+  })
+  res.end(payload === undefined ? undefined : JSON.stringify(payload))
+}
+
+async function main() {
+  // The chain id comes from the node, so the same service runs on anvil or Scroll Sepolia
+  const probe = createPublicClient({ transport: http(RPC_URL) })
+  const chainId = await probe.getChainId()
+  const chain = defineChain({
+    id: chainId,
+    name: `chain ${chainId}`,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [RPC_URL] } }
+  })
+
+  const publicClient = createPublicClient({ chain, transport: http(RPC_URL) })
+  const walletClient = createWalletClient({
+    chain,
+    transport: http(RPC_URL),
+    account: BUNDLER_ACCOUNT
+  })
+
+  const bundler = createBundler({
+    publicClient,
+    walletClient,
+    entryPoint: ENTRYPOINT,
+    chainId: BigInt(chainId),
+    beneficiary: BENEFICIARY,
+    maxBundleSize: MAX_BUNDLE_SIZE,
+    maxMempoolSize: MAX_MEMPOOL_SIZE
+  })
+
+  const handlers: Record<string, Handler> = {
+    eth_chainId: async () => toHex(chainId),
+    eth_supportedEntryPoints: async () => [ENTRYPOINT],
+    eth_sendUserOperation: (params) => bundler.sendUserOperation(params),
+    eth_getUserOperationReceipt: async ([hash]) => bundler.getUserOperationReceipt(hash as Hex),
+    eth_getUserOperationByHash: async ([hash]) => bundler.getUserOperationByHash(hash as Hex),
+    // eth-infinitism debug namespace, handy in tests
+    debug_bundler_sendBundleNow: () => bundler.sendBundle(),
+    debug_bundler_dumpMempool: async () => bundler.dumpMempool().map((entry) => entry.userOp)
+  }
+
+  const handleRpc = async (request: RpcRequest) => {
+    const id = request.id ?? null
+    const method = String(request.method)
+    const params = Array.isArray(request.params) ? request.params : []
+
+    const handler = handlers[method]
+    try {
+      // eth_estimateUserOperationGas is not implemented: clients fall back to fixed limits
+      if (!handler) throw new RpcError(METHOD_NOT_FOUND, `Method ${method} not supported`)
+      return { jsonrpc: "2.0", id, result: await handler(params) }
+    } catch (err) {
+      const code = err instanceof RpcError ? err.code : -32603
+      const data = err instanceof RpcError ? err.data : undefined
+      console.log(`${RED}[${method}] rejected (${code}):${RESET} ${errorMessage(err)}`)
+      return { jsonrpc: "2.0", id, error: { code, message: errorMessage(err), data } }
+    }
+  }
+
+  const server = createServer(async (req, res) => {
+    if (req.method === "OPTIONS") return send(res, 204)
+    if (req.method !== "POST") return send(res, 405, { error: "Use POST (JSON-RPC)" })
+
+    let request: RpcRequest
+    try {
+      request = JSON.parse(await readBody(req)) as RpcRequest
+    } catch {
+      return send(res, 400, {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32700, message: "Parse error" }
+      })
+    }
+
+    send(res, 200, await handleRpc(request))
+  })
+
+  if (BUNDLE_INTERVAL_MS > 0) bundler.start(BUNDLE_INTERVAL_MS)
+
+  const shutdown = () => {
+    bundler.stop()
+    server.close()
+  }
+  process.once("SIGINT", shutdown)
+  process.once("SIGTERM", shutdown)
+
+  server.listen(PORT, () => {
+    console.log(`
+${CYAN}===============================================================
+AA DEMO BUNDLER (EntryPoint v0.6)
+===============================================================${RESET}
+
+Listening on http://localhost:${PORT}
+
+RPC:          ${RPC_URL} (chain id ${chainId})
+EntryPoint:   ${ENTRYPOINT}
+Bundler EOA:  ${BUNDLER_ACCOUNT.address}
+Beneficiary:  ${BENEFICIARY}
+Bundling:     ${BUNDLE_INTERVAL_MS > 0 ? `every ${BUNDLE_INTERVAL_MS}ms` : `${YELLOW}manual (debug_bundler_sendBundleNow)${RESET}`}, up to ${MAX_BUNDLE_SIZE} op(s)
+${GREEN}Methods: eth_sendUserOperation, eth_getUserOperationReceipt, eth_getUserOperationByHash,
+         eth_supportedEntryPoints, eth_chainId, debug_bundler_sendBundleNow, debug_bundler_dumpMempool${RESET}
+`)
+  })
+}
+
+main().catch((err: unknown) => {
+  console.error(`${RED}Bundler failed to start:${RESET}`, err)
+  process.exitCode = 1
+})
@@ -0,0 +1,104 @@
+import type { Address, Hex, UserOperation } from "aa-demo-sdk"
+import { INVALID_PARAMS, RpcError } from "./utils"
+
+// A replacement (same sender + nonce) must raise both fees by at least 10%
+const REPLACEMENT_FEE_BUMP_PERCENT = 110n
+
+export interface MempoolEntry {
+  userOpHash: Hex
+  userOp: UserOperation
+  // Unix ms, used to bundle oldest first
+  receivedAt: number
+}
+
+export interface Mempool {
+  add(entry: MempoolEntry): void
+  remove(userOpHash: Hex): void
+  get(userOpHash: Hex): MempoolEntry | undefined
+  /** Whether an op of `sender` with this exact nonce is pending. */
+  hasNonce(sender: Address, nonce: bigint): boolean
+  /** Oldest entries first, at most one per sender (its lowest nonce). */
+  next(maxCount: number): MempoolEntry[]
+  dump(): MempoolEntry[]
+  readonly size: number
+}
+
+function senderNonceKey(sender: Address, nonce: Hex | bigint): string {
+  return `${sender.toLowerCase()}:${BigInt(nonce)}`
+}
+
+function bumped(previous: Hex, next: Hex): boolean {
+  return BigInt(next) * 100n >= BigInt(previous) * REPLACEMENT_FEE_BUMP_PERCENT
+}
+
+/**
+ * In-memory mempool of validated (or queued, see `createBundler`) UserOperations, keyed by
+ * userOpHash.
+ * A second op with the same sender and nonce replaces the first one only when it bumps
+ * both `maxFeePerGas` and `maxPriorityFeePerGas` by 10%.
+ */
+export function createMempool(maxSize: number): Mempool {
+  const byHash = new Map<Hex, MempoolEntry>()
+  const bySenderNonce = new Map<string, Hex>()
+
+  return {
+    add(entry) {
+      if (byHash.has(entry.userOpHash)) {
+        throw new RpcError(INVALID_PARAMS, "UserOperation already in the mempool")
+      }
+
+      const key = senderNonceKey(entry.userOp.sender, entry.userOp.nonce)
+      const existingHash = bySenderNonce.get(key)
+      const existing = existingHash ? byHash.get(existingHash) : undefined
+      if (existing) {
+        const replaces =
+          bumped(existing.userOp.maxFeePerGas, entry.userOp.maxFeePerGas) &&
+          bumped(existing.userOp.maxPriorityFeePerGas, entry.userOp.maxPriorityFeePerGas)
+        if (!replaces) {
+          throw new RpcError(
+            INVALID_PARAMS,
+            "A UserOperation with this sender and nonce is already pending: raise both fees by 10% to replace it"
+          )
+        }
+        byHash.delete(existing.userOpHash)
+      } else if (byHash.size >= maxSize) {
+        throw new RpcError(INVALID_PARAMS, "Mempool is full, retry later")
+      }
+
+      byHash.set(entry.userOpHash, entry)
+      bySenderNonce.set(key, entry.userOpHash)
+    },
+
+    remove(userOpHash) {
+      const entry = byHash.get(userOpHash)
+      if (!entry) return
+      byHash.delete(userOpHash)
+      bySenderNonce.delete(senderNonceKey(entry.userOp.sender, entry.userOp.nonce))
+    },
+
+    get: (userOpHash) => byHash.get(userOpHash),
+
+    hasNonce: (sender, nonce) => bySenderNonce.has(senderNonceKey(sender, nonce)),
+
+    next(maxCount) {
+      const lowestPerSender = new Map<string, MempoolEntry>()
+      for (const entry of byHash.values()) {
+        const sender = entry.userOp.sender.toLowerCase()
+        const current = lowestPerSender.get(sender)
+        if (!current || BigInt(entry.userOp.nonce) < BigInt(current.userOp.nonce)) {
+          lowestPerSender.set(sender, entry)
+        }
+      }
+
+      return [...lowestPerSender.values()]
+        .sort((a, b) => a.receivedAt - b.receivedAt)
+        .slice(0, maxCount)
+    },
+
+    dump: () => [...byHash.values()],
+
+    get size() {
+      return byHash.size
+    }
+  }
+}
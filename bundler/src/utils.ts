@@ -0,0 +1,60 @@
+import type { Address, Hex } from "aa-demo-sdk"
+import { isAddress } from "viem"
+
+// Colors
+export const CYAN = "\x1b[36m"
+export const GREEN = "\x1b[32m"
+export const YELLOW = "\x1b[33m"
+export const RED = "\x1b[31m"
+export const RESET = "\x1b[0m"
+
+// ---------------------- ENV HELPERS ----------------------
+export function envAddress(v: string | undefined, name: string): Address {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  if (!isAddress(v)) throw new Error(`Invalid address in ${name}: ${v}`)
+  return v as Address
+}
+
+export function envHex(v: string | undefined, name: string): Hex {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  if (!v.startsWith("0x")) throw new Error(`${name} must start with 0x`)
+  return v as Hex
+}
+
+export function envValue(v: string | undefined, name: string): string {
+  if (!v) throw new Error(`Missing env var: ${name}`)
+  return v
+}
+
+// Optional non-negative integer; undefined lets the default apply.
+export function envInteger(v: string | undefined, name: string): number | undefined {
+  if (!v) return undefined
+  const n = Number(v)
+  if (!Number.isInteger(n) || n < 0) throw new Error(`Invalid integer in ${name}: ${v}`)
+  return n
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+// ---------------------- JSON-RPC ERRORS ----------------------
+// ERC-4337 bundler codes, decoded by the SDK into the matching BundlerError subclass.
+export const INVALID_PARAMS = -32602
+export const METHOD_NOT_FOUND = -32601
+export const REJECTED_BY_ENTRYPOINT = -32500
+export const REJECTED_BY_PAYMASTER = -32501
+export const OUT_OF_TIME_RANGE = -32503
+export const INVALID_SIGNATURE = -32507
+
+export class RpcError extends Error {
+  readonly code: number
+  readonly data?: unknown
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message)
+    this.name = "RpcError"
+    this.code = code
+    this.data = data
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  type Address,
+  type ContractReader,
+  type EntryPointUserOperation,
+  type Hex,
+  toEntryPointUserOp,
+  type UserOperation
+} from "aa-demo-sdk"
+import { BaseError, ContractFunctionRevertedError, isAddress, isHex } from "viem"
+import { ENTRYPOINT_BUNDLER_ABI } from "./abi"
+import {
+  INVALID_PARAMS,
+  INVALID_SIGNATURE,
+  OUT_OF_TIME_RANGE,
+  REJECTED_BY_ENTRYPOINT,
+  REJECTED_BY_PAYMASTER,
+  RpcError
+} from "./utils"
+
+// Ops expiring sooner than this could not be included in time
+const MIN_VALIDITY_SECONDS = 30n
+
+const USER_OP_FIELDS = [
+  "sender",
+  "nonce",
+  "initCode",
+  "callData",
+  "callGasLimit",
+  "verificationGasLimit",
+  "preVerificationGas",
+  "maxFeePerGas",
+  "maxPriorityFeePerGas",
+  "paymasterAndData",
+  "signature"
+] as const
+
+// Relevant part of the EntryPoint ValidationResult
+export interface ValidationResult {
+  preOpGas: bigint
+  prefund: bigint
+  validAfter: number
+  validUntil: number
+}
+
+// ---------------------- PARAMS ----------------------
+
+/**
+ * Checks that the param is a complete v0.6 UserOperation in RPC (hex) format.
+ */
+export function parseUserOperation(value: unknown): UserOperation {
+  if (!value || typeof value !== "object") {
+    throw new RpcError(INVALID_PARAMS, "userOp must be an object")
+  }
+
+  const op = value as Record<string, unknown>
+  for (const field of USER_OP_FIELDS) {
+    const v = op[field]
+    if (typeof v !== "string" || !isHex(v)) {
+      throw new RpcError(INVALID_PARAMS, `userOp.${field} must be a hex string`)
+    }
+  }
+  if (!isAddress(op.sender as string)) {
+    throw new RpcError(INVALID_PARAMS, "userOp.sender must be an address")
+  }
+
+  return op as unknown as UserOperation
+}
+
+export function checkEntryPoint(expected: Address, entryPoint: unknown) {
+  if (typeof entryPoint !== "string" || entryPoint.toLowerCase() !== expected.toLowerCase()) {
+    throw new RpcError(INVALID_PARAMS, `Unsupported EntryPoint: ${String(entryPoint)}`)
+  }
+}
+
+// ---------------------- SIMULATION ----------------------
+
+function revertOf(err: unknown): ContractFunctionRevertedError | undefined {
+  if (!(err instanceof BaseError)) return undefined
+  const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError)
+  return reverted instanceof ContractFunctionRevertedError ? reverted : undefined
+}
+
+/**
+ * Maps an EntryPoint `FailedOp(opIndex, reason)` revert into the ERC-4337 error code:
+ * AA3x reasons come from the paymaster (-32501), everything else from the account or
+ * factory (-32500). Returns undefined for any other error.
+ */
+export function failedOpError(err: unknown): (RpcError & { opIndex: number }) | undefined {
+  const reverted = revertOf(err)
+  if (reverted?.data?.errorName !== "FailedOp") return undefined
+
+  const [opIndex, reason] = reverted.data.args as [bigint, string]
+  const code = reason.startsWith("AA3") ? REJECTED_BY_PAYMASTER : REJECTED_BY_ENTRYPOINT
+  return Object.assign(new RpcError(code, `FailedOp: ${reason}`), { opIndex: Number(opIndex) })
+}
+
+/**
+ * Runs `EntryPoint.simulateValidation` (which always reverts) and decodes the result.
+ * Rejects with the ERC-4337 error code when validation fails, the signature is invalid
+ * or the validity window is already over / not started yet.
+ */
+export async function simulateValidation(
+  publicClient: ContractReader,
+  entryPoint: Address,
+  userOp: UserOperation,
+  now = BigInt(Math.floor(Date.now() / 1000))
+): Promise<ValidationResult> {
+  const op: EntryPointUserOperation = toEntryPointUserOp(userOp)
+
+  let reverted: ContractFunctionRevertedError | undefined
+  try {
+    await publicClient.readContract({
+      address: entryPoint,
+      abi: ENTRYPOINT_BUNDLER_ABI,
+      functionName: "simulateValidation",
+      args: [op]
+    })
+  } catch (err) {
+    const failed = failedOpError(err)
+    if (failed) throw failed
+    reverted = revertOf(err)
+    if (!reverted) throw err
+  }
+
+  const result = reverted?.data
+  if (
+    result?.errorName !== "ValidationResult" &&
+    result?.errorName !== "ValidationResultWithAggregation"
+  ) {
+    throw new RpcError(
+      REJECTED_BY_ENTRYPOINT,
+      `simulateValidation did not return a ValidationResult (${result?.errorName ?? "no revert"})`
+    )
+  }
+
+  const [returnInfo] = result.args as [
+    {
+      preOpGas: bigint
+      prefund: bigint
+      sigFailed: boolean
+      validAfter: number
+      validUntil: number
+      paymasterContext: Hex
+    }
+  ]
+
+  if (returnInfo.sigFailed) {
+    throw new RpcError(INVALID_SIGNATURE, "Invalid UserOperation signature or paymaster signature")
+  }
+  if (BigInt(returnInfo.validAfter) > now) {
+    throw new RpcError(OUT_OF_TIME_RANGE, `UserOperation not valid before ${returnInfo.validAfter}`)
+  }
+  if (returnInfo.validUntil !== 0 && BigInt(returnInfo.validUntil) < now + MIN_VALIDITY_SECONDS) {
+    throw new RpcError(OUT_OF_TIME_RANGE, `UserOperation expires at ${returnInfo.validUntil}`)
+  }
+
+  return {
+    preOpGas: returnInfo.preOpGas,
+    prefund: returnInfo.prefund,
+    validAfter: returnInfo.validAfter,
+    validUntil: returnInfo.validUntil
+  }
+}
@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+// Only here so `forge build` emits out/EntryPoint.sol/EntryPoint.json for the harness.
+import {EntryPoint} from "account-abstraction/core/EntryPoint.sol";
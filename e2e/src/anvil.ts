@@ -0,0 +1,58 @@
+import type { ChildProcess } from "node:child_process"
+import { createPublicClient, createWalletClient, defineChain, type Hex, http } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { REPO_ROOT, rpcAnswers, startChild, stopChild } from "./utils"
+
+// The clients hard-code Scroll Sepolia (chain id 534351) in their hashes and
+// paymaster signatures, so the local node reuses that chain id.
+export const CHAIN = defineChain({
+  id: 534351,
+  name: "Scroll Sepolia (anvil)",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: ["http://127.0.0.1:8545"] } }
+})
+
+export interface LocalChain {
+  rpcUrl: string
+  publicClient: ReturnType<typeof createChainClient>
+  walletFor(privateKey: Hex): ReturnType<typeof createChainWallet>
+  stop(): void
+}
+
+function createChainClient(rpcUrl: string) {
+  return createPublicClient({ chain: CHAIN, transport: http(rpcUrl) })
+}
+
+function createChainWallet(rpcUrl: string, privateKey: Hex) {
+  return createWalletClient({
+    chain: CHAIN,
+    transport: http(rpcUrl),
+    account: privateKeyToAccount(privateKey)
+  })
+}
+
+/**
+ * Boots anvil with the Scroll Sepolia chain id and instant mining.
+ * The node is stopped through the returned `stop()` (by PID).
+ */
+export async function startAnvil(port: number): Promise<LocalChain> {
+  const rpcUrl = `http://127.0.0.1:${port}`
+
+  const child: ChildProcess = await startChild(
+    "anvil",
+    ["--port", String(port), "--chain-id", String(CHAIN.id), "--silent"],
+    {
+      cwd: REPO_ROOT,
+      timeoutMs: 15_000,
+      label: "anvil",
+      isReady: () => rpcAnswers(rpcUrl, "eth_chainId")
+    }
+  )
+
+  return {
+    rpcUrl,
+    publicClient: createChainClient(rpcUrl),
+    walletFor: (privateKey) => createChainWallet(rpcUrl, privateKey),
+    stop: () => stopChild(child)
+  }
+}
@@ -0,0 +1,287 @@
+import { createServer, type IncomingMessage, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { join } from "node:path"
+import type { UserOperation } from "aa-demo-sdk"
+import {
+  type Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  type Hex,
+  parseEventLogs,
+  toHex
+} from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import type { LocalChain } from "./anvil"
+import {
+  ANVIL_KEYS,
+  CYAN,
+  errorMessage,
+  RED,
+  REPO_ROOT,
+  RESET,
+  readArtifact,
+  rpcAnswers,
+  startChild,
+  stopChild
+} from "./utils"
+
+// Gas limit of every handleOps transaction (one op per bundle)
+const HANDLE_OPS_GAS = 10_000_000n
+
+// JSON-RPC error codes decoded by the SDK (see sdk/src/errors.ts)
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+const REJECTED_BY_ENTRYPOINT = -32500
+const REJECTED_BY_PAYMASTER = -32501
+
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+interface StoredOperation {
+  userOperation: UserOperation
+  transactionHash: Hex
+  blockHash: Hex
+  blockNumber: bigint
+  receipt: Record<string, unknown>
+}
+
+export interface LocalBundler {
+  url: string
+  close(): Promise<void>
+}
+
+function toEntryPointOp(op: UserOperation) {
+  return {
+    ...op,
+    nonce: BigInt(op.nonce),
+    callGasLimit: BigInt(op.callGasLimit),
+    verificationGasLimit: BigInt(op.verificationGasLimit),
+    preVerificationGas: BigInt(op.preVerificationGas),
+    maxFeePerGas: BigInt(op.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(op.maxPriorityFeePerGas)
+  }
+}
+
+// EntryPoint FailedOp(opIndex, reason) → the AAxx reason string
+function failedOpReason(err: unknown): string | undefined {
+  if (!(err instanceof BaseError)) return undefined
+  const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError)
+  if (!(reverted instanceof ContractFunctionRevertedError)) return undefined
+  if (reverted.data?.errorName !== "FailedOp") return undefined
+  return String(reverted.data.args?.[1])
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    req.setEncoding("utf8")
+    req.on("data", (chunk: string) => {
+      body += chunk
+    })
+    req.on("end", () => resolve(body))
+    req.on("error", reject)
+  })
+}
+
+/**
+ * Minimal in-process ERC-4337 bundler for the local chain: every
+ * `eth_sendUserOperation` is simulated through `handleOps` (a FailedOp becomes a
+ * -32500 / -32501 error carrying the AAxx reason), then sent right away as a
+ * one-op bundle. `eth_estimateUserOperationGas` is deliberately unsupported, so
+ * the clients exercise their fallback gas limits.
+ */
+export async function startLocalBundler(
+  chain: LocalChain,
+  entryPoint: Address,
+  port: number
+): Promise<LocalBundler> {
+  const entryPointAbi = readArtifact("e2e/contracts", "EntryPoint").abi
+  const wallet = chain.walletFor(ANVIL_KEYS.bundler)
+  const beneficiary = privateKeyToAccount(ANVIL_KEYS.bundler).address
+
+  const operations = new Map<Hex, StoredOperation>()
+
+  const sendUserOperation = async (params: unknown[]): Promise<Hex> => {
+    const [op, ep] = params as [UserOperation, Address]
+    if (!op?.sender || !ep) throw new RpcError(INVALID_PARAMS, "Expected [userOp, entryPoint]")
+    if (ep.toLowerCase() !== entryPoint.toLowerCase()) {
+      throw new RpcError(INVALID_PARAMS, `Unsupported EntryPoint ${ep}`)
+    }
+
+    const entryPointOp = toEntryPointOp(op)
+    const userOpHash = (await chain.publicClient.readContract({
+      address: entryPoint,
+      abi: entryPointAbi,
+      functionName: "getUserOpHash",
+      args: [entryPointOp]
+    })) as Hex
+
+    const call = {
+      address: entryPoint,
+      abi: entryPointAbi,
+      functionName: "handleOps",
+      args: [[entryPointOp], beneficiary],
+      gas: HANDLE_OPS_GAS
+    } as const
+
+    try {
+      await chain.publicClient.simulateContract({ ...call, account: wallet.account })
+    } catch (err) {
+      const reason = failedOpReason(err)
+      if (!reason) throw err
+      const code = reason.startsWith("AA3") ? REJECTED_BY_PAYMASTER : REJECTED_BY_ENTRYPOINT
+      throw new RpcError(code, `FailedOp: ${reason}`)
+    }
+
+    const transactionHash = await wallet.writeContract(call)
+    const txReceipt = await chain.publicClient.waitForTransactionReceipt({
+      hash: transactionHash
+    })
+
+    const event = parseEventLogs({
+      abi: entryPointAbi,
+      eventName: "UserOperationEvent",
+      logs: txReceipt.logs
+    }).find((log) => (log.args as { userOpHash: Hex }).userOpHash === userOpHash)
+    if (!event) throw new Error(`handleOps ${transactionHash} emitted no UserOperationEvent`)
+
+    const args = event.args as {
+      sender: Address
+      paymaster: Address
+      nonce: bigint
+      success: boolean
+      actualGasCost: bigint
+      actualGasUsed: bigint
+    }
+
+    operations.set(userOpHash, {
+      userOperation: op,
+      transactionHash,
+      blockHash: txReceipt.blockHash,
+      blockNumber: txReceipt.blockNumber,
+      receipt: {
+        userOpHash,
+        entryPoint,
+        sender: args.sender,
+        nonce: toHex(args.nonce),
+        paymaster: args.paymaster,
+        actualGasCost: toHex(args.actualGasCost),
+        actualGasUsed: toHex(args.actualGasUsed),
+        success: args.success,
+        logs: txReceipt.logs.map(({ address, topics, data }) => ({ address, topics, data })),
+        receipt: {
+          transactionHash,
+          blockHash: txReceipt.blockHash,
+          blockNumber: toHex(txReceipt.blockNumber),
+          gasUsed: toHex(txReceipt.gasUsed),
+          status: txReceipt.status
+        }
+      }
+    })
+
+    console.log(
+      `${CYAN}[bundler]${RESET} ${userOpHash} included in ${transactionHash} (success: ${args.success})`
+    )
+    return userOpHash
+  }
+
+  // One op at a time: parallel handleOps would race on the bundler EOA nonce
+  let queue: Promise<unknown> = Promise.resolve()
+  const sendSerialized = (params: unknown[]) => {
+    const run = queue.then(() => sendUserOperation(params))
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const handlers: Record<string, (params: unknown[]) => Promise<unknown>> = {
+    eth_chainId: async () => toHex(chain.publicClient.chain.id),
+    eth_supportedEntryPoints: async () => [entryPoint],
+    eth_sendUserOperation: sendSerialized,
+    eth_getUserOperationReceipt: async ([hash]) => operations.get(hash as Hex)?.receipt ?? null,
+    eth_getUserOperationByHash: async ([hash]) => {
+      const stored = operations.get(hash as Hex)
+      if (!stored) return null
+      return {
+        userOperation: stored.userOperation,
+        entryPoint,
+        transactionHash: stored.transactionHash,
+        blockHash: stored.blockHash,
+        blockNumber: toHex(stored.blockNumber)
+      }
+    }
+  }
+
+  const server: Server = createServer(async (req, res) => {
+    let id: unknown = null
+    let payload: unknown
+    try {
+      const request = JSON.parse(await readBody(req)) as {
+        id?: unknown
+        method?: string
+        params?: unknown[]
+      }
+      id = request.id ?? null
+
+      const handler = handlers[String(request.method)]
+      if (!handler) throw new RpcError(METHOD_NOT_FOUND, `Method ${request.method} not supported`)
+
+      payload = { jsonrpc: "2.0", id, result: await handler(request.params ?? []) }
+    } catch (err) {
+      const code = err instanceof RpcError ? err.code : -32603
+      console.log(`${RED}[bundler] error (${code}):${RESET} ${errorMessage(err)}`)
+      payload = { jsonrpc: "2.0", id, error: { code, message: errorMessage(err) } }
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" })
+    res.end(JSON.stringify(payload))
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve))
+  const { port: boundPort } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    close: () => new Promise((resolve) => server.close(() => resolve()))
+  }
+}
+
+/**
+ * Runs the standalone bundler service (bundler/) instead, so the flows also cover its
+ * simulateValidation → mempool → handleOps path (E2E_BUNDLER=service).
+ */
+export async function startBundlerService(
+  chain: LocalChain,
+  entryPoint: Address,
+  port: number
+): Promise<LocalBundler> {
+  const url = `http://127.0.0.1:${port}`
+  const child = await startChild(
+    process.execPath,
+    ["-r", "ts-node/register/transpile-only", "src/index.ts"],
+    {
+      cwd: join(REPO_ROOT, "bundler"),
+      env: {
+        PORT: String(port),
+        RPC_URL: chain.rpcUrl,
+        SC_ENTRYPOINT_ADDRESS: entryPoint,
+        BUNDLER_PRIVATE_KEY: ANVIL_KEYS.bundler,
+        BENEFICIARY: "",
+        BUNDLE_INTERVAL_MS: "200"
+      },
+      timeoutMs: 60_000,
+      label: "bundler",
+      isReady: () => rpcAnswers(url, "eth_chainId")
+    }
+  )
+
+  return {
+    url,
+    close: async () => stopChild(child)
+  }
+}
@@ -0,0 +1,185 @@
+import { join } from "node:path"
+import { type Address, createTestClient, http, parseEther } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import type { LocalChain } from "./anvil"
+import {
+  ANVIL_KEYS,
+  type Artifact,
+  CYAN,
+  GREEN,
+  REPO_ROOT,
+  RESET,
+  readArtifact,
+  runCommand
+} from "./utils"
+
+// Address hard-coded in every Deploy.s.sol and example_env
+export const ENTRYPOINT_ADDRESS: Address = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789"
+
+// Forge projects built before deploying (e2e/contracts only wraps the vendored EntryPoint)
+export const CONTRACT_PROJECTS = [
+  "e2e/contracts",
+  "01-simple/contracts",
+  "02-paymaster/contracts",
+  "03-social/contracts"
+]
+
+// ETH deposited in the EntryPoint for each paymaster
+const PAYMASTER_DEPOSIT = parseEther("1")
+
+export interface Deployment01 {
+  demoLogic: Address
+  account: Address
+}
+
+export interface Deployment02 extends Deployment01 {
+  paymaster: Address
+}
+
+export interface Deployment03 {
+  demoLogic: Address
+  factory: Address
+  paymaster: Address
+}
+
+// ---------------------- BUILD ----------------------
+export async function buildContracts() {
+  for (const project of CONTRACT_PROJECTS) {
+    console.log(`${CYAN}[FORGE BUILD]${RESET} ${project}`)
+    await runCommand("forge", ["build"], {
+      cwd: join(REPO_ROOT, project),
+      timeoutMs: 600_000,
+      label: "forge"
+    })
+  }
+}
+
+// ---------------------- DEPLOY HELPERS ----------------------
+async function deploy(
+  chain: LocalChain,
+  artifact: Artifact,
+  args: readonly unknown[],
+  name: string
+): Promise<Address> {
+  const wallet = chain.walletFor(ANVIL_KEYS.deployer)
+  const hash = await wallet.deployContract({ abi: artifact.abi, bytecode: artifact.bytecode, args })
+  const receipt = await chain.publicClient.waitForTransactionReceipt({ hash })
+  if (!receipt.contractAddress) throw new Error(`${name} deployment failed (tx ${hash})`)
+
+  console.log(`${GREEN}${name}${RESET} deployed at ${receipt.contractAddress}`)
+  return receipt.contractAddress
+}
+
+async function depositForPaymaster(chain: LocalChain, project: string, paymaster: Address) {
+  const wallet = chain.walletFor(ANVIL_KEYS.deployer)
+  const hash = await wallet.writeContract({
+    address: paymaster,
+    abi: readArtifact(project, "DemoPaymaster").abi,
+    functionName: "deposit",
+    value: PAYMASTER_DEPOSIT
+  })
+  await chain.publicClient.waitForTransactionReceipt({ hash })
+}
+
+// Sends ETH from the deployer (e.g. to a smart account making transfers)
+export async function fund(chain: LocalChain, to: Address, value: bigint) {
+  const wallet = chain.walletFor(ANVIL_KEYS.deployer)
+  const hash = await wallet.sendTransaction({ to, value })
+  await chain.publicClient.waitForTransactionReceipt({ hash })
+}
+
+// ---------------------- DEPLOYMENTS ----------------------
+/**
+ * Deploys the vendored EntryPoint v0.6 and moves its code to the canonical address,
+ * so the clients run with the same SC_ENTRYPOINT_ADDRESS as on Scroll Sepolia.
+ * (EntryPoint v0.6 has no constructor-initialized storage; its only immutable is the
+ * SenderCreator deployed alongside, which stays valid.)
+ */
+export async function deployEntryPoint(chain: LocalChain): Promise<Address> {
+  const deployed = await deploy(
+    chain,
+    readArtifact("e2e/contracts", "EntryPoint"),
+    [],
+    "EntryPoint (staging)"
+  )
+
+  const code = await chain.publicClient.getCode({ address: deployed })
+  if (!code) throw new Error("EntryPoint has no runtime code")
+
+  const testClient = createTestClient({ mode: "anvil", transport: http(chain.rpcUrl) })
+  await testClient.setCode({ address: ENTRYPOINT_ADDRESS, bytecode: code })
+
+  console.log(`${GREEN}EntryPoint${RESET} code installed at ${ENTRYPOINT_ADDRESS}`)
+  return ENTRYPOINT_ADDRESS
+}
+
+// Same contracts as 01-simple/contracts/script/Deploy.s.sol
+export async function deploy01(chain: LocalChain): Promise<Deployment01> {
+  const owner = privateKeyToAccount(ANVIL_KEYS.owner).address
+  const project = "01-simple/contracts"
+
+  return {
+    demoLogic: await deploy(chain, readArtifact(project, "DemoLogic"), [], "01 DemoLogic"),
+    account: await deploy(
+      chain,
+      readArtifact(project, "DemoAccount"),
+      [owner, ENTRYPOINT_ADDRESS],
+      "01 DemoAccount"
+    )
+  }
+}
+
+// Same contracts as 02-paymaster/contracts/script/Deploy.s.sol, plus the paymaster deposit
+export async function deploy02(chain: LocalChain): Promise<Deployment02> {
+  const owner = privateKeyToAccount(ANVIL_KEYS.owner).address
+  const paymasterSigner = privateKeyToAccount(ANVIL_KEYS.deployer).address
+  const project = "02-paymaster/contracts"
+
+  const deployment: Deployment02 = {
+    demoLogic: await deploy(chain, readArtifact(project, "DemoLogic"), [], "02 DemoLogic"),
+    account: await deploy(
+      chain,
+      readArtifact(project, "DemoAccount"),
+      [owner, ENTRYPOINT_ADDRESS],
+      "02 DemoAccount"
+    ),
+    paymaster: await deploy(
+      chain,
+      readArtifact(project, "DemoPaymaster"),
+      [ENTRYPOINT_ADDRESS, paymasterSigner],
+      "02 DemoPaymaster"
+    )
+  }
+
+  await depositForPaymaster(chain, project, deployment.paymaster)
+  return deployment
+}
+
+// Same contracts as 03-social/contracts/script/Deploy.s.sol, plus the paymaster deposit
+export async function deploy03(chain: LocalChain): Promise<Deployment03> {
+  const paymasterSigner = privateKeyToAccount(ANVIL_KEYS.deployer).address
+  const project = "03-social/contracts"
+
+  const deployment: Deployment03 = {
+    demoLogic: await deploy(chain, readArtifact(project, "DemoLogic"), [], "03 DemoLogic"),
+    factory: await deploy(chain, readArtifact(project, "AccountFactory"), [], "03 AccountFactory"),
+    paymaster: await deploy(
+      chain,
+      readArtifact(project, "DemoPaymaster"),
+      [ENTRYPOINT_ADDRESS, paymasterSigner],
+      "03 DemoPaymaster"
+    )
+  }
+
+  await depositForPaymaster(chain, project, deployment.paymaster)
+  return deployment
+}
+
+/** Reads DemoLogic.count() of any of the three demos. */
+export async function readCount(chain: LocalChain, demoLogic: Address): Promise<bigint> {
+  return (await chain.publicClient.readContract({
+    address: demoLogic,
+    abi: readArtifact("01-simple/contracts", "DemoLogic").abi,
+    functionName: "getCount"
+  })) as bigint
+}
@@ -0,0 +1,1425 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from "node:crypto"
+import { mkdirSync, writeFileSync } from "node:fs"
+import { createServer } from "node:http"
+import { join } from "node:path"
+import {
+  accountAddressCalculator,
+  BundlerError,
+  cancelRecoveryCall,
+  canonicalUserOpHasher,
+  ETH_TRANSFER_SELECTOR,
+  encodeCalls,
+  encodeExecute,
+  encodeExecuteRecovery,
+  encodeStartRecovery,
+  encodeWebAuthnSignature,
+  type GasLimits,
+  type GasPrices,
+  hashSessionGrant,
+  type P256PublicKey,
+  parseP256PublicKey,
+  passkeyOwnerSetupCalls,
+  RECOVERY_SIGNER,
+  readRecoveryState,
+  recoveryTypedData,
+  revokeSessionCall,
+  rpcPaymasterSponsor,
+  type SessionGrant,
+  type SignedAccountBinding,
+  SmartAccountClient,
+  sessionDummySignature,
+  sessionKeySigner,
+  sessionPermission,
+  setGuardiansCall,
+  signSessionGrant,
+  verifyAccountBinding,
+  WEBAUTHN_DUMMY_SIGNATURE,
+  WEBAUTHN_VERIFICATION_GAS,
+  type WebAuthnAssertion,
+  webAuthnSigner
+} from "aa-demo-sdk"
+import {
+  type Address,
+  bytesToHex,
+  createTestClient,
+  encodeFunctionData,
+  type Hex,
+  hashMessage,
+  hexToBytes,
+  http,
+  keccak256,
+  parseAbi,
+  parseEther,
+  parseGwei,
+  stringToBytes
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { CHAIN, type LocalChain } from "./anvil"
+import type { LocalBundler } from "./bundler"
+import { deploy01, deploy02, deploy03, ENTRYPOINT_ADDRESS, fund, readCount } from "./deploy"
+import {
+  ANVIL_KEYS,
+  assertEqual,
+  CYAN,
+  REPO_ROOT,
+  RESET,
+  readArtifact,
+  rpcAnswers,
+  runCommand,
+  startChild,
+  stopChild
+} from "./utils"
+
+export interface FlowContext {
+  chain: LocalChain
+  bundler: LocalBundler
+  // Scratch directory for generated policy files
+  workDir: string
+}
+
+export interface Flow {
+  name: string
+  run(ctx: FlowContext): Promise<void>
+}
+
+// The client receipt wait gives up quickly: both local bundlers include ops within a second
+const RECEIPT_TIMEOUT_MS = "30000"
+
+// Same fallback limits as the 03 web client (generous enough for the initCode deployment)
+const SOCIAL_FALLBACK_GAS_LIMITS: GasLimits = {
+  callGasLimit: 0x350000n,
+  verificationGasLimit: 0x150000n,
+  preVerificationGas: 0x40000n
+}
+
+// Same as the 03 web client in passkey mode: anvil has no RIP-7212 precompile (P-256 is
+// verified in Solidity)
+const PASSKEY_FALLBACK_GAS_LIMITS: GasLimits = {
+  ...SOCIAL_FALLBACK_GAS_LIMITS,
+  verificationGasLimit: 0x300000n
+}
+
+const ACCOUNT_FACTORY_ABI = parseAbi([
+  "function createAccount(string uuidString, bytes32 backendSalt, address entryPoint, address initialOwner) returns (address)",
+  "function getAddress(string uuidString, bytes32 backendSalt, address entryPoint) view returns (address)",
+  "function getPasskeyOwnerAddress(bytes32 qx, bytes32 qy) view returns (address)"
+])
+
+// Session key parts of the 03 DemoAccount (setOwner: a call no grant may make), and its owner
+const SESSION_ACCOUNT_ABI = parseAbi([
+  "struct SessionPermission { address target; bytes4 selector; }",
+  "struct SessionGrant { address sessionKey; uint48 validAfter; uint48 validUntil; uint256 spendLimit; SessionPermission[] permissions; }",
+  "function hashSessionGrant(SessionGrant grant) view returns (bytes32)",
+  "function sessions(bytes32 grantHash) view returns (address approvedBy, bool revoked, uint256 spent)",
+  "function setOwner(address newOwner)",
+  "function owner() view returns (address)"
+])
+
+const INCREMENT_CALL: Hex = encodeFunctionData({
+  abi: parseAbi(["function increment()"]),
+  functionName: "increment"
+})
+
+// EntryPoint v0.6 StakeManager view of the paymaster deposit and stake
+const DEPOSIT_INFO_ABI = parseAbi([
+  "function getDepositInfo(address account) view returns ((uint112 deposit, bool staked, uint112 stake, uint32 unstakeDelaySec, uint48 withdrawTime) info)"
+])
+
+// Env shared by the 01 and 02 clients. Optional knobs are set to "" so that a
+// developer's own client/.env (loaded by dotenv, which never overrides) cannot leak in.
+function clientEnv(ctx: FlowContext, demoLogic: Address, account: Address) {
+  return {
+    SCROLL_RPC: ctx.chain.rpcUrl,
+    BUNDLER_URL: ctx.bundler.url,
+    SC_ENTRYPOINT_ADDRESS: ENTRYPOINT_ADDRESS,
+    SC_DEMOLOGIC_ADDRESS: demoLogic,
+    SC_ACCOUNT_ADDRESS: account,
+    PRIVATE_KEY: ANVIL_KEYS.owner,
+    LEGACY_USER_OP_HASH: "false",
+    NONCE_KEY: "",
+    GAS_PRICE_STRATEGY: "fee-history",
+    GAS_PRICE_TIER: "standard",
+    FIXED_MAX_FEE_PER_GAS: "",
+    FIXED_MAX_PRIORITY_FEE_PER_GAS: "",
+    CALL_GAS_MULTIPLIER: "",
+    VERIFICATION_GAS_MULTIPLIER: "",
+    PRE_VERIFICATION_GAS_MULTIPLIER: "",
+    RECEIPT_TIMEOUT_MS
+  }
+}
+
+// Runs a demo client exactly as `yarn dev` would, without type-checking it again
+function runClient(dir: string, env: Record<string, string>) {
+  return runCommand(process.execPath, ["-r", "ts-node/register/transpile-only", "src/index.ts"], {
+    cwd: join(REPO_ROOT, dir),
+    env,
+    timeoutMs: 120_000,
+    label: dir
+  })
+}
+
+// The 03-social CLIs (recovery, admin, the deposit watcher), as `yarn <script> <args>` would
+// run them
+function runCli(dir: string, args: string[], env: Record<string, string>, script = "src/index.ts") {
+  return runCommand(process.execPath, ["-r", "ts-node/register/transpile-only", script, ...args], {
+    cwd: join(REPO_ROOT, dir),
+    env,
+    timeoutMs: 120_000,
+    label: dir
+  })
+}
+
+// Only DemoLogic.increment() (and, for 03, the AccountFactory initCode, ETH transfers
+// to `transferTargets`, allowed through the ETH transfer selector, and with `recovery` the
+// guardian recovery ops) is sponsored
+function writePolicy(
+  ctx: FlowContext,
+  name: string,
+  demoLogic: Address,
+  factory?: Address,
+  transferTargets: Address[] = [],
+  recovery = false
+) {
+  const path = join(ctx.workDir, name)
+  const policy = {
+    allow: [
+      { target: demoLogic, selectors: ["increment()"] },
+      ...transferTargets.map((target) => ({ target, selectors: [ETH_TRANSFER_SELECTOR] }))
+    ],
+    deny: { senders: [], targets: [] },
+    factories: factory ? [factory] : [],
+    recovery
+  }
+  writeFileSync(path, JSON.stringify(policy, null, 2))
+  return path
+}
+
+// Software WebAuthn authenticator: returns what navigator.credentials.get would
+// (UP | UV flags, base64url challenge, DER signature) from a node P-256 key
+function softwarePasskey(): {
+  publicKey: P256PublicKey
+  getAssertion(challenge: Hex): Promise<WebAuthnAssertion>
+} {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" })
+  const rpIdHash = createHash("sha256").update("localhost").digest()
+
+  return {
+    publicKey: parseP256PublicKey(bytesToHex(publicKey.export({ type: "spki", format: "der" }))),
+    async getAssertion(challenge) {
+      const authenticatorData = Buffer.concat([rpIdHash, Buffer.from([0x05, 0, 0, 0, 1])])
+      const clientDataJSON = JSON.stringify({
+        type: "webauthn.get",
+        challenge: Buffer.from(hexToBytes(challenge)).toString("base64url"),
+        origin: "http://localhost:5173",
+        crossOrigin: false
+      })
+      const clientDataHash = createHash("sha256").update(clientDataJSON).digest()
+      const signature = sign("sha256", Buffer.concat([authenticatorData, clientDataHash]), {
+        key: privateKey,
+        dsaEncoding: "der"
+      })
+      return {
+        authenticatorData: bytesToHex(authenticatorData),
+        clientDataJSON,
+        signature: bytesToHex(signature)
+      }
+    }
+  }
+}
+
+// Stand-in for an IdP token endpoint (Google, the generic OIDC IdP): each code is redeemed
+// once, only with the client secret and the PKCE verifier matching `challenge`, for an
+// id_token carrying `claims` (unsigned: the auth service relies on TLS to the token
+// endpoint, not on the signature)
+async function startFakeTokenEndpoint(
+  port: number,
+  expected: {
+    codes: string[]
+    challenge: string
+    clientId: string
+    clientSecret: string
+    claims: Record<string, unknown>
+  }
+) {
+  const unused = new Set(expected.codes)
+  const b64 = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url")
+
+  const server = createServer((req, res) => {
+    let body = ""
+    req.on("data", (chunk) => {
+      body += chunk
+    })
+    req.on("end", () => {
+      const form = new URLSearchParams(body)
+      const verifier = form.get("code_verifier") ?? ""
+      const challenge = createHash("sha256").update(verifier).digest("base64url")
+
+      let error: string | undefined
+      if (form.get("client_id") !== expected.clientId) error = "invalid_client"
+      else if (form.get("client_secret") !== expected.clientSecret) error = "invalid_client"
+      else if (challenge !== expected.challenge) error = "invalid_grant"
+      else if (!unused.delete(form.get("code") ?? "")) error = "invalid_grant"
+
+      res.writeHead(error ? 400 : 200, { "Content-Type": "application/json" })
+      res.end(
+        JSON.stringify(
+          error
+            ? { error, error_description: `Fake IdP: ${error}` }
+            : { id_token: `${b64({ alg: "RS256", kid: "e2e" })}.${b64(expected.claims)}.e2e` }
+        )
+      )
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve))
+  return {
+    url: `http://127.0.0.1:${port}/token`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+}
+
+// Stand-in for the mail webhook of the auth service: collects the magic link emails
+async function startMailbox(port: number) {
+  const inbox: { to: string; text: string }[] = []
+  const server = createServer((req, res) => {
+    let body = ""
+    req.on("data", (chunk) => {
+      body += chunk
+    })
+    req.on("end", () => {
+      inbox.push(JSON.parse(body))
+      res.writeHead(204)
+      res.end()
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve))
+  return {
+    url: `http://127.0.0.1:${port}/mail`,
+    // magic_token of the last link mailed to `to`
+    lastToken(to: string) {
+      const mail = inbox.filter((m) => m.to === to).pop()
+      const link = mail?.text.match(/https?:\/\/\S+/)?.[0]
+      return link ? new URL(link).searchParams.get("magic_token") : null
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+}
+
+// Stand-in for the alert webhook of the deposit watcher: collects the alerts it POSTs
+async function startAlertWebhook(port: number) {
+  const alerts: { kind: string; level: string; deposit: string }[] = []
+  const server = createServer((req, res) => {
+    let body = ""
+    req.on("data", (chunk) => {
+      body += chunk
+    })
+    req.on("end", () => {
+      alerts.push(JSON.parse(body))
+      res.writeHead(204)
+      res.end()
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve))
+  return {
+    url: `http://127.0.0.1:${port}/alerts`,
+    // Kinds received since the last call
+    take() {
+      return alerts.splice(0).map((a) => a.kind)
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+}
+
+// Moves the anvil clock (timelocks, unstake delays) and mines a block at the new time
+async function increaseTime(ctx: FlowContext, seconds: number) {
+  const testClient = createTestClient({ mode: "anvil", transport: http(ctx.chain.rpcUrl) })
+  await testClient.increaseTime({ seconds })
+  await testClient.mine({ blocks: 1 })
+}
+
+async function expectIncrement(ctx: FlowContext, demoLogic: Address, before: bigint) {
+  assertEqual(await readCount(ctx.chain, demoLogic), before + 1n, "DemoLogic counter")
+}
+
+// ---------------------- 01-simple ----------------------
+// Account prefunds the EntryPoint itself, no paymaster.
+export const simpleFlow: Flow = {
+  name: "01-simple client",
+  async run(ctx) {
+    const { demoLogic, account } = await deploy01(ctx.chain)
+    const before = await readCount(ctx.chain, demoLogic)
+
+    await runClient("01-simple/client", clientEnv(ctx, demoLogic, account))
+
+    await expectIncrement(ctx, demoLogic, before)
+  }
+}
+
+// ---------------------- 02-paymaster ----------------------
+// Local paymaster signer behind the sponsorship policy.
+export const paymasterFlow: Flow = {
+  name: "02-paymaster client",
+  async run(ctx) {
+    const { demoLogic, account, paymaster } = await deploy02(ctx.chain)
+    const before = await readCount(ctx.chain, demoLogic)
+
+    await runClient("02-paymaster/client", {
+      ...clientEnv(ctx, demoLogic, account),
+      SC_PAYMASTER_ADDRESS: paymaster,
+      PAYMASTER_PRIVATE_KEY: ANVIL_KEYS.deployer,
+      POLICY_FILE: writePolicy(ctx, "policy-02.json", demoLogic),
+      PAYMASTER_VALIDITY_SECONDS: "600"
+    })
+
+    await expectIncrement(ctx, demoLogic, before)
+  }
+}
+
+// ---------------------- 03-social ----------------------
+// The web client cannot run headless, so its flow is replayed with the same SDK calls:
+// counterfactual address → initCode → paymaster service (ERC-7677) → sign → send,
+// then an executeBatch op (increment + ETH transfer) with per-call outcomes and two
+// parallel ops on separate nonce keys.
+export const socialFlow: Flow = {
+  name: "03-social flow + paymaster service",
+  async run(ctx) {
+    const { demoLogic, factory, paymaster } = await deploy03(ctx.chain)
+    const recipient = privateKeyToAccount(generatePrivateKey()).address
+
+    const serviceUrl = "http://127.0.0.1:18787"
+    const service = await startChild(
+      process.execPath,
+      ["-r", "ts-node/register/transpile-only", "src/index.ts"],
+      {
+        cwd: join(REPO_ROOT, "03-social/paymaster-service"),
+        env: {
+          PORT: "18787",
+          CHAIN_ID: String(CHAIN.id),
+          SC_ENTRYPOINT_ADDRESS: ENTRYPOINT_ADDRESS,
+          SC_PAYMASTER_ADDRESS: paymaster,
+          PAYMASTER_SIGNER_PK: ANVIL_KEYS.deployer,
+          POLICY_FILE: writePolicy(ctx, "policy-03.json", demoLogic, factory, [recipient]),
+          PAYMASTER_VALIDITY_SECONDS: "600"
+        },
+        timeoutMs: 60_000,
+        label: "paymaster-service",
+        isReady: () => rpcAnswers(serviceUrl, "pm_getPaymasterStubData")
+      }
+    )
+
+    try {
+      // A fresh owner each run, like a first social login
+      const owner = privateKeyToAccount(generatePrivateKey())
+      const uuidString = "e2e-user"
+      const backendSalt = keccak256(stringToBytes("e2e-backend-salt"))
+
+      const sender = (await ctx.chain.publicClient.readContract({
+        address: factory,
+        abi: ACCOUNT_FACTORY_ABI,
+        functionName: "getAddress",
+        args: [uuidString, backendSalt, ENTRYPOINT_ADDRESS]
+      })) as Address
+      console.log(`${CYAN}[03]${RESET} counterfactual account ${sender}`)
+
+      // The offline CREATE2 formula (SDK + compiled DemoAccount) must match the factory
+      const offlineAddress = accountAddressCalculator({
+        factory,
+        entryPoint: ENTRYPOINT_ADDRESS,
+        creationCode: readArtifact("03-social/contracts", "DemoAccount").bytecode
+      })
+      assertEqual(offlineAddress(uuidString, backendSalt), sender, "Offline counterfactual address")
+
+      const aa = new SmartAccountClient({
+        publicClient: ctx.chain.publicClient,
+        bundlerUrl: ctx.bundler.url,
+        entryPoint: ENTRYPOINT_ADDRESS,
+        sender,
+        signer: owner,
+        hashUserOp: canonicalUserOpHasher({
+          entryPoint: ENTRYPOINT_ADDRESS,
+          chainId: CHAIN.id,
+          crossCheck: ctx.chain.publicClient
+        }),
+        paymaster: rpcPaymasterSponsor({
+          url: serviceUrl,
+          entryPoint: ENTRYPOINT_ADDRESS,
+          chainId: CHAIN.id
+        }),
+        fallbackGasLimits: SOCIAL_FALLBACK_GAS_LIMITS
+      })
+
+      const initCode = (factory +
+        encodeFunctionData({
+          abi: ACCOUNT_FACTORY_ABI,
+          functionName: "createAccount",
+          args: [uuidString, backendSalt, ENTRYPOINT_ADDRESS, owner.address]
+        }).slice(2)) as Hex
+
+      // First op deploys the account through initCode, the second one uses it as is
+      for (const opInitCode of [initCode, "0x" as Hex]) {
+        const before = await readCount(ctx.chain, demoLogic)
+
+        const userOp = await aa.buildUserOp({
+          callData: encodeExecute(demoLogic, 0n, INCREMENT_CALL),
+          initCode: opInitCode
+        })
+        const signed = await aa.sign(await aa.sponsor(userOp))
+        const outcome = await aa.waitForReceipt(await aa.send(signed), {
+          timeoutMs: Number(RECEIPT_TIMEOUT_MS)
+        })
+        assertEqual(outcome.status, "included", "UserOperation outcome")
+
+        await expectIncrement(ctx, demoLogic, before)
+      }
+
+      const code = await ctx.chain.publicClient.getCode({ address: sender })
+      if (!code) throw new Error(`Account ${sender} was not deployed by initCode`)
+
+      // Batch: both calls run atomically in one sponsored op
+      const transfer = parseEther("0.001")
+      await fund(ctx.chain, sender, parseEther("0.01"))
+      const before = await readCount(ctx.chain, demoLogic)
+
+      const batch = await aa.executeCalls(
+        [
+          { target: demoLogic, data: INCREMENT_CALL },
+          { target: recipient, value: transfer }
+        ],
+        { wait: { timeoutMs: Number(RECEIPT_TIMEOUT_MS) } }
+      )
+      assertEqual(batch.outcome.status, "included", "Batch UserOperation outcome")
+      assertEqual(
+        batch.calls.map((c) => c.status).join(","),
+        "succeeded,succeeded",
+        "Batch call outcomes"
+      )
+      await expectIncrement(ctx, demoLogic, before)
+      assertEqual(
+        await ctx.chain.publicClient.getBalance({ address: recipient }),
+        transfer,
+        "Recipient balance"
+      )
+
+      // Two ops in flight at once on separate EntryPoint nonce keys
+      const parallelBefore = await readCount(ctx.chain, demoLogic)
+      const parallel = await Promise.all(
+        [1n, 2n].map((nonceKey) =>
+          aa.executeCalls([{ target: demoLogic, data: INCREMENT_CALL }], {
+            nonceKey,
+            wait: { timeoutMs: Number(RECEIPT_TIMEOUT_MS) }
+          })
+        )
+      )
+      for (const { outcome } of parallel) {
+        assertEqual(outcome.status, "included", "Parallel UserOperation outcome")
+      }
+      assertEqual(
+        await readCount(ctx.chain, demoLogic),
+        parallelBefore + 2n,
+        "DemoLogic counter after parallel ops"
+      )
+    } finally {
+      stopChild(service)
+    }
+  }
+}
+
+// ---------------------- 03-social passkey ----------------------
+// Account owned by a passkey, deployed like the web client does: a bootstrap op signed by a
+// throwaway key (createAccount in initCode, one CREATE2 as ERC-7562 allows) deploys the
+// PasskeyOwner and makes it the owner. Then WebAuthn assertions (software authenticator) as
+// userOp.signature, checked by the PasskeyOwner (ERC-1271). Self-paid, so it does not depend
+// on the paymaster service.
+export const passkeyFlow: Flow = {
+  name: "03-social passkey owner",
+  async run(ctx) {
+    const { demoLogic, factory } = await deploy03(ctx.chain)
+    const passkey = softwarePasskey()
+    const uuidString = "e2e-user:passkey"
+    const backendSalt = keccak256(stringToBytes("e2e-backend-salt"))
+
+    const [sender, passkeyOwner] = await Promise.all([
+      ctx.chain.publicClient.readContract({
+        address: factory,
+        abi: ACCOUNT_FACTORY_ABI,
+        functionName: "getAddress",
+        args: [uuidString, backendSalt, ENTRYPOINT_ADDRESS]
+      }),
+      ctx.chain.publicClient.readContract({
+        address: factory,
+        abi: ACCOUNT_FACTORY_ABI,
+        functionName: "getPasskeyOwnerAddress",
+        args: [passkey.publicKey.x, passkey.publicKey.y]
+      })
+    ])
+    console.log(`${CYAN}[03]${RESET} passkey account ${sender}, PasskeyOwner ${passkeyOwner}`)
+    await fund(ctx.chain, sender, parseEther("1"))
+
+    const clientConfig = {
+      publicClient: ctx.chain.publicClient,
+      bundlerUrl: ctx.bundler.url,
+      entryPoint: ENTRYPOINT_ADDRESS,
+      sender,
+      hashUserOp: canonicalUserOpHasher({ entryPoint: ENTRYPOINT_ADDRESS, chainId: CHAIN.id })
+    }
+    const wait = { timeoutMs: Number(RECEIPT_TIMEOUT_MS) }
+
+    const bootstrapKey = privateKeyToAccount(generatePrivateKey())
+    const bootstrap = new SmartAccountClient({
+      ...clientConfig,
+      signer: bootstrapKey,
+      fallbackGasLimits: SOCIAL_FALLBACK_GAS_LIMITS
+    })
+    const bootstrapOp = await bootstrap.buildUserOp({
+      callData: encodeCalls(
+        passkeyOwnerSetupCalls({
+          factory,
+          account: sender,
+          publicKey: passkey.publicKey,
+          passkeyOwner
+        })
+      ),
+      initCode: (factory +
+        encodeFunctionData({
+          abi: ACCOUNT_FACTORY_ABI,
+          functionName: "createAccount",
+          args: [uuidString, backendSalt, ENTRYPOINT_ADDRESS, bootstrapKey.address]
+        }).slice(2)) as Hex
+    })
+    const bootstrapOutcome = await bootstrap.waitForReceipt(
+      await bootstrap.send(await bootstrap.sponsorAndSign(bootstrapOp)),
+      wait
+    )
+    assertEqual(bootstrapOutcome.status, "included", "Bootstrap UserOperation outcome")
+    assertEqual(
+      (await ctx.chain.publicClient.getCode({ address: passkeyOwner })) !== undefined,
+      true,
+      "PasskeyOwner deployed by the bootstrap"
+    )
+
+    const aa = new SmartAccountClient({
+      ...clientConfig,
+      signer: webAuthnSigner({ address: passkeyOwner, getAssertion: passkey.getAssertion }),
+      fallbackGasLimits: PASSKEY_FALLBACK_GAS_LIMITS,
+      dummySignature: WEBAUTHN_DUMMY_SIGNATURE,
+      extraVerificationGas: WEBAUTHN_VERIFICATION_GAS
+    })
+
+    for (let i = 0; i < 2; i++) {
+      const before = await readCount(ctx.chain, demoLogic)
+      const userOp = await aa.buildUserOp({
+        callData: encodeExecute(demoLogic, 0n, INCREMENT_CALL)
+      })
+      const outcome = await aa.waitForReceipt(await aa.send(await aa.sign(userOp)), wait)
+      assertEqual(outcome.status, "included", "Passkey UserOperation outcome")
+      await expectIncrement(ctx, demoLogic, before)
+    }
+
+    assertEqual(
+      await ctx.chain.publicClient.readContract({
+        address: sender,
+        abi: parseAbi(["function owner() view returns (address)"]),
+        functionName: "owner"
+      }),
+      passkeyOwner,
+      "Passkey account owner"
+    )
+
+    // An assertion from another passkey must fail validation (AA24)
+    const userOp = await aa.buildUserOp({ callData: encodeExecute(demoLogic, 0n, INCREMENT_CALL) })
+    const challenge = hashMessage({ raw: await aa.getUserOpHash(userOp) })
+    const forged = encodeWebAuthnSignature(await softwarePasskey().getAssertion(challenge))
+    const rejection = await aa.send({ ...userOp, signature: forged }).then(
+      () => undefined,
+      (err: unknown) => err
+    )
+    assertEqual(
+      rejection instanceof BundlerError ? rejection.aaCode : String(rejection),
+      "AA24",
+      "Foreign passkey signature rejection"
+    )
+  }
+}
+
+// ---------------------- 03-social session keys ----------------------
+// The owner grants an ephemeral key DemoLogic.increment() and small transfers to one address
+// for an hour. The key then signs alone, only within that scope, until it revokes itself.
+// Its ops are self-paid: their max gas cost counts against the spend limit with the transfers.
+export const sessionFlow: Flow = {
+  name: "03-social session key",
+  async run(ctx) {
+    const { demoLogic, factory } = await deploy03(ctx.chain)
+    const owner = privateKeyToAccount(generatePrivateKey())
+    const sessionKey = privateKeyToAccount(generatePrivateKey())
+    const recipient = privateKeyToAccount(generatePrivateKey()).address
+    const uuidString = "e2e-user:session"
+    const backendSalt = keccak256(stringToBytes("e2e-backend-salt"))
+
+    const sender = await ctx.chain.publicClient.readContract({
+      address: factory,
+      abi: ACCOUNT_FACTORY_ABI,
+      functionName: "getAddress",
+      args: [uuidString, backendSalt, ENTRYPOINT_ADDRESS]
+    })
+    console.log(`${CYAN}[03]${RESET} session account ${sender}, session key ${sessionKey.address}`)
+    await fund(ctx.chain, sender, parseEther("1"))
+
+    const clientConfig = {
+      publicClient: ctx.chain.publicClient,
+      bundlerUrl: ctx.bundler.url,
+      entryPoint: ENTRYPOINT_ADDRESS,
+      sender,
+      hashUserOp: canonicalUserOpHasher({ entryPoint: ENTRYPOINT_ADDRESS, chainId: CHAIN.id }),
+      fallbackGasLimits: SOCIAL_FALLBACK_GAS_LIMITS
+    }
+    const wait = { timeoutMs: Number(RECEIPT_TIMEOUT_MS) }
+
+    // The owner deploys the account with a first increment
+    const aa = new SmartAccountClient({ ...clientConfig, signer: owner })
+    const before = await readCount(ctx.chain, demoLogic)
+    const userOp = await aa.buildUserOp({
+      callData: encodeExecute(demoLogic, 0n, INCREMENT_CALL),
+      initCode: (factory +
+        encodeFunctionData({
+          abi: ACCOUNT_FACTORY_ABI,
+          functionName: "createAccount",
+          args: [uuidString, backendSalt, ENTRYPOINT_ADDRESS, owner.address]
+        }).slice(2)) as Hex
+    })
+    const outcome = await aa.waitForReceipt(await aa.send(await aa.sign(userOp)), wait)
+    assertEqual(outcome.status, "included", "Owner UserOperation outcome")
+    await expectIncrement(ctx, demoLogic, before)
+
+    // One owner signature for the whole session
+    const latest = await ctx.chain.publicClient.getBlock()
+    const grant: SessionGrant = {
+      sessionKey: sessionKey.address,
+      validAfter: 0,
+      validUntil: Number(latest.timestamp) + 3600,
+      spendLimit: parseEther("0.1"),
+      permissions: [
+        sessionPermission(demoLogic, "increment()"),
+        { target: recipient, selector: ETH_TRANSFER_SELECTOR }
+      ]
+    }
+    const domain = { account: sender, chainId: CHAIN.id }
+    const grantHash = hashSessionGrant(grant, domain)
+    assertEqual(
+      await ctx.chain.publicClient.readContract({
+        address: sender,
+        abi: SESSION_ACCOUNT_ABI,
+        functionName: "hashSessionGrant",
+        args: [grant]
+      }),
+      grantHash,
+      "Session grant hash"
+    )
+    const ownerSignature = await signSessionGrant(owner, grant, domain)
+
+    const session = new SmartAccountClient({
+      ...clientConfig,
+      signer: sessionKeySigner({ sessionKey, grant, ownerSignature }),
+      dummySignature: sessionDummySignature(grant, ownerSignature)
+    })
+
+    // In scope: an increment, then an increment + a transfer within the spend limit
+    const transfer = parseEther("0.004")
+    const sessionBefore = await readCount(ctx.chain, demoLogic)
+    for (const calls of [
+      [{ target: demoLogic, data: INCREMENT_CALL }],
+      [
+        { target: demoLogic, data: INCREMENT_CALL },
+        { target: recipient, value: transfer }
+      ]
+    ]) {
+      const result = await session.executeCalls(calls, { wait })
+      assertEqual(result.outcome.status, "included", "Session UserOperation outcome")
+    }
+    assertEqual(
+      await readCount(ctx.chain, demoLogic),
+      sessionBefore + 2n,
+      "DemoLogic counter after session ops"
+    )
+    assertEqual(
+      await ctx.chain.publicClient.getBalance({ address: recipient }),
+      transfer,
+      "Recipient balance"
+    )
+
+    // Out of scope: a call the grant does not list, a self-call, going over the spend limit
+    // with a transfer or with the fees of a self-paid op (the key would be paid them as
+    // beneficiary). Validation reverts: AA23 from the estimation, or from the send
+    // simulation when the bundler does not estimate.
+    const rejected = async (what: string, callData: Hex, gasPrices?: GasPrices) => {
+      const rejection = await session
+        .buildUserOp({ callData, gasPrices })
+        .then((op) => session.sign(op))
+        .then((op) => session.send(op))
+        .then(
+          () => undefined,
+          (err: unknown) => err
+        )
+      assertEqual(
+        rejection instanceof BundlerError ? rejection.aaCode : String(rejection),
+        "AA23",
+        `${what} rejection`
+      )
+    }
+    await rejected("Unlisted target", encodeExecute(owner.address, 1n, "0x"))
+    await rejected(
+      "Self-call",
+      encodeExecute(
+        sender,
+        0n,
+        encodeFunctionData({
+          abi: SESSION_ACCOUNT_ABI,
+          functionName: "setOwner",
+          args: [sessionKey.address]
+        })
+      )
+    )
+    await rejected("Spend limit", encodeExecute(recipient, parseEther("0.1"), "0x"))
+    await rejected("Inflated fee", encodeExecute(demoLogic, 0n, INCREMENT_CALL), {
+      maxFeePerGas: parseGwei("1000"),
+      maxPriorityFeePerGas: parseGwei("1000")
+    })
+
+    // The key revokes its own grant, after which it can do nothing
+    const revoke = await session.executeCalls([revokeSessionCall(sender, grantHash)], { wait })
+    assertEqual(revoke.outcome.status, "included", "Revoke UserOperation outcome")
+    const [, revoked] = await ctx.chain.publicClient.readContract({
+      address: sender,
+      abi: SESSION_ACCOUNT_ABI,
+      functionName: "sessions",
+      args: [grantHash]
+    })
+    assertEqual(revoked, true, "Session revoked")
+    await rejected("Revoked session", encodeExecute(demoLogic, 0n, INCREMENT_CALL))
+  }
+}
+
+// ---------------------- 03-social guardian recovery ----------------------
+// Guardians replace a lost owner through the 03-social/recovery CLI: approvals, start, the
+// timelock (anvil time travel), execute, sponsored by the paymaster service. Also the owner
+// cancel, and ops the account must reject: unsponsored, or with approvals replayed after a
+// start or from a non-guardian.
+export const recoveryFlow: Flow = {
+  name: "03-social guardian recovery",
+  async run(ctx) {
+    const { demoLogic, factory, paymaster } = await deploy03(ctx.chain)
+    const owner = privateKeyToAccount(generatePrivateKey())
+    const newOwner = privateKeyToAccount(generatePrivateKey())
+    const guardianKeys = [generatePrivateKey(), generatePrivateKey(), generatePrivateKey()]
+    const guardians = guardianKeys.map((key) => privateKeyToAccount(key))
+    const uuidString = "e2e-user:recovery"
+    const backendSalt = keccak256(stringToBytes("e2e-backend-salt"))
+    const delay = 3600
+
+    // The validity outlives the time travel over the timelock
+    const serviceUrl = "http://127.0.0.1:18793"
+    const service = await startChild(
+      process.execPath,
+      ["-r", "ts-node/register/transpile-only", "src/index.ts"],
+      {
+        cwd: join(REPO_ROOT, "03-social/paymaster-service"),
+        env: {
+          PORT: "18793",
+          CHAIN_ID: String(CHAIN.id),
+          SC_ENTRYPOINT_ADDRESS: ENTRYPOINT_ADDRESS,
+          SC_PAYMASTER_ADDRESS: paymaster,
+          PAYMASTER_SIGNER_PK: ANVIL_KEYS.deployer,
+          POLICY_FILE: writePolicy(ctx, "policy-recovery.json", demoLogic, factory, [], true),
+          PAYMASTER_VALIDITY_SECONDS: String(2 * delay)
+        },
+        timeoutMs: 60_000,
+        label: "paymaster-service",
+        isReady: () => rpcAnswers(serviceUrl, "pm_getPaymasterStubData")
+      }
+    )
+
+    try {
+      const sender = await ctx.chain.publicClient.readContract({
+        address: factory,
+        abi: ACCOUNT_FACTORY_ABI,
+        functionName: "getAddress",
+        args: [uuidString, backendSalt, ENTRYPOINT_ADDRESS]
+      })
+      console.log(`${CYAN}[03]${RESET} recovery account ${sender}, new owner ${newOwner.address}`)
+      await fund(ctx.chain, sender, parseEther("1"))
+
+      const clientConfig = {
+        publicClient: ctx.chain.publicClient,
+        bundlerUrl: ctx.bundler.url,
+        entryPoint: ENTRYPOINT_ADDRESS,
+        sender,
+        hashUserOp: canonicalUserOpHasher({ entryPoint: ENTRYPOINT_ADDRESS, chainId: CHAIN.id }),
+        fallbackGasLimits: SOCIAL_FALLBACK_GAS_LIMITS
+      }
+      const wait = { timeoutMs: Number(RECEIPT_TIMEOUT_MS) }
+      const recoveryConfig = {
+        ...clientConfig,
+        signer: RECOVERY_SIGNER,
+        dummySignature: "0x" as Hex
+      }
+      const recovery = new SmartAccountClient({
+        ...recoveryConfig,
+        paymaster: rpcPaymasterSponsor({
+          url: serviceUrl,
+          entryPoint: ENTRYPOINT_ADDRESS,
+          chainId: CHAIN.id
+        })
+      })
+
+      // The owner deploys the account and sets 2-of-3 guardians in the same UserOperation
+      const aa = new SmartAccountClient({ ...clientConfig, signer: owner })
+      const userOp = await aa.buildUserOp({
+        callData: encodeCalls([
+          setGuardiansCall(
+            sender,
+            guardians.map((g) => g.address),
+            2n,
+            delay
+          )
+        ]),
+        initCode: (factory +
+          encodeFunctionData({
+            abi: ACCOUNT_FACTORY_ABI,
+            functionName: "createAccount",
+            args: [uuidString, backendSalt, ENTRYPOINT_ADDRESS, owner.address]
+          }).slice(2)) as Hex
+      })
+      const outcome = await aa.waitForReceipt(await aa.send(await aa.sign(userOp)), wait)
+      assertEqual(outcome.status, "included", "setGuardians UserOperation outcome")
+      const state = await readRecoveryState(ctx.chain.publicClient, sender)
+      assertEqual(state.guardians.length, 3, "Guardian count")
+      assertEqual(state.threshold, 2n, "Guardian threshold")
+
+      const cliEnv = {
+        SCROLL_RPC: ctx.chain.rpcUrl,
+        BUNDLER_URL: ctx.bundler.url,
+        SC_ENTRYPOINT_ADDRESS: ENTRYPOINT_ADDRESS,
+        CHAIN_ID: String(CHAIN.id),
+        PAYMASTER_SERVICE_URL: serviceUrl
+      }
+      // Each guardian runs `approve`: stdout is the approval JSON, stderr a one-line log
+      const approve = async (guardianKey: Hex, name: string) => {
+        const output = await runCli("03-social/recovery", ["approve", sender, newOwner.address], {
+          ...cliEnv,
+          GUARDIAN_PK: guardianKey
+        })
+        const lines = output.split("\n")
+        const file = join(ctx.workDir, `${name}.json`)
+        writeFileSync(file, lines.slice(lines.indexOf("{"), lines.lastIndexOf("}") + 1).join("\n"))
+        return file
+      }
+      const fails = (args: string[]) =>
+        runCli("03-social/recovery", args, cliEnv).then(
+          () => false,
+          () => true
+        )
+      // Validation failures surface at send: the local bundler does not estimate
+      const rejectedWith = async (
+        code: string,
+        what: string,
+        callData: Hex,
+        client: SmartAccountClient = recovery
+      ) => {
+        const rejection = await client
+          .buildUserOp({ callData })
+          .then((op) => client.sponsor(op))
+          .then((op) => client.send(op))
+          .then(
+            () => undefined,
+            (err: unknown) => err
+          )
+        assertEqual(
+          rejection instanceof BundlerError ? rejection.aaCode : String(rejection),
+          code,
+          `${what} rejection`
+        )
+      }
+      const signApproval = async (guardianKey: Hex) => {
+        const guardian = privateKeyToAccount(guardianKey)
+        const { nonce } = await readRecoveryState(ctx.chain.publicClient, sender)
+        const request = { account: sender, chainId: CHAIN.id, newOwner: newOwner.address, nonce }
+        return {
+          guardian: guardian.address,
+          signature: await guardian.signTypedData(recoveryTypedData(request))
+        }
+      }
+
+      // Paid by the account, anyone could drain it in fees: a paymaster must sign the op
+      await rejectedWith(
+        "AA23",
+        "Unsponsored recovery op",
+        encodeExecuteRecovery(),
+        new SmartAccountClient(recoveryConfig)
+      )
+
+      // Approvals from a non-guardian count for nothing
+      await rejectedWith(
+        "AA24",
+        "Non-guardian approvals",
+        encodeStartRecovery(newOwner.address, [
+          await signApproval(guardianKeys[0]),
+          await signApproval(generatePrivateKey())
+        ])
+      )
+
+      // One approval is not enough, two start the recovery, which stays timelocked
+      const firstApprovals = [
+        await approve(guardianKeys[0], "guardian-0"),
+        await approve(guardianKeys[1], "guardian-1")
+      ]
+      const staleApprovals = [
+        await signApproval(guardianKeys[0]),
+        await signApproval(guardianKeys[1])
+      ]
+      assertEqual(
+        await fails(["start", sender, newOwner.address, firstApprovals[0]]),
+        true,
+        "Start with 1 of 2 approvals fails"
+      )
+      const balanceBeforeStart = await ctx.chain.publicClient.getBalance({ address: sender })
+      await runCli(
+        "03-social/recovery",
+        ["start", sender, newOwner.address, ...firstApprovals],
+        cliEnv
+      )
+      assertEqual(
+        await ctx.chain.publicClient.getBalance({ address: sender }),
+        balanceBeforeStart,
+        "Account balance after a sponsored start"
+      )
+      assertEqual(
+        (await readRecoveryState(ctx.chain.publicClient, sender)).pending?.newOwner,
+        newOwner.address,
+        "Pending recovery"
+      )
+      assertEqual(await fails(["execute", sender]), true, "Execute before the timelock fails")
+      await rejectedWith("AA22", "Timelocked execute", encodeExecuteRecovery())
+
+      // The owner still has its key and cancels. The approvals were spent by the start (nonce)
+      const cancel = await aa.executeCalls([cancelRecoveryCall(sender)], { wait })
+      assertEqual(cancel.outcome.status, "included", "Cancel UserOperation outcome")
+      assertEqual(
+        (await readRecoveryState(ctx.chain.publicClient, sender)).pending,
+        null,
+        "Pending recovery after cancel"
+      )
+      await rejectedWith(
+        "AA24",
+        "Replayed approvals",
+        encodeStartRecovery(newOwner.address, staleApprovals)
+      )
+
+      // Lost key for real: fresh approvals, relayed this time by the admin CLI in a plain
+      // transaction (the account pays nothing), then executed once the timelock is over
+      const balanceBefore = await ctx.chain.publicClient.getBalance({ address: sender })
+      await runCli(
+        "03-social/admin",
+        [
+          "account",
+          "recover",
+          sender,
+          newOwner.address,
+          await approve(guardianKeys[1], "guardian-1b"),
+          await approve(guardianKeys[2], "guardian-2b"),
+          "--yes"
+        ],
+        { SCROLL_RPC: ctx.chain.rpcUrl, ADMIN_PK: ANVIL_KEYS.deployer }
+      )
+      assertEqual(
+        await ctx.chain.publicClient.getBalance({ address: sender }),
+        balanceBefore,
+        "Account balance after a relayed start"
+      )
+      await increaseTime(ctx, delay + 1)
+      await runCli("03-social/recovery", ["execute", sender], cliEnv)
+      assertEqual(
+        await ctx.chain.publicClient.readContract({
+          address: sender,
+          abi: SESSION_ACCOUNT_ABI,
+          functionName: "owner"
+        }),
+        newOwner.address,
+        "Owner after recovery"
+      )
+
+      // The new owner signs, the old one no longer can
+      const recovered = new SmartAccountClient({ ...clientConfig, signer: newOwner })
+      const before = await readCount(ctx.chain, demoLogic)
+      const increment = await recovered.executeCalls(
+        [{ target: demoLogic, data: INCREMENT_CALL }],
+        {
+          wait
+        }
+      )
+      assertEqual(increment.outcome.status, "included", "New owner UserOperation outcome")
+      await expectIncrement(ctx, demoLogic, before)
+      const oldOwnerRejection = await aa
+        .executeCalls([{ target: demoLogic, data: INCREMENT_CALL }], { wait })
+        .then(
+          () => undefined,
+          (err: unknown) => err
+        )
+      assertEqual(
+        oldOwnerRejection instanceof BundlerError
+          ? oldOwnerRejection.aaCode
+          : String(oldOwnerRejection),
+        "AA24",
+        "Old owner rejection"
+      )
+    } finally {
+      stopChild(service)
+    }
+  }
+}
+
+// ---------------------- 03-social admin CLI ----------------------
+// Paymaster operations through the 03-social/admin CLI, the addresses read from a forge-style
+// broadcast file: deposit, stake, unlock, withdraw-stake after the unstake delay (anvil time
+// travel), withdraw of ETH sent to the contract. Refused: a key that is not the paymaster
+// owner, and a withdraw-stake before the unlock.
+export const adminFlow: Flow = {
+  name: "03-social admin",
+  async run(ctx) {
+    const { demoLogic, factory, paymaster } = await deploy03(ctx.chain)
+    const runDir = join(ctx.workDir, "broadcast", String(CHAIN.id))
+    mkdirSync(runDir, { recursive: true })
+    const created = { DemoLogic: demoLogic, AccountFactory: factory, DemoPaymaster: paymaster }
+    writeFileSync(
+      join(runDir, "run-latest.json"),
+      JSON.stringify({
+        transactions: Object.entries(created).map(([contractName, address]) => ({
+          transactionType: "CREATE",
+          contractName,
+          // forge writes them lowercase
+          contractAddress: address.toLowerCase()
+        }))
+      })
+    )
+
+    const env = {
+      SCROLL_RPC: ctx.chain.rpcUrl,
+      ADMIN_PK: ANVIL_KEYS.deployer,
+      BROADCAST_DIR: join(ctx.workDir, "broadcast"),
+      SC_PAYMASTER_ADDRESS: ""
+    }
+    const admin = (...args: string[]) => runCli("03-social/admin", [...args, "--yes"], env)
+    const fails = (run: Promise<string>) =>
+      run.then(
+        () => false,
+        () => true
+      )
+    const depositInfo = () =>
+      ctx.chain.publicClient.readContract({
+        address: ENTRYPOINT_ADDRESS,
+        abi: DEPOSIT_INFO_ABI,
+        functionName: "getDepositInfo",
+        args: [paymaster]
+      })
+
+    await admin("paymaster", "status")
+    const before = (await depositInfo()).deposit
+    await admin("paymaster", "deposit", "0.05")
+    assertEqual((await depositInfo()).deposit, before + parseEther("0.05"), "Paymaster deposit")
+
+    await admin("paymaster", "add-stake", "0.1", "86400")
+    const staked = await depositInfo()
+    assertEqual(staked.staked, true, "Paymaster staked")
+    assertEqual(staked.stake, parseEther("0.1"), "Paymaster stake")
+    assertEqual(
+      await fails(
+        runCli("03-social/admin", ["paymaster", "unlock-stake", "--yes"], {
+          ...env,
+          ADMIN_PK: ANVIL_KEYS.owner
+        })
+      ),
+      true,
+      "Unlock by a non-owner fails"
+    )
+    assertEqual(
+      await fails(admin("paymaster", "withdraw-stake")),
+      true,
+      "Withdraw-stake before the unlock fails"
+    )
+
+    await admin("paymaster", "unlock-stake")
+    await increaseTime(ctx, 86_400 + 1)
+    const stakeRecipient = privateKeyToAccount(generatePrivateKey()).address
+    await admin("paymaster", "withdraw-stake", stakeRecipient)
+    assertEqual(
+      await ctx.chain.publicClient.getBalance({ address: stakeRecipient }),
+      parseEther("0.1"),
+      "Withdrawn stake"
+    )
+
+    await fund(ctx.chain, paymaster, parseEther("0.02"))
+    const recipient = privateKeyToAccount(generatePrivateKey()).address
+    await admin("paymaster", "withdraw", recipient)
+    assertEqual(
+      await ctx.chain.publicClient.getBalance({ address: recipient }),
+      parseEther("0.02"),
+      "Withdrawn paymaster balance"
+    )
+  }
+}
+
+// ---------------------- 03-social deposit watcher ----------------------
+// One-shot runs of the 03-social/admin deposit watcher (`yarn watch --once`) on a fresh
+// paymaster (1 ETH deposit, no stake) under a 2 ETH minimum: a dry run only alerts, a top-up
+// limited by the cap, a run finding the cap used by the previous one, a top-up to the target,
+// then no low-deposit alert anymore. Alerts are checked at a stand-in webhook.
+export const depositWatcherFlow: Flow = {
+  name: "03-social deposit watcher",
+  async run(ctx) {
+    const { paymaster } = await deploy03(ctx.chain)
+    const webhook = await startAlertWebhook(18792)
+    const env = {
+      SCROLL_RPC: ctx.chain.rpcUrl,
+      SC_PAYMASTER_ADDRESS: paymaster,
+      MIN_DEPOSIT_ETH: "2",
+      MIN_STAKE_ETH: "",
+      ALERT_WEBHOOK_URL: webhook.url,
+      FUNDER_PK: ANVIL_KEYS.owner,
+      TOPUP_TARGET_ETH: "3",
+      TOPUP_CAP_ETH: "5",
+      TOPUP_STATE_FILE: join(ctx.workDir, "topup-state.json"),
+      DRY_RUN: ""
+    }
+    const watch = (overrides: Record<string, string>, ...args: string[]) =>
+      runCli("03-social/admin", ["--once", ...args], { ...env, ...overrides }, "src/watch.ts")
+    const deposit = async () =>
+      (
+        await ctx.chain.publicClient.readContract({
+          address: ENTRYPOINT_ADDRESS,
+          abi: DEPOSIT_INFO_ABI,
+          functionName: "getDepositInfo",
+          args: [paymaster]
+        })
+      ).deposit
+
+    try {
+      await watch({}, "--dry-run")
+      assertEqual(await deposit(), parseEther("1"), "Deposit after the dry run")
+      assertEqual(
+        webhook.take().sort().join(","),
+        "low-deposit,not-staked,top-up-dry-run",
+        "Dry run alerts"
+      )
+
+      await watch({ TOPUP_CAP_ETH: "0.5" })
+      assertEqual(await deposit(), parseEther("1.5"), "Deposit topped up to the cap")
+      assertEqual(webhook.take().includes("top-up"), true, "Capped top-up alert")
+
+      // The cap counts the top-ups of every run, not of one process
+      await watch({ TOPUP_CAP_ETH: "0.5" })
+      assertEqual(await deposit(), parseEther("1.5"), "Deposit once the cap is used")
+      assertEqual(
+        webhook.take().includes("top-up-cap-reached"),
+        true,
+        "Cap reached alert on the next run"
+      )
+
+      await watch({})
+      assertEqual(await deposit(), parseEther("3"), "Deposit topped up to the target")
+      webhook.take()
+
+      await watch({ FUNDER_PK: "" })
+      assertEqual(webhook.take().join(","), "not-staked", "Alerts once the deposit is OK")
+    } finally {
+      await webhook.close()
+    }
+  }
+}
+
+// ---------------------- 03-social auth service ----------------------
+// Logins through the 03-social/auth-service: authorization-code + PKCE exchanges at stand-in
+// Google / generic OIDC token endpoints, and email magic links delivered to a stand-in mail
+// webhook. Each answers a namespaced uuidString with a binding the SDK verifies.
+export const authFlow: Flow = {
+  name: "03-social auth service",
+  async run() {
+    const redirectUri = "http://localhost:5173/"
+    const codeVerifier = randomBytes(32).toString("base64url")
+    const challenge = createHash("sha256").update(codeVerifier).digest("base64url")
+    const nonce = randomBytes(16).toString("base64url")
+    const bindingSigner = privateKeyToAccount(ANVIL_KEYS.deployer).address
+    const now = Math.floor(Date.now() / 1000)
+
+    const google = { clientId: "e2e-client.apps.googleusercontent.com", clientSecret: "e2e-secret" }
+    const corporate = {
+      issuer: "https://idp.e2e.example",
+      clientId: "e2e-corporate-client",
+      clientSecret: "e2e-corporate-secret"
+    }
+
+    const googleIdp = await startFakeTokenEndpoint(18789, {
+      codes: ["code-1", "code-2"],
+      challenge,
+      ...google,
+      claims: {
+        iss: "https://accounts.google.com",
+        aud: google.clientId,
+        sub: "e2e-google-sub",
+        nonce,
+        iat: now,
+        exp: now + 3600
+      }
+    })
+    const corporateIdp = await startFakeTokenEndpoint(18790, {
+      codes: ["corp-code"],
+      challenge,
+      clientId: corporate.clientId,
+      clientSecret: corporate.clientSecret,
+      claims: {
+        iss: corporate.issuer,
+        aud: corporate.clientId,
+        sub: "e2e-corporate-sub",
+        nonce,
+        iat: now,
+        exp: now + 3600
+      }
+    })
+    const mailbox = await startMailbox(18791)
+
+    const serviceUrl = "http://127.0.0.1:18788"
+    let service: Awaited<ReturnType<typeof startChild>> | undefined
+    try {
+      service = await startChild(
+        process.execPath,
+        ["-r", "ts-node/register/transpile-only", "src/index.ts"],
+        {
+          cwd: join(REPO_ROOT, "03-social/auth-service"),
+          env: {
+            PORT: "18788",
+            CHAIN_ID: String(CHAIN.id),
+            GOOGLE_CLIENT_ID: google.clientId,
+            GOOGLE_CLIENT_SECRET: google.clientSecret,
+            GOOGLE_TOKEN_URL: googleIdp.url,
+            OIDC_ISSUER: corporate.issuer,
+            OIDC_CLIENT_ID: corporate.clientId,
+            OIDC_CLIENT_SECRET: corporate.clientSecret,
+            OIDC_TOKEN_URL: corporateIdp.url,
+            EMAIL_LOGIN: "true",
+            EMAIL_WEBHOOK_URL: mailbox.url,
+            OAUTH_REDIRECT_URIS: redirectUri,
+            BINDING_SIGNER_PK: ANVIL_KEYS.deployer,
+            BINDING_TTL_SECONDS: "600"
+          },
+          timeoutMs: 60_000,
+          label: "auth-service",
+          isReady: async () => (await fetch(serviceUrl, { method: "OPTIONS" })).status === 204
+        }
+      )
+
+      const post = async (path: string, body: Record<string, string>) => {
+        const res = await fetch(`${serviceUrl}${path}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body)
+        })
+        return { status: res.status, body: (await res.json()) as Record<string, unknown> }
+      }
+      const exchange = (provider: string, overrides: Record<string, string>) =>
+        post(`/auth/${provider}/exchange`, {
+          code: "code-2",
+          codeVerifier,
+          redirectUri,
+          nonce,
+          variant: "V2",
+          ...overrides
+        })
+      const expectBound = async (
+        login: { status: number; body: Record<string, unknown> },
+        uuidString: string,
+        provider: string
+      ) => {
+        assertEqual(login.status, 200, `${provider} login status`)
+        assertEqual(login.body.uuidString, uuidString, `${provider} uuidString`)
+        const binding = login.body.binding as SignedAccountBinding
+        assertEqual(binding.uuidString, uuidString, `${provider} bound uuidString`)
+        assertEqual(binding.provider, provider, `${provider} binding provider`)
+        assertEqual(
+          await verifyAccountBinding(binding, { chainId: CHAIN.id, signer: bindingSigner }),
+          true,
+          `${provider} binding signature`
+        )
+        console.log(`${CYAN}[03]${RESET} ${binding.uuidString} bound by ${binding.signer}`)
+      }
+
+      // Google
+      const rejections: [string, Record<string, string>, number][] = [
+        ["Unregistered redirect_uri", { redirectUri: "https://evil.example/" }, 400],
+        ["Wrong PKCE verifier", { codeVerifier: randomBytes(32).toString("base64url") }, 401],
+        ["Nonce mismatch", { code: "code-1", nonce: "another-login" }, 401]
+      ]
+      for (const [what, overrides, status] of rejections) {
+        assertEqual((await exchange("google", overrides)).status, status, `${what} status`)
+      }
+      await expectBound(await exchange("google", {}), "e2e-google-sub:V2", "google")
+      // Codes are single-use
+      assertEqual((await exchange("google", {})).status, 401, "Replayed code status")
+
+      // Generic OIDC: users namespaced by issuer
+      await expectBound(
+        await exchange("oidc", { code: "corp-code" }),
+        `oidc:${corporate.issuer}:e2e-corporate-sub:V2`,
+        "oidc"
+      )
+
+      // Email magic links, bound to the nonce of the browser that asked for them
+      const email = "alice@e2e.example"
+      const sendLink = (address: string, linkNonce: string) =>
+        post("/auth/email/start", { email: address, redirectUri, nonce: linkNonce })
+
+      assertEqual(
+        (await post("/auth/email/start", { email, redirectUri: "https://evil.example/", nonce }))
+          .status,
+        400,
+        "Magic link to an unregistered redirect_uri status"
+      )
+      assertEqual(
+        (await sendLink("Alice@E2E.example", nonce)).status,
+        200,
+        "Magic link start status"
+      )
+      const forwarded = mailbox.lastToken(email) ?? ""
+      const verify = (token: string, linkNonce: string) =>
+        post("/auth/email/verify", { token, nonce: linkNonce, variant: "V2" })
+      assertEqual((await verify(forwarded, "other-browser")).status, 401, "Foreign nonce status")
+      // A failed attempt consumes the link
+      assertEqual((await verify(forwarded, nonce)).status, 401, "Burnt link status")
+
+      // One link per address and resend interval
+      assertEqual((await sendLink(email, nonce)).status, 429, "Immediate resend status")
+
+      const other = "bob@e2e.example"
+      await sendLink(other, nonce)
+      const token = mailbox.lastToken(other) ?? ""
+      await expectBound(await verify(token, nonce), `email:${other}:V2`, "email")
+      assertEqual((await verify(token, nonce)).status, 401, "Replayed link status")
+    } finally {
+      stopChild(service)
+      await googleIdp.close()
+      await corporateIdp.close()
+      await mailbox.close()
+    }
+  }
+}
+
+export const FLOWS: Flow[] = [
+  simpleFlow,
+  paymasterFlow,
+  socialFlow,
+  passkeyFlow,
+  sessionFlow,
+  depositWatcherFlow,
+  authFlow,
+  // Last: they move the chain clock ahead
+  recoveryFlow,
+  adminFlow
+]
@@ -0,0 +1,95 @@
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { type LocalChain, startAnvil } from "./anvil"
+import { type LocalBundler, startBundlerService, startLocalBundler } from "./bundler"
+import { buildContracts, deployEntryPoint } from "./deploy"
+import { FLOWS } from "./flows"
+import { CYAN, errorMessage, GREEN, RED, RESET, YELLOW } from "./utils"
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+// Fixed local ports (distinct from anvil / bundler defaults to avoid clashing
+// with a node the developer already runs).
+const ANVIL_PORT = Number(process.env.E2E_ANVIL_PORT ?? 18545)
+const BUNDLER_PORT = Number(process.env.E2E_BUNDLER_PORT ?? 14337)
+// Reuse the existing forge artifacts (out/) instead of running forge build
+const SKIP_BUILD = process.env.E2E_SKIP_BUILD === "true"
+// "service" runs the standalone bundler/ package instead of the in-process one
+const BUNDLER = process.env.E2E_BUNDLER === "service" ? "service" : "in-process"
+// Comma separated subset of flows, matched by prefix (e.g. E2E_FLOWS=01,03)
+const ONLY = process.env.E2E_FLOWS?.split(",").map((s) => s.trim())
+
+type FlowResult = { name: string; ok: boolean; ms: number; error?: string }
+
+// ============================================================================
+// MAIN
+// ============================================================================
+async function main(): Promise<boolean> {
+  console.log(`
+${CYAN}===============================================================
+AA DEMO — LOCAL END-TO-END HARNESS
+===============================================================${RESET}
+anvil (chain id 534351) + EntryPoint v0.6 + ${BUNDLER} bundler
+`)
+
+  if (!SKIP_BUILD) await buildContracts()
+
+  const flows = FLOWS.filter((f) => !ONLY || ONLY.some((prefix) => f.name.startsWith(prefix)))
+  const workDir = mkdtempSync(join(tmpdir(), "aa-e2e-"))
+
+  let chain: LocalChain | undefined
+  let bundler: LocalBundler | undefined
+  const results: FlowResult[] = []
+
+  try {
+    chain = await startAnvil(ANVIL_PORT)
+    const entryPoint = await deployEntryPoint(chain)
+    bundler =
+      BUNDLER === "service"
+        ? await startBundlerService(chain, entryPoint, BUNDLER_PORT)
+        : await startLocalBundler(chain, entryPoint, BUNDLER_PORT)
+    console.log(`${GREEN}Bundler (${BUNDLER})${RESET} listening on ${bundler.url}\n`)
+
+    for (const flow of flows) {
+      console.log(`\n${CYAN}[FLOW]${RESET} ${flow.name}`)
+      const start = Date.now()
+      try {
+        await flow.run({ chain, bundler, workDir })
+        results.push({ name: flow.name, ok: true, ms: Date.now() - start })
+      } catch (err) {
+        console.error(`${RED}[FLOW FAILED]${RESET} ${flow.name}\n`, err)
+        results.push({
+          name: flow.name,
+          ok: false,
+          ms: Date.now() - start,
+          error: errorMessage(err)
+        })
+      }
+    }
+  } finally {
+    await bundler?.close()
+    chain?.stop()
+    rmSync(workDir, { recursive: true, force: true })
+  }
+
+  console.log(`\n${CYAN}===================== E2E RESULTS =====================${RESET}`)
+  for (const r of results) {
+    const status = r.ok ? `${GREEN}PASS${RESET}` : `${RED}FAIL${RESET}`
+    console.log(
+      `${status} ${r.name} (${r.ms}ms)${r.error ? `\n     ${YELLOW}${r.error}${RESET}` : ""}`
+    )
+  }
+
+  return results.length === flows.length && results.every((r) => r.ok)
+}
+
+main()
+  .then((ok) => {
+    process.exitCode = ok ? 0 : 1
+  })
+  .catch((err: unknown) => {
+    console.error(`${RED}E2E harness failed:${RESET}`, err)
+    process.exitCode = 1
+  })
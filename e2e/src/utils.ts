@@ -0,0 +1,165 @@
+import { type ChildProcess, spawn } from "node:child_process"
+import { existsSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+import type { Abi, Hex } from "viem"
+
+// ---------------------- COLORS ----------------------
+export const CYAN = "\x1b[36m"
+export const GREEN = "\x1b[32m"
+export const YELLOW = "\x1b[33m"
+export const MAGENTA = "\x1b[35m"
+export const RED = "\x1b[31m"
+export const RESET = "\x1b[0m"
+
+// ---------------------- PATHS ----------------------
+export const REPO_ROOT = join(__dirname, "..", "..")
+
+// ---------------------- ANVIL ACCOUNTS ----------------------
+// Default anvil mnemonic ("test test ... junk"), funded with 10000 ETH each.
+export const ANVIL_KEYS = {
+  // Deploys every contract and signs paymasterAndData
+  deployer: "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  // Sends handleOps and receives the fees (beneficiary)
+  bundler: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  // Owner of the 01 / 02 smart accounts
+  owner: "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a"
+} as const satisfies Record<string, Hex>
+
+// ---------------------- HELPERS ----------------------
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+export function assertEqual<T>(actual: T, expected: T, what: string) {
+  if (actual !== expected) {
+    throw new Error(`${what}: expected ${String(expected)}, got ${String(actual)}`)
+  }
+}
+
+// ---------------------- ARTIFACTS ----------------------
+export interface Artifact {
+  abi: Abi
+  bytecode: Hex
+}
+
+/**
+ * Reads a Foundry artifact (out/<Contract>.sol/<Contract>.json) of a contracts project.
+ */
+export function readArtifact(project: string, contract: string): Artifact {
+  const path = join(REPO_ROOT, project, "out", `${contract}.sol`, `${contract}.json`)
+  if (!existsSync(path)) {
+    throw new Error(`Missing artifact ${path}: run forge build in ${project}`)
+  }
+
+  const json = JSON.parse(readFileSync(path, "utf8")) as {
+    abi: Abi
+    bytecode: { object: Hex }
+  }
+  return { abi: json.abi, bytecode: json.bytecode.object }
+}
+
+// ---------------------- CHILD PROCESSES ----------------------
+export interface RunOptions {
+  cwd: string
+  env?: Record<string, string>
+  timeoutMs: number
+  // Prefix for every forwarded output line
+  label: string
+}
+
+function forwardOutput(child: ChildProcess, label: string, sink: string[]) {
+  const onData = (chunk: Buffer) => {
+    for (const line of chunk.toString().split("\n")) {
+      if (!line.trim()) continue
+      sink.push(line)
+      console.log(`${MAGENTA}[${label}]${RESET} ${line}`)
+    }
+  }
+  child.stdout?.on("data", onData)
+  child.stderr?.on("data", onData)
+}
+
+/**
+ * Runs a command to completion, forwarding its output. Rejects on a non-zero exit code,
+ * and kills the child (by PID) when it exceeds `timeoutMs`.
+ */
+export function runCommand(command: string, args: string[], opts: RunOptions): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: opts.cwd,
+      env: { ...process.env, ...opts.env }
+    })
+    const output: string[] = []
+    forwardOutput(child, opts.label, output)
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL")
+      reject(new Error(`${opts.label}: timed out after ${opts.timeoutMs}ms`))
+    }, opts.timeoutMs)
+
+    child.on("error", (err) => {
+      clearTimeout(timer)
+      reject(new Error(`${opts.label}: cannot run ${command} (${err.message})`))
+    })
+    child.on("exit", (code) => {
+      clearTimeout(timer)
+      if (code === 0) resolve(output.join("\n"))
+      else reject(new Error(`${opts.label}: ${command} exited with code ${code}`))
+    })
+  })
+}
+
+/**
+ * Starts a long-running child (anvil, paymaster service) and resolves once `isReady`
+ * succeeds. The caller stops it with `stopChild`.
+ */
+export async function startChild(
+  command: string,
+  args: string[],
+  opts: RunOptions & { isReady: () => Promise<boolean> }
+): Promise<ChildProcess> {
+  const child = spawn(command, args, {
+    cwd: opts.cwd,
+    env: { ...process.env, ...opts.env }
+  })
+  forwardOutput(child, opts.label, [])
+
+  let exited = false
+  let spawnError: Error | undefined
+  child.on("exit", () => {
+    exited = true
+  })
+  child.on("error", (err) => {
+    spawnError = err
+  })
+
+  const deadline = Date.now() + opts.timeoutMs
+  while (Date.now() < deadline) {
+    if (spawnError) throw new Error(`${opts.label}: cannot run ${command} (${spawnError.message})`)
+    if (exited) throw new Error(`${opts.label}: ${command} exited before being ready`)
+    if (await opts.isReady().catch(() => false)) return child
+    await sleep(250)
+  }
+
+  stopChild(child)
+  throw new Error(`${opts.label}: not ready after ${opts.timeoutMs}ms`)
+}
+
+/** Stops a child started by this harness (by its PID only). */
+export function stopChild(child: ChildProcess | undefined) {
+  if (child && child.exitCode === null && child.signalCode === null) child.kill("SIGTERM")
+}
+
+/** True once a JSON-RPC endpoint answers `method`. */
+export async function rpcAnswers(url: string, method: string): Promise<boolean> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params: [] })
+  })
+  return res.ok
+}
@@ -0,0 +1,112 @@
+// Minimal EntryPoint v0.6 ABI (nonce + userOpHash)
+export const ENTRYPOINT_ABI = [
+  {
+    name: "getNonce",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "sender", type: "address" },
+      { name: "key", type: "uint192" }
+    ],
+    outputs: [{ type: "uint256" }]
+  },
+  {
+    name: "getUserOpHash",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      {
+        name: "userOp",
+        type: "tuple",
+        components: [
+          { name: "sender", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "initCode", type: "bytes" },
+          { name: "callData", type: "bytes" },
+          { name: "callGasLimit", type: "uint256" },
+          { name: "verificationGasLimit", type: "uint256" },
+          { name: "preVerificationGas", type: "uint256" },
+          { name: "maxFeePerGas", type: "uint256" },
+          { name: "maxPriorityFeePerGas", type: "uint256" },
+          { name: "paymasterAndData", type: "bytes" },
+          { name: "signature", type: "bytes" }
+        ]
+      }
+    ],
+    outputs: [{ type: "bytes32" }]
+  }
+] as const
+
+// SmartAccount.execute / executeBatch ABI
+export const EXECUTE_ABI = [
+  {
+    name: "execute",
+    type: "function",
+    inputs: [
+      { name: "target", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "data", type: "bytes" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    name: "executeBatch",
+    type: "function",
+    inputs: [
+      { name: "targets", type: "address[]" },
+      { name: "values", type: "uint256[]" },
+      { name: "datas", type: "bytes[]" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  }
+] as const
+
+// DemoAccount event emitted once per successful call, in call order
+export const EXECUTED_EVENT = {
+  name: "Executed",
+  type: "event",
+  inputs: [
+    { name: "target", type: "address", indexed: false },
+    { name: "value", type: "uint256", indexed: false },
+    { name: "data", type: "bytes", indexed: false }
+  ]
+} as const
+
+// DemoAccount.executeBatch revert: index of the failing call + its revert data
+export const CALL_FAILED_ERROR = {
+  name: "CallFailed",
+  type: "error",
+  inputs: [
+    { name: "index", type: "uint256" },
+    { name: "reason", type: "bytes" }
+  ]
+} as const
+
+// EntryPoint v0.6 UserOperationEvent (emitted once per executed UserOperation)
+export const USER_OPERATION_EVENT = {
+  name: "UserOperationEvent",
+  type: "event",
+  inputs: [
+    { name: "userOpHash", type: "bytes32", indexed: true },
+    { name: "sender", type: "address", indexed: true },
+    { name: "paymaster", type: "address", indexed: true },
+    { name: "nonce", type: "uint256", indexed: false },
+    { name: "success", type: "bool", indexed: false },
+    { name: "actualGasCost", type: "uint256", indexed: false },
+    { name: "actualGasUsed", type: "uint256", indexed: false }
+  ]
+} as const
+
+// EntryPoint v0.6 UserOperationRevertReason (emitted when the account call reverts)
+export const USER_OPERATION_REVERT_REASON_EVENT = {
+  name: "UserOperationRevertReason",
+  type: "event",
+  inputs: [
+    { name: "userOpHash", type: "bytes32", indexed: true },
+    { name: "sender", type: "address", indexed: true },
+    { name: "nonce", type: "uint256", indexed: false },
+    { name: "revertReason", type: "bytes", indexed: false }
+  ]
+} as const
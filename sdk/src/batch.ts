@@ -0,0 +1,107 @@
+import { decodeErrorResult } from "viem"
+import { CALL_FAILED_ERROR, EXECUTED_EVENT, USER_OPERATION_REVERT_REASON_EVENT } from "./abi"
+import type { UserOperationOutcome } from "./receipt"
+import type { Address, Call, Hex, LogReader } from "./types"
+
+/**
+ * What happened to one call of a UserOperation:
+ * - succeeded:   executed and kept (an `Executed` event was emitted)
+ * - failed:      this call reverted, so the whole batch was rolled back
+ * - rolledBack:  executed fine, but undone because a later call failed
+ * - notExecuted: never ran (after the failing call, op dropped, or reverted outside the calls)
+ */
+export type CallStatus = "succeeded" | "failed" | "rolledBack" | "notExecuted"
+
+export interface CallOutcome {
+  index: number
+  target: Address
+  value: bigint
+  status: CallStatus
+  /** Revert data of the failing call (`failed` only). */
+  revertData?: Hex
+}
+
+// Block + transaction of an included op, from a bundler or log receipt
+function inclusionOf(outcome: UserOperationOutcome) {
+  if (outcome.status === "dropped") return undefined
+  const { transactionHash, blockNumber } = outcome.receipt.receipt ?? {}
+  if (typeof transactionHash !== "string" || blockNumber === undefined) return undefined
+  return {
+    transactionHash: transactionHash.toLowerCase(),
+    blockNumber: BigInt(String(blockNumber))
+  }
+}
+
+// Index of the failing call: CallFailed(index, reason) for executeBatch, call 0 for execute
+function failedCall(revertReason: Hex, callCount: number) {
+  try {
+    const { args } = decodeErrorResult({ abi: [CALL_FAILED_ERROR], data: revertReason })
+    return { index: Number(args[0]), revertData: args[1] }
+  } catch {
+    return callCount === 1 ? { index: 0, revertData: revertReason } : undefined
+  }
+}
+
+/**
+ * Reports per-call outcomes of an op built with `encodeCalls` / `encodeExecuteBatch`, from
+ * the account `Executed` events (included op) or the EntryPoint `UserOperationRevertReason`
+ * (reverted op) of its transaction. Bundlers include at most one op per sender in a
+ * bundle, so the sender events of that transaction all belong to this op.
+ */
+export async function getCallOutcomes(
+  publicClient: LogReader,
+  entryPoint: Address,
+  outcome: UserOperationOutcome,
+  calls: Call[]
+): Promise<CallOutcome[]> {
+  const result = calls.map<CallOutcome>((call, index) => ({
+    index,
+    target: call.target,
+    value: call.value ?? 0n,
+    status: "notExecuted"
+  }))
+
+  const inclusion = inclusionOf(outcome)
+  if (outcome.status === "dropped" || !inclusion) return result
+
+  const range = { fromBlock: inclusion.blockNumber, toBlock: inclusion.blockNumber }
+  const inTransaction = (log: { transactionHash: Hex | null }) =>
+    log.transactionHash?.toLowerCase() === inclusion.transactionHash
+
+  if (outcome.status === "included") {
+    const executed = (
+      await publicClient.getLogs({
+        address: outcome.receipt.sender as Address,
+        event: EXECUTED_EVENT,
+        ...range
+      })
+    ).filter(inTransaction)
+
+    executed.forEach((log, i) => {
+      const { target } = log.args as { target: Address }
+      if (result[i] && target.toLowerCase() === result[i].target.toLowerCase()) {
+        result[i].status = "succeeded"
+      }
+    })
+    return result
+  }
+
+  const [revert] = (
+    await publicClient.getLogs({
+      address: entryPoint,
+      event: USER_OPERATION_REVERT_REASON_EVENT,
+      args: { userOpHash: outcome.receipt.userOpHash },
+      ...range
+    })
+  ).filter(inTransaction)
+  if (!revert) return result
+
+  const { revertReason } = revert.args as { revertReason: Hex }
+  const failed = failedCall(revertReason, calls.length)
+  if (!failed || !result[failed.index]) return result
+
+  for (let i = 0; i < failed.index; i++) result[i].status = "rolledBack"
+  result[failed.index].status = "failed"
+  result[failed.index].revertData = failed.revertData
+  return result
+}
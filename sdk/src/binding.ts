@@ -0,0 +1,89 @@
+import { isAddressEqual, verifyTypedData } from "viem"
+import type { Address, Hex } from "./types"
+
+/**
+ * Statement of a login backend: `uuidString` (the AccountFactory uuid) belongs to the user
+ * it authenticated with `provider`. Times are unix seconds.
+ */
+export interface AccountBinding {
+  uuidString: string
+  provider: string
+  issuedAt: number
+  expiresAt: number
+}
+
+/** Binding plus its EIP-712 signature, as returned to the client (plain JSON). */
+export interface SignedAccountBinding extends AccountBinding {
+  signer: Address
+  signature: Hex
+}
+
+export const ACCOUNT_BINDING_TYPES = {
+  AccountBinding: [
+    { name: "uuidString", type: "string" },
+    { name: "provider", type: "string" },
+    { name: "issuedAt", type: "uint64" },
+    { name: "expiresAt", type: "uint64" }
+  ]
+} as const
+
+/** EIP-712 domain of the bindings: tied to one chain, not to a contract. */
+export function accountBindingDomain(chainId: number) {
+  return { name: "AA Demo Account Binding", version: "1", chainId } as const
+}
+
+// EIP-712 message: uint64 fields as bigint
+function bindingMessage(binding: AccountBinding) {
+  return {
+    uuidString: binding.uuidString,
+    provider: binding.provider,
+    issuedAt: BigInt(binding.issuedAt),
+    expiresAt: BigInt(binding.expiresAt)
+  }
+}
+
+/** Key signing bindings (a viem LocalAccount fits). */
+export interface BindingSigner {
+  address: Address
+  signTypedData(args: {
+    domain: ReturnType<typeof accountBindingDomain>
+    types: typeof ACCOUNT_BINDING_TYPES
+    primaryType: "AccountBinding"
+    message: ReturnType<typeof bindingMessage>
+  }): Promise<Hex>
+}
+
+export async function signAccountBinding(
+  signer: BindingSigner,
+  chainId: number,
+  binding: AccountBinding
+): Promise<SignedAccountBinding> {
+  const signature = await signer.signTypedData({
+    domain: accountBindingDomain(chainId),
+    types: ACCOUNT_BINDING_TYPES,
+    primaryType: "AccountBinding",
+    message: bindingMessage(binding)
+  })
+  return { ...binding, signer: signer.address, signature }
+}
+
+/**
+ * Checks that `signed` was signed by `signer` (the login backend key) for `chainId`
+ * and has not expired. Offline: ECDSA recovery only, no RPC.
+ */
+export async function verifyAccountBinding(
+  signed: SignedAccountBinding,
+  options: { chainId: number; signer: Address; now?: number }
+): Promise<boolean> {
+  const now = Math.floor((options.now ?? Date.now()) / 1000)
+  if (!isAddressEqual(signed.signer, options.signer) || now > signed.expiresAt) return false
+
+  return verifyTypedData({
+    address: options.signer,
+    domain: accountBindingDomain(options.chainId),
+    types: ACCOUNT_BINDING_TYPES,
+    primaryType: "AccountBinding",
+    message: bindingMessage(signed),
+    signature: signed.signature
+  })
+}
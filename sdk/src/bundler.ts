@@ -0,0 +1,148 @@
+import { decodeBundlerError } from "./errors"
+import type {
+  Address,
+  GasLimits,
+  GasPriceTier,
+  GasPriceTiers,
+  Hex,
+  JsonRpcResponse,
+  UserOperation,
+  UserOperationByHash,
+  UserOperationReceipt
+} from "./types"
+
+type RpcValue = bigint | string | number
+
+type RpcGasPrices = { maxFeePerGas: RpcValue; maxPriorityFeePerGas: RpcValue }
+
+type PimlicoGasPriceResult = Partial<Record<GasPriceTier, RpcGasPrices>>
+
+type EstimateUserOperationGasResult = {
+  callGasLimit: RpcValue
+  verificationGasLimit?: RpcValue
+  // Older bundlers (EntryPoint v0.6 era) return `verificationGas`
+  verificationGas?: RpcValue
+  preVerificationGas: RpcValue
+}
+
+/**
+ * Typed ERC-4337 bundler JSON-RPC client.
+ * Every JSON-RPC error is decoded into a BundlerError subclass (see errors.ts).
+ */
+export class BundlerClient {
+  readonly url: string
+
+  private nextRequestId = 1
+
+  constructor(url: string) {
+    this.url = url
+  }
+
+  /**
+   * Sends a JSON-RPC request and returns `result`, throwing a typed error on `error`.
+   */
+  async request<T>(method: string, params: unknown[]): Promise<T> {
+    const body = {
+      jsonrpc: "2.0",
+      id: this.nextRequestId++,
+      method,
+      params
+    }
+
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    })
+
+    let json: JsonRpcResponse<T>
+    try {
+      json = (await res.json()) as JsonRpcResponse<T>
+    } catch {
+      throw decodeBundlerError(method, {
+        code: -32700,
+        message: `Bundler answered HTTP ${res.status} with a non JSON-RPC body`
+      })
+    }
+
+    if (json.error) throw decodeBundlerError(method, json.error)
+    return json.result as T
+  }
+
+  /** Submits a signed UserOperation and returns the userOpHash tracked by the bundler. */
+  async sendUserOperation(userOp: UserOperation, entryPoint: Address): Promise<Hex> {
+    const hash = await this.request<Hex>("eth_sendUserOperation", [userOp, entryPoint])
+
+    if (!hash || typeof hash !== "string") {
+      throw new Error(`Bundler did not return a valid operation hash: ${JSON.stringify(hash)}`)
+    }
+
+    return hash
+  }
+
+  /** Gas limits estimated by the bundler (without safety margins). */
+  async estimateUserOperationGas(userOp: UserOperation, entryPoint: Address): Promise<GasLimits> {
+    const result = await this.request<EstimateUserOperationGasResult>(
+      "eth_estimateUserOperationGas",
+      [userOp, entryPoint]
+    )
+
+    const verificationGasLimit = result?.verificationGasLimit ?? result?.verificationGas
+    if (!result || verificationGasLimit === undefined) {
+      throw new Error(`Bundler returned an invalid gas estimation: ${JSON.stringify(result)}`)
+    }
+
+    return {
+      callGasLimit: BigInt(result.callGasLimit),
+      verificationGasLimit: BigInt(verificationGasLimit),
+      preVerificationGas: BigInt(result.preVerificationGas)
+    }
+  }
+
+  /** The UserOperation as seen by the bundler, or null if unknown. */
+  async getUserOperationByHash(userOpHash: Hex): Promise<UserOperationByHash | null> {
+    return (
+      (await this.request<UserOperationByHash | null>("eth_getUserOperationByHash", [
+        userOpHash
+      ])) ?? null
+    )
+  }
+
+  /** The UserOperation receipt, or null while it is not included yet. */
+  async getUserOperationReceipt(userOpHash: Hex): Promise<UserOperationReceipt | null> {
+    return (
+      (await this.request<UserOperationReceipt | null>("eth_getUserOperationReceipt", [
+        userOpHash
+      ])) ?? null
+    )
+  }
+
+  /** EntryPoints supported by the bundler. */
+  async supportedEntryPoints(): Promise<Address[]> {
+    return this.request<Address[]>("eth_supportedEntryPoints", [])
+  }
+
+  /** Chain id the bundler is connected to. */
+  async chainId(): Promise<bigint> {
+    return BigInt(await this.request<Hex>("eth_chainId", []))
+  }
+
+  /**
+   * All gas price tiers through the Pimlico-specific `pimlico_getUserOperationGasPrice`.
+   * Other bundlers answer it with `MethodNotFoundError`.
+   */
+  async getUserOperationGasPrice(): Promise<GasPriceTiers> {
+    const result = await this.request<PimlicoGasPriceResult>("pimlico_getUserOperationGasPrice", [])
+
+    const tier = (name: GasPriceTier) => {
+      const gp = result?.[name]
+      if (!gp) throw new Error(`Bundler did not return the "${name}" gas price tier`)
+      return {
+        maxFeePerGas: BigInt(gp.maxFeePerGas),
+        maxPriorityFeePerGas: BigInt(gp.maxPriorityFeePerGas)
+      }
+    }
+
+    return { slow: tier("slow"), standard: tier("standard"), fast: tier("fast") }
+  }
+}
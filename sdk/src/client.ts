@@ -0,0 +1,318 @@
+import { ENTRYPOINT_ABI } from "./abi"
+import { type CallOutcome, getCallOutcomes } from "./batch"
+import { BundlerClient } from "./bundler"
+import { encodeCalls } from "./encoding"
+import { MethodNotFoundError } from "./errors"
+import {
+  applyGasMultipliers,
+  DUMMY_SIGNATURE,
+  type GasMultipliers,
+  resolveGasMultipliers
+} from "./gas"
+import { feeHistoryGasPriceStrategy, type GasPriceStrategy } from "./gasPrice"
+import { createNonceManager, type NonceManager } from "./nonce"
+import {
+  type UserOperationOutcome,
+  type WaitForReceiptOptions,
+  waitForUserOperation
+} from "./receipt"
+import type {
+  Address,
+  Call,
+  ChainReader,
+  GasLimits,
+  GasPrices,
+  Hex,
+  PaymasterSponsor,
+  UserOperation,
+  UserOpHasher,
+  UserOpSigner
+} from "./types"
+import { buildUserOperation, DEFAULT_GAS_LIMITS, entryPointUserOpHasher } from "./userOperation"
+
+export interface SmartAccountClientConfig {
+  /** Public client used for EntryPoint reads (nonce, userOpHash, event logs). */
+  publicClient: ChainReader
+  /** ERC-4337 bundler JSON-RPC endpoint. */
+  bundlerUrl: string
+  /** EntryPoint the smart account is bound to. */
+  entryPoint: Address
+  /** Smart account address (UserOperation sender). */
+  sender: Address
+  /** Owner key signing the UserOperation hash. */
+  signer: UserOpSigner
+  /** Hash the account verifies. Defaults to EntryPoint.getUserOpHash. */
+  hashUserOp?: UserOpHasher
+  /** Source of gas prices. Defaults to eth_feeHistory on `publicClient` ("standard" tier). */
+  gasPriceStrategy?: GasPriceStrategy
+  /** Paymaster producing `paymasterAndData`. Omit for self-paid operations. */
+  paymaster?: PaymasterSponsor
+  /** Safety multipliers applied to bundler gas estimations. */
+  gasMultipliers?: Partial<GasMultipliers>
+  /** Limits used only when the bundler does not support gas estimation. */
+  fallbackGasLimits?: GasLimits
+  /** uint192 EntryPoint nonce key used when an op is built without `nonceKey` (default 0). */
+  nonceKey?: bigint
+  /** Placeholder signature used for estimation, shaped like the signer's. Defaults to ECDSA. */
+  dummySignature?: Hex
+  /**
+   * Gas added to the estimated verificationGasLimit, for signature checks the dummy signature
+   * cannot exercise (e.g. the P-256 verification of a passkey, see webauthn.ts).
+   */
+  extraVerificationGas?: bigint
+  /**
+   * In-flight nonce tracking to share with the other clients of `sender` (e.g. one signing
+   * with the owner, one with a session key). Defaults to a tracker of this client only.
+   */
+  nonces?: NonceManager
+}
+
+export interface BuildUserOpParams {
+  callData: Hex
+  initCode?: Hex
+  /** Explicit nonce. When omitted, the next nonce of `nonceKey` is reserved. */
+  nonce?: bigint
+  /** uint192 nonce key: ops on different keys can be in flight at the same time. */
+  nonceKey?: bigint
+  gasPrices?: GasPrices
+  gasLimits?: GasLimits
+}
+
+export interface ExecuteCallsParams extends Omit<BuildUserOpParams, "callData"> {
+  /** Receipt wait options (timeout, backoff, cancellation). */
+  wait?: WaitForReceiptOptions
+}
+
+export interface ExecuteCallsResult {
+  userOpHash: Hex
+  outcome: UserOperationOutcome
+  /** One entry per call, in call order. */
+  calls: CallOutcome[]
+}
+
+/**
+ * Thin client bundling the build → sponsor → sign → send → wait flow
+ * shared by all the demo clients.
+ */
+export class SmartAccountClient {
+  readonly publicClient: ChainReader
+  readonly bundler: BundlerClient
+  readonly entryPoint: Address
+  readonly sender: Address
+  readonly signer: UserOpSigner
+  readonly gasPriceStrategy: GasPriceStrategy
+  /** In-flight nonces per key (see nonce.ts). */
+  readonly nonces: NonceManager
+
+  private readonly nonceKey: bigint
+  // userOpHash → nonce of the ops sent and not settled yet
+  private readonly sentNonces = new Map<Hex, bigint>()
+  private readonly hashUserOp: UserOpHasher
+  private readonly paymaster?: PaymasterSponsor
+  private readonly gasMultipliers: GasMultipliers
+  private readonly fallbackGasLimits: GasLimits
+  private readonly dummySignature: Hex
+  private readonly extraVerificationGas: bigint
+
+  constructor(config: SmartAccountClientConfig) {
+    this.publicClient = config.publicClient
+    this.bundler = new BundlerClient(config.bundlerUrl)
+    this.entryPoint = config.entryPoint
+    this.sender = config.sender
+    this.signer = config.signer
+    this.hashUserOp =
+      config.hashUserOp ?? entryPointUserOpHasher(config.publicClient, config.entryPoint)
+    this.gasPriceStrategy =
+      config.gasPriceStrategy ?? feeHistoryGasPriceStrategy(config.publicClient)
+    this.paymaster = config.paymaster
+    this.gasMultipliers = resolveGasMultipliers(config.gasMultipliers)
+    this.fallbackGasLimits = config.fallbackGasLimits ?? DEFAULT_GAS_LIMITS
+    this.nonceKey = config.nonceKey ?? 0n
+    this.dummySignature = config.dummySignature ?? DUMMY_SIGNATURE
+    this.extraVerificationGas = config.extraVerificationGas ?? 0n
+    this.nonces =
+      config.nonces ?? createNonceManager(config.publicClient, config.entryPoint, config.sender)
+  }
+
+  /** Reads the sender nonce of `key` from the EntryPoint (without reserving it). */
+  async getNonce(key = 0n): Promise<bigint> {
+    return (await this.publicClient.readContract({
+      address: this.entryPoint,
+      abi: ENTRYPOINT_ABI,
+      functionName: "getNonce",
+      args: [this.sender, key]
+    })) as bigint
+  }
+
+  /** Reads gas prices from the configured strategy. */
+  async getGasPrices(): Promise<GasPrices> {
+    return this.gasPriceStrategy.getGasPrices()
+  }
+
+  /**
+   * Estimates gas limits with `eth_estimateUserOperationGas`, using a dummy signature and
+   * stub `paymasterAndData` of the final length, then applies the safety multipliers
+   * (and `extraVerificationGas`).
+   * Falls back to `fallbackGasLimits` only when the bundler does not support estimation.
+   */
+  async estimateGasLimits(userOp: UserOperation): Promise<GasLimits> {
+    const stub: UserOperation = {
+      ...userOp,
+      paymasterAndData: this.paymaster ? await this.paymaster.getStubData(userOp) : "0x",
+      signature: this.dummySignature
+    }
+
+    try {
+      const estimated = await this.bundler.estimateUserOperationGas(stub, this.entryPoint)
+      const limits = applyGasMultipliers(estimated, this.gasMultipliers)
+      return {
+        ...limits,
+        verificationGasLimit: limits.verificationGasLimit + this.extraVerificationGas
+      }
+    } catch (err) {
+      if (err instanceof MethodNotFoundError) return this.fallbackGasLimits
+      throw err
+    }
+  }
+
+  /**
+   * Builds an unsigned UserOperation, reserving the nonce and fetching gas prices and
+   * gas limits when not provided. A reserved nonce is released if the build fails; once
+   * built, it stays reserved until `send` refuses the op or `waitForReceipt` settles it, so
+   * sponsor and sign through `sponsorAndSign` (or call `releaseNonce` for an op dropped).
+   */
+  async buildUserOp(params: BuildUserOpParams): Promise<UserOperation> {
+    if (params.nonce !== undefined) return this.buildWithNonce(params, params.nonce)
+
+    const nonce = await this.nonces.reserve(params.nonceKey ?? this.nonceKey)
+    try {
+      return await this.buildWithNonce(params, nonce)
+    } catch (err) {
+      this.nonces.release(nonce)
+      throw err
+    }
+  }
+
+  private async buildWithNonce(params: BuildUserOpParams, nonce: bigint): Promise<UserOperation> {
+    const gasPrices = params.gasPrices ?? (await this.getGasPrices())
+
+    const build = (gasLimits: GasLimits) =>
+      buildUserOperation({
+        sender: this.sender,
+        nonce,
+        callData: params.callData,
+        initCode: params.initCode,
+        gasLimits,
+        maxFeePerGas: gasPrices.maxFeePerGas,
+        maxPriorityFeePerGas: gasPrices.maxPriorityFeePerGas
+      })
+
+    if (params.gasLimits) return build(params.gasLimits)
+
+    const draft = build(this.fallbackGasLimits)
+    return build(await this.estimateGasLimits(draft))
+  }
+
+  /** Returns the hash the owner signs for this UserOperation. */
+  async getUserOpHash(userOp: UserOperation): Promise<Hex> {
+    return this.hashUserOp(userOp)
+  }
+
+  /**
+   * Fills `paymasterAndData` using the configured paymaster (no-op without one).
+   */
+  async sponsor(userOp: UserOperation): Promise<UserOperation> {
+    if (!this.paymaster) return userOp
+    return { ...userOp, paymasterAndData: await this.paymaster.getData(userOp) }
+  }
+
+  /** Signs the UserOperation hash with the owner key. */
+  async sign(userOp: UserOperation): Promise<UserOperation> {
+    const hash = await this.hashUserOp(userOp)
+    const signature = await this.signer.signMessage({ message: { raw: hash } })
+    return { ...userOp, signature }
+  }
+
+  /**
+   * Sponsors then signs the op. If either fails (sponsorship refused, paymaster service down,
+   * signature prompt cancelled) the nonce reserved by `buildUserOp` is released.
+   */
+  async sponsorAndSign(userOp: UserOperation): Promise<UserOperation> {
+    try {
+      return await this.sign(await this.sponsor(userOp))
+    } catch (err) {
+      this.releaseNonce(userOp)
+      throw err
+    }
+  }
+
+  /**
+   * Frees the nonce reserved by `buildUserOp` for an op that will not be sent, so the next
+   * op on its key reuses the sequence instead of skipping it (AA25).
+   */
+  releaseNonce(userOp: UserOperation) {
+    this.nonces.release(BigInt(userOp.nonce))
+  }
+
+  /**
+   * Submits the UserOperation and returns its userOpHash. A refused op releases its
+   * nonce; an accepted one keeps it until `waitForReceipt` settles.
+   */
+  async send(userOp: UserOperation): Promise<Hex> {
+    const nonce = BigInt(userOp.nonce)
+    try {
+      const userOpHash = await this.bundler.sendUserOperation(userOp, this.entryPoint)
+      this.sentNonces.set(userOpHash, nonce)
+      return userOpHash
+    } catch (err) {
+      this.nonces.release(nonce)
+      throw err
+    }
+  }
+
+  /**
+   * Waits for the UserOperation outcome (included / reverted / dropped) with timeout,
+   * backoff, cancellation and an EntryPoint log fallback (see receipt.ts).
+   */
+  async waitForReceipt(
+    userOpHash: Hex,
+    options?: WaitForReceiptOptions
+  ): Promise<UserOperationOutcome> {
+    try {
+      return await waitForUserOperation(
+        this.bundler,
+        this.publicClient,
+        this.entryPoint,
+        userOpHash,
+        options
+      )
+    } finally {
+      // Also after a timeout / abort: a nonce kept forever would make every later op on
+      // its key skip a sequence (if the op still lands, the next reservation reads it)
+      const nonce = this.sentNonces.get(userOpHash)
+      if (nonce !== undefined) {
+        this.sentNonces.delete(userOpHash)
+        this.nonces.release(nonce)
+      }
+    }
+  }
+
+  /** Per-call outcomes of an op built from `calls` (see batch.ts). */
+  async getCallOutcomes(outcome: UserOperationOutcome, calls: Call[]): Promise<CallOutcome[]> {
+    return getCallOutcomes(this.publicClient, this.entryPoint, outcome, calls)
+  }
+
+  /**
+   * Runs the calls atomically in one UserOperation (`execute` for a single call,
+   * `executeBatch` otherwise): build → sponsor → sign → send → wait, then reports
+   * the outcome of every call.
+   */
+  async executeCalls(calls: Call[], params: ExecuteCallsParams = {}): Promise<ExecuteCallsResult> {
+    const { wait, ...buildParams } = params
+    const userOp = await this.buildUserOp({ ...buildParams, callData: encodeCalls(calls) })
+    const userOpHash = await this.send(await this.sponsorAndSign(userOp))
+    const outcome = await this.waitForReceipt(userOpHash, wait)
+
+    return { userOpHash, outcome, calls: await this.getCallOutcomes(outcome, calls) }
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  concat,
+  encodeAbiParameters,
+  encodePacked,
+  getContractAddress,
+  isHex,
+  keccak256
+} from "viem"
+import type { Address, Hex } from "./types"
+
+/**
+ * `AccountFactory` salt: keccak256(abi.encodePacked(uuidString, backendSalt)).
+ */
+export function accountFactorySalt(uuidString: string, backendSalt: Hex): Hex {
+  return keccak256(encodePacked(["string", "bytes32"], [uuidString, backendSalt]))
+}
+
+/**
+ * keccak256 of the CREATE2 init code: `DemoAccount` creationCode ++ abi.encode(entryPoint).
+ * Depends only on the compiled bytecode and the EntryPoint, so compute it once for bulk use.
+ */
+export function accountInitCodeHash(creationCode: Hex, entryPoint: Address): Hex {
+  return keccak256(concat([creationCode, encodeAbiParameters([{ type: "address" }], [entryPoint])]))
+}
+
+/**
+ * Reads the creation bytecode from a compiled artifact: Foundry (`bytecode.object`)
+ * or Hardhat (`bytecode`) JSON.
+ */
+export function creationCodeFromArtifact(artifact: unknown): Hex {
+  const bytecode = (artifact as { bytecode?: unknown } | null)?.bytecode
+  const code =
+    typeof bytecode === "object" && bytecode !== null
+      ? (bytecode as { object?: unknown }).object
+      : bytecode
+
+  if (typeof code !== "string" || !isHex(code) || code === "0x") {
+    throw new Error("Artifact has no creation bytecode (bytecode.object or bytecode)")
+  }
+  return code
+}
+
+/**
+ * Offline version of `AccountFactory.getAddress(uuidString, backendSalt, entryPoint)`.
+ * Only valid while `creationCode` is the exact bytecode the deployed factory embeds:
+ * any change to DemoAccount (or to the compiler settings) moves every address.
+ */
+export function computeAccountAddress(params: {
+  factory: Address
+  uuidString: string
+  backendSalt: Hex
+  initCodeHash: Hex
+}): Address {
+  return getContractAddress({
+    opcode: "CREATE2",
+    from: params.factory,
+    salt: accountFactorySalt(params.uuidString, params.backendSalt),
+    bytecodeHash: params.initCodeHash
+  })
+}
+
+/**
+ * Returns a calculator for many accounts of one factory (e.g. server-side, in bulk):
+ * the init code is hashed once, each address then costs two keccak256.
+ */
+export function accountAddressCalculator(config: {
+  factory: Address
+  entryPoint: Address
+  creationCode: Hex
+}): (uuidString: string, backendSalt: Hex) => Address {
+  const initCodeHash = accountInitCodeHash(config.creationCode, config.entryPoint)
+  return (uuidString, backendSalt) =>
+    computeAccountAddress({ factory: config.factory, uuidString, backendSalt, initCodeHash })
+}
@@ -0,0 +1,62 @@
+import { encodeFunctionData } from "viem"
+import { EXECUTE_ABI } from "./abi"
+import type { Address, Call, EntryPointUserOperation, Hex, UserOperation } from "./types"
+
+export function toHex(v: bigint | number): Hex {
+  return `0x${BigInt(v).toString(16)}` as Hex
+}
+
+export function encodeExecute(target: Address, value: bigint, data: Hex): Hex {
+  return encodeFunctionData({
+    abi: EXECUTE_ABI,
+    functionName: "execute",
+    args: [target, value, data]
+  })
+}
+
+/**
+ * Encodes `DemoAccount.executeBatch(targets, values, datas)`: the calls run atomically,
+ * in order, within one UserOperation.
+ */
+export function encodeExecuteBatch(calls: Call[]): Hex {
+  return encodeFunctionData({
+    abi: EXECUTE_ABI,
+    functionName: "executeBatch",
+    args: [
+      calls.map((c) => c.target),
+      calls.map((c) => c.value ?? 0n),
+      calls.map((c) => c.data ?? "0x")
+    ]
+  })
+}
+
+/**
+ * Account callData for a list of calls: a single call uses `execute`, several `executeBatch`.
+ */
+export function encodeCalls(calls: Call[]): Hex {
+  if (calls.length === 0) throw new Error("At least one call is required")
+  if (calls.length === 1) {
+    const [call] = calls
+    return encodeExecute(call.target, call.value ?? 0n, call.data ?? "0x")
+  }
+  return encodeExecuteBatch(calls)
+}
+
+/**
+ * Converts a bundler-formatted UserOperation into the struct expected by EntryPoint calls.
+ */
+export function toEntryPointUserOp(op: UserOperation): EntryPointUserOperation {
+  return {
+    sender: op.sender,
+    nonce: BigInt(op.nonce),
+    initCode: op.initCode,
+    callData: op.callData,
+    callGasLimit: BigInt(op.callGasLimit),
+    verificationGasLimit: BigInt(op.verificationGasLimit),
+    preVerificationGas: BigInt(op.preVerificationGas),
+    maxFeePerGas: BigInt(op.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(op.maxPriorityFeePerGas),
+    paymasterAndData: op.paymasterAndData,
+    signature: op.signature
+  }
+}
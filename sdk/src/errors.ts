@@ -0,0 +1,147 @@
+// JSON-RPC error object as returned by bundlers
+export interface JsonRpcError {
+  code: number
+  message: string
+  data?: unknown
+}
+
+/**
+ * EntryPoint `FailedOp` reasons (AAxx revert strings) and what they usually mean.
+ * AA1x: initCode/factory, AA2x: account, AA3x: paymaster, AA4x: verification gas,
+ * AA5x: postOp / execution, AA9x: bundler / EntryPoint internals.
+ */
+export const AA_ERROR_EXPLANATIONS: Record<string, string> = {
+  AA10: "Sender already constructed: initCode must be empty once the account is deployed.",
+  AA13: "initCode failed or ran out of gas: the factory call reverted.",
+  AA14: "initCode must return sender: the factory deployed a different address.",
+  AA15: "initCode must create sender: the factory did not deploy the account.",
+  AA20: "Account not deployed: provide initCode or deploy the account first.",
+  AA21: "Didn't pay prefund: the account has not enough ETH deposited to cover gas.",
+  AA22: "Expired or not due: the account signature is outside its validity window.",
+  AA23: "Account validateUserOp reverted (or ran out of gas).",
+  AA24: "Account signature error: the owner signature does not match the userOpHash.",
+  AA25: "Invalid account nonce: the nonce was already used or is out of sequence.",
+  AA30: "Paymaster not deployed at the address in paymasterAndData.",
+  AA31: "Paymaster deposit too low: top up the paymaster deposit in the EntryPoint.",
+  AA32: "Paymaster signature expired or not due yet.",
+  AA33: "Paymaster validatePaymasterUserOp reverted (or ran out of gas).",
+  AA34: "Paymaster signature error: the sponsorship signature is invalid.",
+  AA40: "Over verificationGasLimit: validation used more gas than allowed.",
+  AA41: "Too little verificationGas to cover validation.",
+  AA50: "Paymaster postOp reverted.",
+  AA51: "Prefund below actualGasCost: gas limits were too low for the real cost.",
+  AA90: "Invalid beneficiary address in handleOps.",
+  AA91: "Failed to send fees to the beneficiary.",
+  AA92: "EntryPoint internal call only.",
+  AA93: "Invalid paymasterAndData: it must be empty or start with a 20-byte paymaster address.",
+  AA94: "Gas values overflow: a gas field does not fit in uint120.",
+  AA95: "Out of gas: the bundler transaction ran out of gas."
+}
+
+/**
+ * Base class for every error returned by a bundler JSON-RPC call.
+ * `explanation` is a human readable reason; `aaCode` is set when the bundler
+ * forwarded an EntryPoint `AAxx` revert string.
+ */
+export class BundlerError extends Error {
+  readonly method: string
+  readonly code: number
+  readonly data?: unknown
+  readonly aaCode?: string
+  readonly explanation: string
+  readonly rawMessage: string
+
+  constructor(method: string, error: JsonRpcError, explanation: string) {
+    const aaCode = /\bAA\d\d\b/.exec(error.message)?.[0]
+    const reason = (aaCode && AA_ERROR_EXPLANATIONS[aaCode]) || explanation
+
+    super(
+      `${method} failed (${error.code}${aaCode ? ` ${aaCode}` : ""}): ${reason}\n${error.message}`
+    )
+    this.name = new.target.name
+    this.method = method
+    this.code = error.code
+    this.data = error.data
+    this.aaCode = aaCode
+    this.explanation = reason
+    this.rawMessage = error.message
+  }
+}
+
+/** -32601: the bundler does not implement the method. */
+export class MethodNotFoundError extends BundlerError {}
+
+/** -32602: malformed params (e.g. a field with the wrong hex length). */
+export class InvalidParamsError extends BundlerError {}
+
+/** -32500: rejected by EntryPoint simulateValidation (account or factory). */
+export class UserOperationRejectedError extends BundlerError {}
+
+/** -32501: rejected by paymaster validatePaymasterUserOp. */
+export class PaymasterRejectedError extends BundlerError {}
+
+/** -32502: validation used a banned opcode or storage access. */
+export class OpcodeValidationError extends BundlerError {}
+
+/** -32503: validUntil / validAfter make the op expire too soon or not yet valid. */
+export class OutOfTimeRangeError extends BundlerError {}
+
+/** -32504: paymaster, factory or aggregator is throttled or banned. */
+export class ThrottledEntityError extends BundlerError {}
+
+/** -32505: paymaster, factory or aggregator stake is too low. */
+export class InsufficientStakeError extends BundlerError {}
+
+/** -32506: the account requested an unsupported signature aggregator. */
+export class UnsupportedAggregatorError extends BundlerError {}
+
+/** -32507: signature validation failed (account or paymaster). */
+export class InvalidSignatureError extends BundlerError {}
+
+type BundlerErrorClass = new (
+  method: string,
+  error: JsonRpcError,
+  explanation: string
+) => BundlerError
+
+const ERROR_CLASSES: Record<number, [BundlerErrorClass, string]> = {
+  [-32601]: [MethodNotFoundError, "The bundler does not support this method."],
+  [-32602]: [InvalidParamsError, "Invalid request params (check the UserOperation fields)."],
+  [-32500]: [
+    UserOperationRejectedError,
+    "Rejected by the EntryPoint during account validation or account creation."
+  ],
+  [-32501]: [PaymasterRejectedError, "Rejected by the paymaster validatePaymasterUserOp."],
+  [-32502]: [OpcodeValidationError, "Validation used a banned opcode or storage slot."],
+  [-32503]: [OutOfTimeRangeError, "The signature is expired or not valid yet."],
+  [-32504]: [ThrottledEntityError, "Paymaster, factory or aggregator is throttled or banned."],
+  [-32505]: [InsufficientStakeError, "Paymaster, factory or aggregator stake is too low."],
+  [-32506]: [UnsupportedAggregatorError, "The signature aggregator is not supported."],
+  [-32507]: [InvalidSignatureError, "Invalid signature (account or paymaster)."]
+}
+
+/**
+ * Maps a JSON-RPC error into the matching typed BundlerError.
+ */
+export function decodeBundlerError(method: string, error: unknown): BundlerError {
+  const rpcError: JsonRpcError =
+    error && typeof error === "object" && "code" in error
+      ? (error as JsonRpcError)
+      : { code: -32603, message: JSON.stringify(error) }
+
+  // Some bundlers report unknown methods with a generic code but a telling message.
+  const code = /method .*not (found|supported)/i.test(String(rpcError.message))
+    ? -32601
+    : rpcError.code
+
+  const [ErrorClass, explanation] = ERROR_CLASSES[code] ?? [
+    BundlerError,
+    "The bundler returned an error."
+  ]
+
+  return new ErrorClass(
+    method,
+    { ...rpcError, message: String(rpcError.message ?? "") },
+    explanation
+  )
+}
@@ -0,0 +1,51 @@
+import type { GasLimits, Hex } from "./types"
+
+/**
+ * 65-byte ECDSA-shaped placeholder signature used while estimating gas.
+ * It recovers to an unrelated address, so accounts return SIG_VALIDATION_FAILED
+ * instead of reverting, and the bundler can still simulate the whole operation.
+ */
+export const DUMMY_SIGNATURE: Hex =
+  "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c"
+
+/**
+ * Safety multipliers applied on top of the bundler estimation (1.2 = +20%).
+ */
+export interface GasMultipliers {
+  callGasLimit: number
+  verificationGasLimit: number
+  preVerificationGas: number
+}
+
+export const DEFAULT_GAS_MULTIPLIERS: GasMultipliers = {
+  callGasLimit: 1.2,
+  verificationGasLimit: 1.5,
+  preVerificationGas: 1.1
+}
+
+function multiply(value: bigint, multiplier: number): bigint {
+  return (value * BigInt(Math.round(multiplier * 1000))) / 1000n
+}
+
+/**
+ * Scales every gas limit by its safety multiplier.
+ */
+export function applyGasMultipliers(limits: GasLimits, multipliers: GasMultipliers): GasLimits {
+  return {
+    callGasLimit: multiply(limits.callGasLimit, multipliers.callGasLimit),
+    verificationGasLimit: multiply(limits.verificationGasLimit, multipliers.verificationGasLimit),
+    preVerificationGas: multiply(limits.preVerificationGas, multipliers.preVerificationGas)
+  }
+}
+
+/**
+ * Fills unset multipliers with the defaults (handy when values come from optional env vars).
+ */
+export function resolveGasMultipliers(overrides?: Partial<GasMultipliers>): GasMultipliers {
+  return {
+    callGasLimit: overrides?.callGasLimit ?? DEFAULT_GAS_MULTIPLIERS.callGasLimit,
+    verificationGasLimit:
+      overrides?.verificationGasLimit ?? DEFAULT_GAS_MULTIPLIERS.verificationGasLimit,
+    preVerificationGas: overrides?.preVerificationGas ?? DEFAULT_GAS_MULTIPLIERS.preVerificationGas
+  }
+}
@@ -0,0 +1,161 @@
+import type { BundlerClient } from "./bundler"
+import type { FeeReader, GasPrices, GasPriceTier } from "./types"
+
+/**
+ * Source of `maxFeePerGas` / `maxPriorityFeePerGas` for new UserOperations.
+ * The speed tier is fixed when the strategy is created.
+ */
+export interface GasPriceStrategy {
+  readonly name: string
+  readonly tier: GasPriceTier
+  getGasPrices(): Promise<GasPrices>
+}
+
+export const GAS_PRICE_STRATEGIES = ["pimlico", "fee-history", "fixed"] as const
+export type GasPriceStrategyName = (typeof GAS_PRICE_STRATEGIES)[number]
+
+export const GAS_PRICE_TIERS: readonly GasPriceTier[] = ["slow", "standard", "fast"]
+
+// ---------------------- PIMLICO ----------------------
+
+/** `pimlico_getUserOperationGasPrice` on the bundler (Pimlico bundlers only). */
+export function pimlicoGasPriceStrategy(
+  bundler: BundlerClient,
+  tier: GasPriceTier = "standard"
+): GasPriceStrategy {
+  return {
+    name: "pimlico",
+    tier,
+    async getGasPrices() {
+      return (await bundler.getUserOperationGasPrice())[tier]
+    }
+  }
+}
+
+// ---------------------- FEE HISTORY ----------------------
+
+// Reward percentile sampled from eth_feeHistory for each tier
+const FEE_HISTORY_PERCENTILES: Record<GasPriceTier, number> = {
+  slow: 25,
+  standard: 50,
+  fast: 75
+}
+
+// Headroom over the next block base fee (percent) so the op survives base fee increases
+const BASE_FEE_HEADROOM: Record<GasPriceTier, bigint> = {
+  slow: 110n,
+  standard: 125n,
+  fast: 200n
+}
+
+const FEE_HISTORY_BLOCKS = 10
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Plain chain RPC: `eth_feeHistory` over the last blocks plus `eth_maxPriorityFeePerGas`.
+ * Works with any bundler.
+ *
+ * - maxPriorityFeePerGas: median of the tier reward percentile; standard / fast never go
+ *   below the node suggestion, slow only uses it when the history has no rewards
+ * - maxFeePerGas: next block base fee × tier headroom + maxPriorityFeePerGas
+ */
+export function feeHistoryGasPriceStrategy(
+  publicClient: FeeReader,
+  tier: GasPriceTier = "standard"
+): GasPriceStrategy {
+  return {
+    name: "fee-history",
+    tier,
+    async getGasPrices() {
+      const [history, suggested] = await Promise.all([
+        publicClient.getFeeHistory({
+          blockCount: FEE_HISTORY_BLOCKS,
+          rewardPercentiles: [FEE_HISTORY_PERCENTILES[tier]]
+        }),
+        publicClient.estimateMaxPriorityFeePerGas()
+      ])
+
+      const reward = median((history.reward ?? []).map((r) => r[0] ?? 0n))
+      const maxPriorityFeePerGas =
+        tier === "slow" ? reward || suggested : reward > suggested ? reward : suggested
+
+      // The last entry is the base fee of the next block
+      const baseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n
+
+      return {
+        maxFeePerGas: (baseFee * BASE_FEE_HEADROOM[tier]) / 100n + maxPriorityFeePerGas,
+        maxPriorityFeePerGas
+      }
+    }
+  }
+}
+
+// ---------------------- FIXED ----------------------
+
+/** Always returns the given prices (manual override, local chains). */
+export function fixedGasPriceStrategy(prices: GasPrices): GasPriceStrategy {
+  if (prices.maxPriorityFeePerGas > prices.maxFeePerGas) {
+    throw new Error("Fixed gas prices: maxPriorityFeePerGas cannot exceed maxFeePerGas")
+  }
+
+  return {
+    name: "fixed",
+    tier: "standard",
+    async getGasPrices() {
+      return prices
+    }
+  }
+}
+
+// ---------------------- CONFIG ----------------------
+
+export interface GasPriceConfig {
+  /** Strategy name (default "fee-history"). */
+  strategy?: string
+  /** Speed tier (default "standard"); ignored by "fixed". */
+  tier?: string
+  /** Prices for the "fixed" strategy. */
+  fixed?: Partial<GasPrices>
+}
+
+/**
+ * Builds a strategy from string config (e.g. env vars), validating names so a typo
+ * fails at startup instead of silently picking another source.
+ */
+export function createGasPriceStrategy(
+  config: GasPriceConfig,
+  deps: { bundler: BundlerClient; publicClient: FeeReader }
+): GasPriceStrategy {
+  const strategy = config.strategy || "fee-history"
+  const tier = config.tier || "standard"
+
+  if (!(GAS_PRICE_TIERS as readonly string[]).includes(tier)) {
+    throw new Error(`Invalid gas price tier "${tier}" (expected ${GAS_PRICE_TIERS.join(" | ")})`)
+  }
+
+  switch (strategy as GasPriceStrategyName) {
+    case "pimlico":
+      return pimlicoGasPriceStrategy(deps.bundler, tier as GasPriceTier)
+    case "fee-history":
+      return feeHistoryGasPriceStrategy(deps.publicClient, tier as GasPriceTier)
+    case "fixed": {
+      const { maxFeePerGas, maxPriorityFeePerGas } = config.fixed ?? {}
+      if (maxFeePerGas === undefined) {
+        throw new Error('The "fixed" gas price strategy needs maxFeePerGas')
+      }
+      return fixedGasPriceStrategy({
+        maxFeePerGas,
+        maxPriorityFeePerGas: maxPriorityFeePerGas ?? maxFeePerGas
+      })
+    }
+    default:
+      throw new Error(
+        `Unknown gas price strategy "${strategy}" (expected ${GAS_PRICE_STRATEGIES.join(" | ")})`
+      )
+  }
+}
@@ -0,0 +1,19 @@
+export * from "./abi"
+export * from "./batch"
+export * from "./binding"
+export * from "./bundler"
+export * from "./client"
+export * from "./counterfactual"
+export * from "./encoding"
+export * from "./errors"
+export * from "./gas"
+export * from "./gasPrice"
+export * from "./nonce"
+export * from "./paymaster"
+export * from "./policy"
+export * from "./receipt"
+export * from "./recovery"
+export * from "./session"
+export * from "./types"
+export * from "./userOperation"
+export * from "./webauthn"
@@ -0,0 +1,86 @@
+import { ENTRYPOINT_ABI } from "./abi"
+import type { Address, ContractReader } from "./types"
+
+// EntryPoint v0.6 NonceManager: nonce = key (uint192) << 64 | sequence (uint64).
+// Every key has its own sequence, so ops on different keys do not wait for each other.
+export const MAX_NONCE_KEY = (1n << 192n) - 1n
+const SEQUENCE_BITS = 64n
+const SEQUENCE_MASK = (1n << SEQUENCE_BITS) - 1n
+
+function checkKey(key: bigint) {
+  if (key < 0n || key > MAX_NONCE_KEY) {
+    throw new Error(`Nonce key must be a uint192, got ${key}`)
+  }
+}
+
+export function encodeNonce(key: bigint, sequence: bigint): bigint {
+  checkKey(key)
+  if (sequence < 0n || sequence > SEQUENCE_MASK) {
+    throw new Error(`Nonce sequence must be a uint64, got ${sequence}`)
+  }
+  return (key << SEQUENCE_BITS) | sequence
+}
+
+export function decodeNonce(nonce: bigint): { key: bigint; sequence: bigint } {
+  return { key: nonce >> SEQUENCE_BITS, sequence: nonce & SEQUENCE_MASK }
+}
+
+export interface NonceManager {
+  /**
+   * Reserves the next nonce of `key` (default 0): the lowest sequence not yet used
+   * on-chain nor held by an op in flight on that key.
+   */
+  reserve(key?: bigint): Promise<bigint>
+  /** Frees an in-flight nonce (op included, reverted, dropped or never sent). */
+  release(nonce: bigint): void
+  /** Nonces reserved and not released yet, for one key or all of them. */
+  inFlight(key?: bigint): bigint[]
+}
+
+/**
+ * Tracks the ops in flight per nonce key of one sender, so that several ops can be
+ * built and sent in parallel. Sequences already used on-chain are forgotten on the
+ * next reservation; a released (e.g. dropped) sequence is handed out again, since the
+ * EntryPoint would not accept any later sequence of that key before it.
+ */
+export function createNonceManager(
+  publicClient: ContractReader,
+  entryPoint: Address,
+  sender: Address
+): NonceManager {
+  const pending = new Map<bigint, Set<bigint>>()
+
+  return {
+    async reserve(key = 0n) {
+      checkKey(key)
+      const onChain = (await publicClient.readContract({
+        address: entryPoint,
+        abi: ENTRYPOINT_ABI,
+        functionName: "getNonce",
+        args: [sender, key]
+      })) as bigint
+
+      // No await below: parallel reservations on a key cannot pick the same sequence
+      const { sequence: next } = decodeNonce(onChain)
+      const sequences = pending.get(key) ?? new Set<bigint>()
+      for (const s of sequences) if (s < next) sequences.delete(s)
+
+      let sequence = next
+      while (sequences.has(sequence)) sequence++
+      sequences.add(sequence)
+      pending.set(key, sequences)
+
+      return encodeNonce(key, sequence)
+    },
+
+    release(nonce) {
+      const { key, sequence } = decodeNonce(nonce)
+      pending.get(key)?.delete(sequence)
+    },
+
+    inFlight(key) {
+      const keys = key === undefined ? [...pending.keys()] : [key]
+      return keys.flatMap((k) => [...(pending.get(k) ?? [])].map((s) => encodeNonce(k, s)))
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import {
+  concat,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  keccak256,
+  numberToHex,
+  size,
+  slice
+} from "viem"
+import { BundlerClient } from "./bundler"
+import { toHex } from "./encoding"
+import { DUMMY_SIGNATURE } from "./gas"
+import type { Address, Hex, PaymasterSponsor, UserOperation, UserOpSigner } from "./types"
+
+/**
+ * DemoPaymaster `paymasterAndData` layout (149 bytes):
+ * paymaster (20) | abi.encode(uint48 validUntil, uint48 validAfter) (64) | signature (65)
+ */
+export const PAYMASTER_AND_DATA_LENGTH = 20 + 64 + 65
+
+// Sponsorship validity window (unix seconds). validUntil = 0 means no expiry.
+export interface PaymasterValidity {
+  validUntil: number
+  validAfter: number
+}
+
+export interface DecodedPaymasterAndData extends PaymasterValidity {
+  paymaster: Address
+  signature: Hex
+}
+
+// Default window for locally signed sponsorships.
+export const DEFAULT_PAYMASTER_VALIDITY_SECONDS = 600
+
+/**
+ * Validity window starting now and lasting `seconds`.
+ */
+export function paymasterValidityWindow(
+  seconds = DEFAULT_PAYMASTER_VALIDITY_SECONDS,
+  now = Math.floor(Date.now() / 1000)
+): PaymasterValidity {
+  return { validUntil: now + seconds, validAfter: 0 }
+}
+
+function encodeValidity(validity: PaymasterValidity): Hex {
+  return encodeAbiParameters(
+    [{ type: "uint48" }, { type: "uint48" }],
+    [validity.validUntil, validity.validAfter]
+  )
+}
+
+/**
+ * Digest signed by the DemoPaymaster signer (`DemoPaymaster.getHash`): every UserOperation
+ * field except paymasterAndData / signature, plus chainId, the paymaster address and the
+ * validity window.
+ */
+export function computePaymasterHash(
+  userOp: UserOperation,
+  params: PaymasterValidity & { paymaster: Address; chainId: bigint | number }
+): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "address" },
+        { type: "uint256" },
+        { type: "bytes32" },
+        { type: "bytes32" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "address" },
+        { type: "uint48" },
+        { type: "uint48" }
+      ],
+      [
+        userOp.sender,
+        BigInt(userOp.nonce),
+        keccak256(userOp.initCode),
+        keccak256(userOp.callData),
+        BigInt(userOp.callGasLimit),
+        BigInt(userOp.verificationGasLimit),
+        BigInt(userOp.preVerificationGas),
+        BigInt(userOp.maxFeePerGas),
+        BigInt(userOp.maxPriorityFeePerGas),
+        BigInt(params.chainId),
+        params.paymaster,
+        params.validUntil,
+        params.validAfter
+      ]
+    )
+  )
+}
+
+/**
+ * Signs the paymaster digest and returns `paymasterAndData` in the DemoPaymaster layout.
+ * The op gas fields must be final: changing them afterwards invalidates the signature.
+ */
+export async function buildPaymasterAndData(
+  paymasterAddress: Address,
+  paymasterSigner: UserOpSigner,
+  userOp: UserOperation,
+  params: PaymasterValidity & { chainId: bigint | number }
+): Promise<Hex> {
+  const signature = await paymasterSigner.signMessage({
+    message: { raw: computePaymasterHash(userOp, { ...params, paymaster: paymasterAddress }) }
+  })
+
+  return concat([paymasterAddress, encodeValidity(params), signature])
+}
+
+/**
+ * `paymasterAndData` of the final length with a dummy signature, for gas estimation.
+ */
+export function buildStubPaymasterAndData(
+  paymasterAddress: Address,
+  validity: PaymasterValidity = paymasterValidityWindow()
+): Hex {
+  return concat([paymasterAddress, encodeValidity(validity), DUMMY_SIGNATURE])
+}
+
+/**
+ * Splits a DemoPaymaster `paymasterAndData` into paymaster, validity window and signature.
+ */
+export function decodePaymasterAndData(paymasterAndData: Hex): DecodedPaymasterAndData {
+  if (size(paymasterAndData) !== PAYMASTER_AND_DATA_LENGTH) {
+    throw new Error(
+      `Invalid paymasterAndData length: ${size(paymasterAndData)} bytes ` +
+        `(expected ${PAYMASTER_AND_DATA_LENGTH})`
+    )
+  }
+
+  const [validUntil, validAfter] = decodeAbiParameters(
+    [{ type: "uint48" }, { type: "uint48" }],
+    slice(paymasterAndData, 20, 84)
+  )
+
+  return {
+    paymaster: slice(paymasterAndData, 0, 20) as Address,
+    validUntil,
+    validAfter,
+    signature: slice(paymasterAndData, 84)
+  }
+}
+
+/**
+ * Unpacks ERC-4337 `validationData` (as returned by validateUserOp /
+ * validatePaymasterUserOp): aggregator or sigFailed flag + validity window.
+ */
+export function unpackValidationData(validationData: bigint): {
+  sigFailed: boolean
+  aggregator: Address
+  validUntil: number
+  validAfter: number
+} {
+  const aggregator = validationData & ((1n << 160n) - 1n)
+  return {
+    sigFailed: aggregator === 1n,
+    aggregator: numberToHex(aggregator, { size: 20 }),
+    validUntil: Number((validationData >> 160n) & ((1n << 48n) - 1n)),
+    validAfter: Number((validationData >> 208n) & ((1n << 48n) - 1n))
+  }
+}
+
+/**
+ * Sponsor that signs `paymasterAndData` locally with the given paymaster signer; every
+ * signature is valid for `validitySeconds` from the moment it is produced.
+ */
+export function localPaymasterSponsor(
+  paymasterAddress: Address,
+  paymasterSigner: UserOpSigner,
+  params: { chainId: bigint | number; validitySeconds?: number }
+): PaymasterSponsor {
+  return {
+    getStubData: async () => buildStubPaymasterAndData(paymasterAddress),
+    getData: (op) =>
+      buildPaymasterAndData(paymasterAddress, paymasterSigner, op, {
+        chainId: params.chainId,
+        ...paymasterValidityWindow(params.validitySeconds)
+      })
+  }
+}
+
+/**
+ * Sponsor backed by a paymaster service speaking ERC-7677 (`pm_getPaymasterStubData` /
+ * `pm_getPaymasterData`), so the paymaster signer key stays server-side.
+ * Service rejections surface as typed errors (e.g. PaymasterRejectedError).
+ */
+export function rpcPaymasterSponsor(params: {
+  url: string
+  entryPoint: Address
+  chainId: bigint | number
+  context?: Record<string, unknown>
+}): PaymasterSponsor {
+  const rpc = new BundlerClient(params.url)
+
+  const call = async (method: string, op: UserOperation) => {
+    const result = await rpc.request<{ paymasterAndData?: Hex }>(method, [
+      op,
+      params.entryPoint,
+      toHex(BigInt(params.chainId)),
+      params.context ?? {}
+    ])
+    if (!result?.paymasterAndData) {
+      throw new Error(`${method} did not return paymasterAndData: ${JSON.stringify(result)}`)
+    }
+    return result.paymasterAndData
+  }
+
+  return {
+    getStubData: (op) => call("pm_getPaymasterStubData", op),
+    getData: (op) => call("pm_getPaymasterData", op)
+  }
+}
@@ -0,0 +1,418 @@
+import { decodeFunctionData, getAbiItem, isAddress, isHex, toFunctionSelector } from "viem"
+import { EXECUTE_ABI } from "./abi"
+import { RECOVERY_ABI } from "./recovery"
+import { ETH_TRANSFER_SELECTOR } from "./session"
+import type { Address, Hex, PaymasterSponsor, UserOperation } from "./types"
+
+/**
+ * Why a sponsorship request was refused. Returned to callers so they can tell a policy
+ * decision apart from an infrastructure error.
+ */
+export type PolicyRejectionReason =
+  | "SENDER_DENIED"
+  | "TARGET_DENIED"
+  | "INVALID_CALLDATA"
+  | "TARGET_NOT_ALLOWED"
+  | "SELECTOR_NOT_ALLOWED"
+  | "FACTORY_NOT_ALLOWED"
+  | "RECOVERY_NOT_SPONSORED"
+  | "MAX_FEE_TOO_HIGH"
+  | "DAILY_OP_QUOTA_EXCEEDED"
+  | "DAILY_GAS_QUOTA_EXCEEDED"
+
+export class SponsorshipRejectedError extends Error {
+  readonly reason: PolicyRejectionReason
+
+  constructor(reason: PolicyRejectionReason, message: string) {
+    super(`${reason}: ${message}`)
+    this.name = "SponsorshipRejectedError"
+    this.reason = reason
+  }
+}
+
+/**
+ * Normalized sponsorship policy. Empty / missing lists mean "no restriction", except
+ * `factories`: initCode is only sponsored for the listed factories.
+ */
+export interface SponsorshipPolicy {
+  /**
+   * Targets of `execute` / `executeBatch` calls that may be sponsored, optionally restricted
+   * to some selectors (a batch is sponsored only if every call is allowed).
+   * `ETH_TRANSFER_SELECTOR` (`0x00000000`) allows plain ETH transfers.
+   */
+  allow?: { target: Address; selectors?: Hex[] }[]
+  deny: { senders: Address[]; targets: Address[] }
+  factories: Address[]
+  /**
+   * Sponsors the guardian recovery ops (`startRecovery` / `executeRecovery` callData): the
+   * DemoAccount only accepts them with a paymaster. Off by default.
+   */
+  recovery: boolean
+  maxFeePerGas?: bigint
+  quotas: { opsPerDay?: number; gasCostPerDay?: bigint }
+}
+
+// ---------------------- CONFIG PARSING ----------------------
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid sponsorship policy: ${path} ${message}`)
+}
+
+function addressList(value: unknown, path: string): Address[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) fail(path, "must be a list of addresses")
+  return value.map((v, i) => {
+    if (typeof v !== "string" || !isAddress(v)) fail(`${path}[${i}]`, "must be an address")
+    return v.toLowerCase() as Address
+  })
+}
+
+function wei(value: unknown, path: string): bigint | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== "string" && typeof value !== "number") fail(path, "must be an integer")
+  try {
+    return BigInt(value)
+  } catch {
+    fail(path, "must be an integer")
+  }
+}
+
+// Accepts a 4-byte selector ("0xd09de08a", "0x00000000" for plain ETH transfers) or a
+// signature ("increment()")
+function selector(value: unknown, path: string): Hex {
+  if (typeof value !== "string") fail(path, "must be a selector or a function signature")
+  if (isHex(value)) {
+    if (value.length !== 10) fail(path, "must be a 4-byte selector")
+    return value.toLowerCase() as Hex
+  }
+  try {
+    return toFunctionSelector(value)
+  } catch {
+    fail(path, `is not a valid function signature: ${value}`)
+  }
+}
+
+/**
+ * Validates a policy parsed from JSON / YAML:
+ *
+ * ```yaml
+ * allow:
+ *   - target: "0xDemoLogic..."
+ *     selectors: ["increment()"]   # omit to allow any function of the target
+ *   - target: "0xRecipient..."
+ *     selectors: ["0x00000000"]    # plain ETH transfers only
+ * deny:
+ *   senders: []
+ *   targets: []
+ * factories: ["0xAccountFactory..."]
+ * recovery: true                   # sponsor guardian recovery ops
+ * maxFeePerGas: "20000000000"
+ * quotas:
+ *   opsPerDay: 20
+ *   gasCostPerDay: "5000000000000000"
+ * ```
+ */
+export function parseSponsorshipPolicy(raw: unknown): SponsorshipPolicy {
+  if (!raw || typeof raw !== "object") fail("root", "must be an object")
+  const config = raw as Record<string, unknown>
+
+  let allow: SponsorshipPolicy["allow"]
+  if (config.allow !== undefined) {
+    if (!Array.isArray(config.allow)) fail("allow", "must be a list")
+    allow = config.allow.map((entry, i) => {
+      const e = (entry ?? {}) as Record<string, unknown>
+      const [target] = addressList([e.target], `allow[${i}].target`)
+      if (e.selectors === undefined) return { target }
+      if (!Array.isArray(e.selectors)) fail(`allow[${i}].selectors`, "must be a list")
+      return {
+        target,
+        selectors: e.selectors.map((s, j) => selector(s, `allow[${i}].selectors[${j}]`))
+      }
+    })
+  }
+
+  const deny = (config.deny ?? {}) as Record<string, unknown>
+  const quotas = (config.quotas ?? {}) as Record<string, unknown>
+
+  if (config.recovery !== undefined && typeof config.recovery !== "boolean") {
+    fail("recovery", "must be true or false")
+  }
+
+  const opsPerDay = quotas.opsPerDay
+  if (opsPerDay !== undefined && (!Number.isInteger(opsPerDay) || (opsPerDay as number) < 0)) {
+    fail("quotas.opsPerDay", "must be a non-negative integer")
+  }
+
+  return {
+    allow,
+    deny: {
+      senders: addressList(deny.senders, "deny.senders"),
+      targets: addressList(deny.targets, "deny.targets")
+    },
+    factories: addressList(config.factories, "factories"),
+    recovery: (config.recovery as boolean | undefined) ?? false,
+    maxFeePerGas: wei(config.maxFeePerGas, "maxFeePerGas"),
+    quotas: {
+      opsPerDay: opsPerDay as number | undefined,
+      gasCostPerDay: wei(quotas.gasCostPerDay, "quotas.gasCostPerDay")
+    }
+  }
+}
+
+// ---------------------- QUOTA STORE ----------------------
+
+export interface QuotaUsage {
+  ops: number
+  gasCost: bigint
+}
+
+export type QuotaLimits = SponsorshipPolicy["quotas"]
+
+/** Whether one more op costing `gasCost` fits in `limits` on top of `usage`. */
+export function quotaAllows(usage: QuotaUsage, gasCost: bigint, limits: QuotaLimits): boolean {
+  if (limits.opsPerDay !== undefined && usage.ops >= limits.opsPerDay) return false
+  return limits.gasCostPerDay === undefined || usage.gasCost + gasCost <= limits.gasCostPerDay
+}
+
+/**
+ * Per-sender daily usage. The in-memory store is enough for a single service instance;
+ * a shared store (Redis, SQL) can implement the same interface, `tryConsume` as one
+ * transaction / script so that concurrent requests of a sender cannot all pass the limits.
+ */
+export interface QuotaStore {
+  get(sender: Address, day: number): Promise<QuotaUsage>
+  /**
+   * Counts one op costing `gasCost` unless it goes over `limits`, atomically. Returns the
+   * usage it was checked against and whether the op was counted.
+   */
+  tryConsume(
+    sender: Address,
+    day: number,
+    gasCost: bigint,
+    limits: QuotaLimits
+  ): Promise<{ consumed: boolean; usage: QuotaUsage }>
+  /** Gives back an op counted by `tryConsume` (its signing failed). */
+  release(sender: Address, day: number, gasCost: bigint): Promise<void>
+}
+
+export function memoryQuotaStore(): QuotaStore {
+  const usage = new Map<string, QuotaUsage>()
+  const key = (sender: Address, day: number) => `${day}:${sender.toLowerCase()}`
+  const read = (sender: Address, day: number) =>
+    usage.get(key(sender, day)) ?? { ops: 0, gasCost: 0n }
+
+  // No await between the read and the write: atomic within the process
+  return {
+    async get(sender, day) {
+      return read(sender, day)
+    },
+    async tryConsume(sender, day, gasCost, limits) {
+      const current = read(sender, day)
+      if (!quotaAllows(current, gasCost, limits)) return { consumed: false, usage: current }
+      usage.set(key(sender, day), { ops: current.ops + 1, gasCost: current.gasCost + gasCost })
+      return { consumed: true, usage: current }
+    },
+    async release(sender, day, gasCost) {
+      const current = read(sender, day)
+      usage.set(key(sender, day), {
+        ops: Math.max(current.ops - 1, 0),
+        gasCost: current.gasCost > gasCost ? current.gasCost - gasCost : 0n
+      })
+    }
+  }
+}
+
+// ---------------------- ENGINE ----------------------
+
+const DAY_MS = 86_400_000
+
+/**
+ * Worst-case gas cost charged to a paymaster-sponsored v0.6 op (EntryPoint prefund:
+ * verificationGasLimit counts three times when a paymaster is used).
+ */
+export function maxSponsoredGasCost(userOp: UserOperation): bigint {
+  const gas =
+    BigInt(userOp.callGasLimit) +
+    BigInt(userOp.verificationGasLimit) * 3n +
+    BigInt(userOp.preVerificationGas)
+  return gas * BigInt(userOp.maxFeePerGas)
+}
+
+/**
+ * Decodes `DemoAccount.execute(target, value, data)` or
+ * `executeBatch(targets, values, datas)` and returns target + selector of every call
+ * (`ETH_TRANSFER_SELECTOR` for a plain ETH transfer, as DemoAccount reads calldata shorter
+ * than 4 bytes).
+ */
+export function decodeExecuteCalls(callData: Hex): { target: Address; selector: Hex }[] {
+  const toCall = (target: Address, data: Hex) => ({
+    target: target.toLowerCase() as Address,
+    selector: data.length < 10 ? ETH_TRANSFER_SELECTOR : (data.slice(0, 10).toLowerCase() as Hex)
+  })
+
+  try {
+    const decoded = decodeFunctionData({ abi: EXECUTE_ABI, data: callData })
+    if (decoded.functionName === "execute") {
+      const [target, , data] = decoded.args
+      return [toCall(target, data)]
+    }
+    const [targets, , datas] = decoded.args
+    return targets.map((target, i) => toCall(target, datas[i]))
+  } catch {
+    throw new SponsorshipRejectedError(
+      "INVALID_CALLDATA",
+      "callData is not a DemoAccount.execute / executeBatch call"
+    )
+  }
+}
+
+const RECOVERY_SELECTORS = (["startRecovery", "executeRecovery"] as const).map((name) =>
+  toFunctionSelector(getAbiItem({ abi: RECOVERY_ABI, name }))
+)
+
+/** Whether `callData` is a DemoAccount guardian recovery op (start or execute). */
+export function isRecoveryCallData(callData: Hex): boolean {
+  return RECOVERY_SELECTORS.includes(callData.slice(0, 10).toLowerCase() as Hex)
+}
+
+export interface SponsorshipPolicyEngine {
+  readonly policy: SponsorshipPolicy
+  /**
+   * Throws SponsorshipRejectedError when the op may not be sponsored. Reads the quotas without
+   * counting anything (stub data).
+   */
+  check(userOp: UserOperation): Promise<void>
+  /**
+   * Counts the op against the sender daily quotas before it is signed, throwing
+   * SponsorshipRejectedError when over; call the returned function if the signing fails.
+   */
+  reserve(userOp: UserOperation): Promise<() => Promise<void>>
+}
+
+export function createSponsorshipPolicyEngine(
+  policy: SponsorshipPolicy,
+  options: { store?: QuotaStore; now?: () => number } = {}
+): SponsorshipPolicyEngine {
+  const store = options.store ?? memoryQuotaStore()
+  const today = () => Math.floor((options.now ?? Date.now)() / DAY_MS)
+  const hasQuotas = () =>
+    policy.quotas.opsPerDay !== undefined || policy.quotas.gasCostPerDay !== undefined
+
+  function quotaError(sender: Address, usage: QuotaUsage, cost: bigint) {
+    const { opsPerDay, gasCostPerDay } = policy.quotas
+    if (opsPerDay !== undefined && usage.ops >= opsPerDay) {
+      return new SponsorshipRejectedError(
+        "DAILY_OP_QUOTA_EXCEEDED",
+        `sender ${sender} already used ${usage.ops}/${opsPerDay} sponsored ops today`
+      )
+    }
+    return new SponsorshipRejectedError(
+      "DAILY_GAS_QUOTA_EXCEEDED",
+      `sender ${sender} would use ${usage.gasCost + cost}/${gasCostPerDay} wei of gas today`
+    )
+  }
+
+  return {
+    policy,
+
+    async check(userOp) {
+      const sender = userOp.sender.toLowerCase() as Address
+
+      if (policy.deny.senders.includes(sender)) {
+        throw new SponsorshipRejectedError("SENDER_DENIED", `sender ${sender} is deny-listed`)
+      }
+
+      // A recovery op calls the account itself, authorized by the guardians, not the owner
+      const recovery = isRecoveryCallData(userOp.callData)
+      if (recovery && !policy.recovery) {
+        throw new SponsorshipRejectedError(
+          "RECOVERY_NOT_SPONSORED",
+          "guardian recovery ops are not sponsored"
+        )
+      }
+
+      // Every call of a batch must pass the target rules
+      for (const { target, selector } of recovery ? [] : decodeExecuteCalls(userOp.callData)) {
+        if (policy.deny.targets.includes(target)) {
+          throw new SponsorshipRejectedError("TARGET_DENIED", `target ${target} is deny-listed`)
+        }
+
+        if (policy.allow) {
+          const rule = policy.allow.find((r) => r.target === target)
+          if (!rule) {
+            throw new SponsorshipRejectedError(
+              "TARGET_NOT_ALLOWED",
+              `target ${target} is not sponsored`
+            )
+          }
+          if (rule.selectors && !rule.selectors.includes(selector)) {
+            throw new SponsorshipRejectedError(
+              "SELECTOR_NOT_ALLOWED",
+              `function ${selector} of ${target} is not sponsored`
+            )
+          }
+        }
+      }
+
+      if (userOp.initCode !== "0x") {
+        const factory = userOp.initCode.slice(0, 42).toLowerCase() as Address
+        if (!policy.factories.includes(factory)) {
+          throw new SponsorshipRejectedError(
+            "FACTORY_NOT_ALLOWED",
+            `initCode factory ${factory} is not sponsored`
+          )
+        }
+      }
+
+      const maxFeePerGas = BigInt(userOp.maxFeePerGas)
+      if (policy.maxFeePerGas !== undefined && maxFeePerGas > policy.maxFeePerGas) {
+        throw new SponsorshipRejectedError(
+          "MAX_FEE_TOO_HIGH",
+          `maxFeePerGas ${maxFeePerGas} is above the cap ${policy.maxFeePerGas}`
+        )
+      }
+
+      if (!hasQuotas()) return
+      const usage = await store.get(sender, today())
+      const cost = maxSponsoredGasCost(userOp)
+      if (!quotaAllows(usage, cost, policy.quotas)) throw quotaError(sender, usage, cost)
+    },
+
+    async reserve(userOp) {
+      if (!hasQuotas()) return async () => {}
+      const sender = userOp.sender.toLowerCase() as Address
+      const day = today()
+      const cost = maxSponsoredGasCost(userOp)
+      const { consumed, usage } = await store.tryConsume(sender, day, cost, policy.quotas)
+      if (!consumed) throw quotaError(sender, usage, cost)
+      return () => store.release(sender, day, cost)
+    }
+  }
+}
+
+/**
+ * Puts a policy engine in front of a sponsor: stub data is only returned for ops the
+ * policy accepts, and every signed op is counted against the sender quotas (reserved
+ * before signing, so concurrent requests cannot go over them).
+ */
+export function policyPaymasterSponsor(
+  sponsor: PaymasterSponsor,
+  engine: SponsorshipPolicyEngine
+): PaymasterSponsor {
+  return {
+    async getStubData(op) {
+      await engine.check(op)
+      return sponsor.getStubData(op)
+    },
+    async getData(op) {
+      await engine.check(op)
+      const release = await engine.reserve(op)
+      try {
+        return await sponsor.getData(op)
+      } catch (err) {
+        await release()
+        throw err
+      }
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { USER_OPERATION_EVENT } from "./abi"
+import type { BundlerClient } from "./bundler"
+import { toHex } from "./encoding"
+import { InvalidParamsError, MethodNotFoundError } from "./errors"
+import type { Address, Hex, LogReader, UserOperationReceipt } from "./types"
+
+export interface WaitForReceiptOptions {
+  /** Total time to wait before giving up (default 120s). */
+  timeoutMs?: number
+  /** First polling interval (default 1s). */
+  initialIntervalMs?: number
+  /** Upper bound for the polling interval (default 15s). */
+  maxIntervalMs?: number
+  /** Interval growth factor between polls (default 1.5). */
+  backoffFactor?: number
+  /** Random ± fraction applied to every interval (default 0.2 = ±20%). */
+  jitter?: number
+  /** How many blocks back the EntryPoint log scan starts from (default 1000). */
+  logLookbackBlocks?: bigint
+  /** Cancels the wait; the promise rejects with `signal.reason`. */
+  signal?: AbortSignal
+}
+
+/**
+ * Final state of a submitted UserOperation.
+ * - included: executed and its call succeeded
+ * - reverted: included on-chain, but the account call reverted (gas was still charged)
+ * - dropped:  no receipt nor UserOperationEvent before the timeout
+ */
+export type UserOperationOutcome =
+  | { status: "included"; receipt: UserOperationReceipt; source: "bundler" | "logs" }
+  | { status: "reverted"; receipt: UserOperationReceipt; source: "bundler" | "logs" }
+  | { status: "dropped"; userOpHash: Hex; reason: string }
+
+const DEFAULTS = {
+  timeoutMs: 120_000,
+  initialIntervalMs: 1_000,
+  maxIntervalMs: 15_000,
+  backoffFactor: 1.5,
+  jitter: 0.2,
+  logLookbackBlocks: 1_000n
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+function withJitter(ms: number, jitter: number): number {
+  return Math.round(ms * (1 + (Math.random() * 2 - 1) * jitter))
+}
+
+function toOutcome(
+  receipt: UserOperationReceipt,
+  source: "bundler" | "logs"
+): UserOperationOutcome {
+  return receipt.success === false
+    ? { status: "reverted", receipt, source }
+    : { status: "included", receipt, source }
+}
+
+/**
+ * Looks for the EntryPoint `UserOperationEvent` of the given userOpHash and rebuilds a
+ * receipt from it. Used when the bundler lost track of the operation.
+ */
+export async function findUserOperationEvent(
+  publicClient: LogReader,
+  entryPoint: Address,
+  userOpHash: Hex,
+  fromBlock: bigint
+): Promise<UserOperationReceipt | null> {
+  const logs = await publicClient.getLogs({
+    address: entryPoint,
+    event: USER_OPERATION_EVENT,
+    args: { userOpHash },
+    fromBlock
+  })
+
+  const log = logs[0]
+  if (!log) return null
+
+  const args = log.args as {
+    sender: Address
+    paymaster: Address
+    nonce: bigint
+    success: boolean
+    actualGasCost: bigint
+    actualGasUsed: bigint
+  }
+
+  return {
+    userOpHash,
+    sender: args.sender,
+    nonce: toHex(args.nonce),
+    actualGasCost: toHex(args.actualGasCost),
+    actualGasUsed: toHex(args.actualGasUsed),
+    success: args.success,
+    paymaster: args.paymaster,
+    receipt: {
+      transactionHash: log.transactionHash ?? undefined,
+      blockNumber: log.blockNumber !== null ? toHex(log.blockNumber) : undefined
+    }
+  }
+}
+
+/**
+ * Waits for a UserOperation with exponential backoff (plus jitter), a total timeout and
+ * optional cancellation. Transient fetch / JSON-RPC errors are retried.
+ *
+ * Whenever the bundler does not know the op (`eth_getUserOperationByHash` returns null or is
+ * unsupported) the EntryPoint `UserOperationEvent` logs are scanned as a fallback. Some
+ * bundlers return null for ops still in their mempool, so the op is only reported as
+ * dropped once the timeout is reached without a receipt or event.
+ */
+export async function waitForUserOperation(
+  bundler: BundlerClient,
+  publicClient: LogReader,
+  entryPoint: Address,
+  userOpHash: Hex,
+  options: WaitForReceiptOptions = {}
+): Promise<UserOperationOutcome> {
+  const opts = { ...DEFAULTS, ...options }
+  const deadline = Date.now() + opts.timeoutMs
+
+  const startBlock = await publicClient.getBlockNumber()
+  const fromBlock = startBlock > opts.logLookbackBlocks ? startBlock - opts.logLookbackBlocks : 0n
+
+  const scanLogs = async () => {
+    const receipt = await findUserOperationEvent(publicClient, entryPoint, userOpHash, fromBlock)
+    return receipt ? toOutcome(receipt, "logs") : null
+  }
+
+  let byHashSupported = true
+  const isKnownByBundler = async () => {
+    if (!byHashSupported) return false
+    try {
+      return (await bundler.getUserOperationByHash(userOpHash)) !== null
+    } catch (err) {
+      if (!(err instanceof MethodNotFoundError)) throw err
+      byHashSupported = false
+      return false
+    }
+  }
+
+  let interval = opts.initialIntervalMs
+  let lastError: unknown
+
+  while (Date.now() < deadline) {
+    if (opts.signal?.aborted) throw opts.signal.reason
+
+    try {
+      const receipt = await bundler.getUserOperationReceipt(userOpHash)
+      if (receipt) return toOutcome(receipt, "bundler")
+
+      // The bundler does not know the op (dropped, or answered by another bundler):
+      // check the chain directly before polling again.
+      if (!(await isKnownByBundler())) {
+        const fromLogs = await scanLogs()
+        if (fromLogs) return fromLogs
+      }
+    } catch (err) {
+      // Permanent errors: retrying would never succeed.
+      if (err instanceof MethodNotFoundError || err instanceof InvalidParamsError) throw err
+      lastError = err
+    }
+
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) break
+
+    await sleep(Math.min(withJitter(interval, opts.jitter), remaining), opts.signal)
+    interval = Math.min(interval * opts.backoffFactor, opts.maxIntervalMs)
+  }
+
+  const fromLogs = await scanLogs()
+  if (fromLogs) return fromLogs
+
+  return {
+    status: "dropped",
+    userOpHash,
+    reason:
+      `No receipt after ${opts.timeoutMs}ms` +
+      (lastError instanceof Error ? ` (last error: ${lastError.message})` : "")
+  }
+}
@@ -0,0 +1,346 @@
+import {
+  encodeFunctionData,
+  isAddress,
+  isAddressEqual,
+  recoverTypedDataAddress,
+  zeroAddress
+} from "viem"
+import type { Address, Call, ContractReader, Hex, UserOpSigner } from "./types"
+
+/**
+ * Guardian recovery of the 03-social DemoAccount: M-of-N guardians approve a new owner
+ * (EIP-712 `Recovery`), one UserOperation carrying the approvals starts the recovery, and
+ * another one executes it after the account's timelock (see DemoAccount.sol).
+ */
+
+/** Guardian approval: the EIP-712 signature of `Recovery(newOwner, nonce)` by `guardian`. */
+export interface GuardianApproval {
+  guardian: Address
+  signature: Hex
+}
+
+export interface RecoveryRequest {
+  /** The DemoAccount being recovered. */
+  account: Address
+  chainId: number
+  newOwner: Address
+  /** `DemoAccount.recoveryNonce()` when the approvals are signed. */
+  nonce: bigint
+}
+
+export const RECOVERY_TYPES = {
+  Recovery: [
+    { name: "newOwner", type: "address" },
+    { name: "nonce", type: "uint256" }
+  ]
+} as const
+
+export const RECOVERY_ABI = [
+  {
+    name: "setGuardians",
+    type: "function",
+    inputs: [
+      { name: "guardians", type: "address[]" },
+      { name: "threshold", type: "uint256" },
+      { name: "delay", type: "uint48" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    name: "startRecovery",
+    type: "function",
+    inputs: [
+      { name: "newOwner", type: "address" },
+      { name: "signatures", type: "bytes[]" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    name: "executeRecovery",
+    type: "function",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    name: "cancelRecovery",
+    type: "function",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    name: "setOwner",
+    type: "function",
+    inputs: [{ name: "newOwner", type: "address" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    name: "getGuardians",
+    type: "function",
+    inputs: [],
+    outputs: [{ type: "address[]" }],
+    stateMutability: "view"
+  },
+  {
+    name: "guardianThreshold",
+    type: "function",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    name: "recoveryDelay",
+    type: "function",
+    inputs: [],
+    outputs: [{ type: "uint48" }],
+    stateMutability: "view"
+  },
+  {
+    name: "recoveryNonce",
+    type: "function",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    name: "pendingRecovery",
+    type: "function",
+    inputs: [],
+    outputs: [
+      { name: "newOwner", type: "address" },
+      { name: "executeAfter", type: "uint48" }
+    ],
+    stateMutability: "view"
+  }
+] as const
+
+export interface RecoveryState {
+  guardians: Address[]
+  threshold: bigint
+  /** Timelock between the start and the execution, in seconds. */
+  delay: number
+  /** Nonce the next approvals must sign. */
+  nonce: bigint
+  pending: { newOwner: Address; executeAfter: number } | null
+}
+
+/** Guardian configuration and pending recovery of a deployed DemoAccount. */
+export async function readRecoveryState(
+  reader: ContractReader,
+  account: Address
+): Promise<RecoveryState> {
+  const read = (functionName: string) =>
+    reader.readContract({ address: account, abi: RECOVERY_ABI, functionName })
+
+  const [guardians, threshold, delay, nonce, pending] = await Promise.all([
+    read("getGuardians") as Promise<Address[]>,
+    read("guardianThreshold") as Promise<bigint>,
+    read("recoveryDelay") as Promise<number>,
+    read("recoveryNonce") as Promise<bigint>,
+    read("pendingRecovery") as Promise<readonly [Address, number]>
+  ])
+  return {
+    guardians: [...guardians],
+    threshold,
+    delay: Number(delay),
+    nonce,
+    pending:
+      pending[0] === zeroAddress ? null : { newOwner: pending[0], executeAfter: Number(pending[1]) }
+  }
+}
+
+/**
+ * Typed data a guardian signs (`signTypedData` of a viem account or a wallet). Domain as the
+ * session grants: DemoAccount / 1 / chainId / the account.
+ */
+export function recoveryTypedData(request: RecoveryRequest) {
+  return {
+    domain: {
+      name: "DemoAccount",
+      version: "1",
+      chainId: request.chainId,
+      verifyingContract: request.account
+    },
+    types: RECOVERY_TYPES,
+    primaryType: "Recovery",
+    message: { newOwner: request.newOwner, nonce: request.nonce }
+  } as const
+}
+
+/** Guardian that recovered `approval.signature` for `request` (offline check). */
+export async function recoverApprovalSigner(
+  request: RecoveryRequest,
+  approval: GuardianApproval
+): Promise<Address> {
+  return recoverTypedDataAddress({ ...recoveryTypedData(request), signature: approval.signature })
+}
+
+/**
+ * What a guardian hands over (JSON file, chat message...): the request it signed and its
+ * signature. Nothing secret: it only works for this account, new owner and nonce.
+ */
+export interface RecoveryApprovalFile extends GuardianApproval {
+  account: Address
+  chainId: number
+  newOwner: Address
+  nonce: string
+}
+
+export interface ParsedApproval {
+  /** Where the approval came from (file path...), for error messages. */
+  source: string
+  request: RecoveryRequest
+  approval: GuardianApproval
+}
+
+export function toRecoveryApprovalFile(
+  request: RecoveryRequest,
+  approval: GuardianApproval
+): RecoveryApprovalFile {
+  return { ...request, ...approval, nonce: request.nonce.toString() }
+}
+
+/** Shape check of a parsed approval file (the signature is checked by `checkApprovals`). */
+export function parseRecoveryApprovalFile(json: unknown, source: string): ParsedApproval {
+  const file = json as Partial<RecoveryApprovalFile>
+  for (const key of ["account", "newOwner", "guardian"] as const) {
+    if (!isAddress(file[key] ?? "")) throw new Error(`${source}: invalid ${key}`)
+  }
+  if (typeof file.signature !== "string" || !file.signature.startsWith("0x")) {
+    throw new Error(`${source}: invalid signature`)
+  }
+  if (typeof file.nonce !== "string" || !/^\d+$/.test(file.nonce)) {
+    throw new Error(`${source}: invalid nonce`)
+  }
+  return {
+    source,
+    request: {
+      account: file.account as Address,
+      chainId: Number(file.chainId),
+      newOwner: file.newOwner as Address,
+      nonce: BigInt(file.nonce)
+    },
+    approval: { guardian: file.guardian as Address, signature: file.signature }
+  }
+}
+
+/**
+ * Checks approvals offline against the account's guardians and nonce, as `startRecovery`
+ * will: right account / new owner / chain / nonce, signed by a guardian. Returns one approval
+ * per guardian, and throws on the first bad one or when fewer than the threshold remain.
+ */
+export async function checkApprovals(
+  expected: { account: Address; chainId: number; newOwner: Address },
+  state: RecoveryState,
+  parsed: ParsedApproval[]
+): Promise<GuardianApproval[]> {
+  if (state.guardians.length === 0) throw new Error(`${expected.account} has no guardians`)
+
+  const approvals: GuardianApproval[] = []
+  for (const { source, request, approval } of parsed) {
+    if (
+      !isAddressEqual(request.account, expected.account) ||
+      !isAddressEqual(request.newOwner, expected.newOwner)
+    ) {
+      throw new Error(`${source}: approves ${request.newOwner} for ${request.account}`)
+    }
+    if (request.chainId !== expected.chainId) {
+      throw new Error(`${source}: signed for chain ${request.chainId}`)
+    }
+    if (request.nonce !== state.nonce) {
+      throw new Error(
+        `${source}: signed for nonce ${request.nonce}, the account expects ${state.nonce} (ask for a new approval)`
+      )
+    }
+    const signer = await recoverApprovalSigner(request, approval)
+    if (!isAddressEqual(signer, approval.guardian)) {
+      throw new Error(`${source}: signature of ${signer}, not of ${approval.guardian}`)
+    }
+    if (!state.guardians.some((g) => isAddressEqual(g, signer))) {
+      throw new Error(`${source}: ${signer} is not a guardian of ${expected.account}`)
+    }
+    // Same guardian twice: counted once, as on-chain
+    if (!approvals.some((a) => isAddressEqual(a.guardian, signer))) approvals.push(approval)
+  }
+
+  if (BigInt(approvals.length) < state.threshold) {
+    throw new Error(`${approvals.length} guardian approval(s), ${state.threshold} needed`)
+  }
+  return approvals
+}
+
+/**
+ * callData of the recovery start: `startRecovery(newOwner, signatures)`, signatures sorted by
+ * guardian address as the account requires. Sent as the UserOperation callData itself (not
+ * through `execute`), with `RECOVERY_SIGNER`.
+ */
+export function encodeStartRecovery(newOwner: Address, approvals: GuardianApproval[]): Hex {
+  const sorted = [...approvals].sort((a, b) =>
+    BigInt(a.guardian) < BigInt(b.guardian) ? -1 : BigInt(a.guardian) > BigInt(b.guardian) ? 1 : 0
+  )
+  return encodeFunctionData({
+    abi: RECOVERY_ABI,
+    functionName: "startRecovery",
+    args: [newOwner, sorted.map((a) => a.signature)]
+  })
+}
+
+/** callData executing the pending recovery, valid once its timelock is over. */
+export function encodeExecuteRecovery(): Hex {
+  return encodeFunctionData({ abi: RECOVERY_ABI, functionName: "executeRecovery" })
+}
+
+/**
+ * Call (re)configuring the guardians from the account itself, through an owner UserOperation.
+ * Cancels any pending recovery and invalidates the approvals signed so far.
+ */
+export function setGuardiansCall(
+  account: Address,
+  guardians: Address[],
+  threshold: bigint,
+  delaySeconds: number
+): Call {
+  return {
+    target: account,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: RECOVERY_ABI,
+      functionName: "setGuardians",
+      args: [guardians, threshold, delaySeconds]
+    })
+  }
+}
+
+/** Call by which the owner cancels a pending recovery (e.g. its key was not lost after all). */
+export function cancelRecoveryCall(account: Address): Call {
+  return {
+    target: account,
+    value: 0n,
+    data: encodeFunctionData({ abi: RECOVERY_ABI, functionName: "cancelRecovery" })
+  }
+}
+
+/**
+ * Call by which the owner hands the account to `newOwner` (through an owner UserOperation):
+ * the owner key is rotated while it still works, without guardians.
+ */
+export function setOwnerCall(account: Address, newOwner: Address): Call {
+  return {
+    target: account,
+    value: 0n,
+    data: encodeFunctionData({ abi: RECOVERY_ABI, functionName: "setOwner", args: [newOwner] })
+  }
+}
+
+/**
+ * Signer of the recovery UserOperations: the account authorizes them by their callData and
+ * ignores `userOp.signature`. Use `"0x"` as the client `dummySignature` too.
+ */
+export const RECOVERY_SIGNER: UserOpSigner = {
+  address: zeroAddress,
+  signMessage: async () => "0x"
+}
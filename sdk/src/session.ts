@@ -0,0 +1,179 @@
+import {
+  concat,
+  encodeAbiParameters,
+  encodeFunctionData,
+  hashTypedData,
+  keccak256,
+  slice,
+  stringToBytes,
+  toFunctionSelector
+} from "viem"
+import { DUMMY_SIGNATURE } from "./gas"
+import type { Address, Call, Hex, UserOpSigner } from "./types"
+
+/**
+ * Session keys of the 03-social DemoAccount: an ephemeral key allowed by a one-time owner
+ * grant to make some calls, for some time, with a spend cap (see DemoAccount.sol).
+ */
+
+/** Selector standing for a plain ETH transfer (calldata shorter than 4 bytes). */
+export const ETH_TRANSFER_SELECTOR: Hex = "0x00000000"
+
+/** A call a session key may make. selector `ETH_TRANSFER_SELECTOR` = plain ETH transfer. */
+export interface SessionPermission {
+  target: Address
+  selector: Hex
+}
+
+export interface SessionGrant {
+  sessionKey: Address
+  /** Unix seconds. */
+  validAfter: number
+  /** Unix seconds, not 0 (DemoAccount refuses grants that never expire). */
+  validUntil: number
+  /**
+   * Total wei the session may spend: call value, plus the maximum gas cost (gas limits x
+   * maxFeePerGas) of each op it sends without a paymaster.
+   */
+  spendLimit: bigint
+  permissions: SessionPermission[]
+}
+
+/** `userOp.signature` prefix telling DemoAccount a session key signed. */
+export const SESSION_SIGNATURE_MAGIC: Hex = slice(
+  keccak256(stringToBytes("DemoAccount.session")),
+  0,
+  4
+)
+
+export const SESSION_GRANT_TYPES = {
+  SessionGrant: [
+    { name: "sessionKey", type: "address" },
+    { name: "validAfter", type: "uint48" },
+    { name: "validUntil", type: "uint48" },
+    { name: "spendLimit", type: "uint256" },
+    { name: "permissions", type: "SessionPermission[]" }
+  ],
+  SessionPermission: [
+    { name: "target", type: "address" },
+    { name: "selector", type: "bytes4" }
+  ]
+} as const
+
+const SESSION_GRANT_ABI = {
+  type: "tuple",
+  components: [
+    { name: "sessionKey", type: "address" },
+    { name: "validAfter", type: "uint48" },
+    { name: "validUntil", type: "uint48" },
+    { name: "spendLimit", type: "uint256" },
+    {
+      name: "permissions",
+      type: "tuple[]",
+      components: [
+        { name: "target", type: "address" },
+        { name: "selector", type: "bytes4" }
+      ]
+    }
+  ]
+} as const
+
+export const REVOKE_SESSION_ABI = [
+  {
+    name: "revokeSession",
+    type: "function",
+    inputs: [{ name: "grantHash", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable"
+  }
+] as const
+
+/** Permission for `signature` (e.g. "increment()") on `target`. */
+export function sessionPermission(target: Address, signature: string): SessionPermission {
+  return { target, selector: toFunctionSelector(signature) }
+}
+
+/** EIP-712 hash of a grant, as `DemoAccount.hashSessionGrant` computes it. */
+export function hashSessionGrant(
+  grant: SessionGrant,
+  domain: { account: Address; chainId: number }
+): Hex {
+  return hashTypedData({
+    domain: {
+      name: "DemoAccount",
+      version: "1",
+      chainId: domain.chainId,
+      verifyingContract: domain.account
+    },
+    types: SESSION_GRANT_TYPES,
+    primaryType: "SessionGrant",
+    message: grant
+  })
+}
+
+/**
+ * Owner approval of a grant: signMessage over the grant hash, i.e. the EIP-191 hash the
+ * account checks, like for a UserOperation (so passkey owners can grant too).
+ */
+export function signSessionGrant(
+  owner: UserOpSigner,
+  grant: SessionGrant,
+  domain: { account: Address; chainId: number }
+): Promise<Hex> {
+  if (grant.validUntil === 0) throw new Error("Session grant needs a validUntil (0 = no expiry)")
+  return owner.signMessage({ message: { raw: hashSessionGrant(grant, domain) } })
+}
+
+/** `userOp.signature` of a session UserOperation. */
+export function encodeSessionSignature(
+  grant: SessionGrant,
+  ownerSignature: Hex,
+  sessionSignature: Hex
+): Hex {
+  return concat([
+    SESSION_SIGNATURE_MAGIC,
+    encodeAbiParameters(
+      [SESSION_GRANT_ABI, { type: "bytes" }, { type: "bytes" }],
+      [grant, ownerSignature, sessionSignature]
+    )
+  ])
+}
+
+/**
+ * UserOpSigner signing with the session key and wrapping its signature with the grant. Use
+ * `sessionDummySignature` as the client `dummySignature`.
+ */
+export function sessionKeySigner(args: {
+  sessionKey: UserOpSigner
+  grant: SessionGrant
+  ownerSignature: Hex
+}): UserOpSigner {
+  return {
+    address: args.sessionKey.address,
+    async signMessage({ message }) {
+      const signature = await args.sessionKey.signMessage({ message })
+      return encodeSessionSignature(args.grant, args.ownerSignature, signature)
+    }
+  }
+}
+
+/**
+ * Session-shaped placeholder for gas estimation: decodes on-chain and goes through the grant
+ * checks, only the session key signature fails.
+ */
+export function sessionDummySignature(grant: SessionGrant, ownerSignature: Hex): Hex {
+  return encodeSessionSignature(grant, ownerSignature, DUMMY_SIGNATURE)
+}
+
+/** Call revoking a grant from the account itself (allowed to its own session key). */
+export function revokeSessionCall(account: Address, grantHash: Hex): Call {
+  return {
+    target: account,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: REVOKE_SESSION_ABI,
+      functionName: "revokeSession",
+      args: [grantHash]
+    })
+  }
+}
@@ -0,0 +1,166 @@
+import type { Abi, AbiEvent } from "viem"
+
+export type Address = `0x${string}`
+export type Hex = `0x${string}`
+
+/**
+ * Minimal read surface the SDK needs from a viem PublicClient.
+ * Kept structural so clients on a different viem version can pass their own client.
+ */
+export interface ContractReader {
+  readContract(parameters: {
+    address: Address
+    abi: Abi
+    functionName: string
+    args?: readonly unknown[]
+  }): Promise<unknown>
+}
+
+/**
+ * Minimal log surface the SDK needs from a viem PublicClient.
+ */
+export interface LogReader {
+  getBlockNumber(): Promise<bigint>
+  getLogs(parameters: {
+    address: Address
+    event: AbiEvent
+    args?: Record<string, unknown>
+    fromBlock?: bigint
+    toBlock?: bigint
+  }): Promise<
+    readonly { transactionHash: Hex | null; blockNumber: bigint | null; args?: unknown }[]
+  >
+}
+
+/**
+ * Minimal fee surface the SDK needs from a viem PublicClient
+ * (`eth_maxPriorityFeePerGas` + `eth_feeHistory`).
+ */
+export interface FeeReader {
+  estimateMaxPriorityFeePerGas(): Promise<bigint>
+  getFeeHistory(parameters: {
+    blockCount: number
+    rewardPercentiles: number[]
+  }): Promise<{ baseFeePerGas: bigint[]; reward?: bigint[][] }>
+}
+
+// Everything the SmartAccountClient reads from the chain
+export interface ChainReader extends ContractReader, LogReader, FeeReader {}
+
+/**
+ * UserOperation formatted for bundler RPC (numeric values as hex).
+ */
+export interface UserOperation {
+  sender: Address
+  nonce: Hex
+  initCode: Hex
+  callData: Hex
+  callGasLimit: Hex
+  verificationGasLimit: Hex
+  preVerificationGas: Hex
+  maxFeePerGas: Hex
+  maxPriorityFeePerGas: Hex
+  paymasterAndData: Hex
+  signature: Hex
+}
+
+/**
+ * UserOperation formatted for EntryPoint calls (numeric values as bigint).
+ */
+export interface EntryPointUserOperation {
+  sender: Address
+  nonce: bigint
+  initCode: Hex
+  callData: Hex
+  callGasLimit: bigint
+  verificationGasLimit: bigint
+  preVerificationGas: bigint
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  paymasterAndData: Hex
+  signature: Hex
+}
+
+// One call made by the smart account (plain ETH transfer when `data` is omitted)
+export interface Call {
+  target: Address
+  value?: bigint
+  data?: Hex
+}
+
+// Gas price fields of a UserOperation
+export interface GasPrices {
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+}
+
+// Speed tier requested from a gas price strategy
+export type GasPriceTier = "slow" | "standard" | "fast"
+
+// Gas prices for every tier (pimlico_getUserOperationGasPrice shape)
+export type GasPriceTiers = Record<GasPriceTier, GasPrices>
+
+// Gas limits of a UserOperation
+export interface GasLimits {
+  callGasLimit: bigint
+  verificationGasLimit: bigint
+  preVerificationGas: bigint
+}
+
+// UserOperation Receipt
+export interface UserOperationReceipt {
+  userOpHash: string
+  sender?: string
+  nonce?: string
+  actualGasCost?: string
+  actualGasUsed?: string
+  success?: boolean
+  paymaster?: string | null
+  logs?: unknown[]
+  receipt?: {
+    transactionHash?: string
+    [key: string]: unknown
+  }
+  [key: string]: unknown
+}
+
+// eth_getUserOperationByHash result
+export interface UserOperationByHash {
+  userOperation: UserOperation
+  entryPoint: Address
+  blockNumber: Hex | null
+  blockHash: Hex | null
+  transactionHash: Hex | null
+}
+
+// Generic JSON-RPC response envelope
+export interface JsonRpcResponse<T> {
+  jsonrpc?: string
+  id?: number | string
+  result?: T
+  error?: unknown
+}
+
+/**
+ * Anything able to sign a raw 32-byte hash with the EIP-191 prefix
+ * (e.g. a viem LocalAccount from `privateKeyToAccount`).
+ */
+export interface UserOpSigner {
+  address: Address
+  signMessage(args: { message: { raw: Hex } }): Promise<Hex>
+}
+
+/**
+ * Computes the hash that the smart account verifies in `validateUserOp`.
+ */
+export type UserOpHasher = (userOp: UserOperation) => Promise<Hex>
+
+/**
+ * Produces the `paymasterAndData` field sponsoring a UserOperation.
+ */
+export interface PaymasterSponsor {
+  /** Placeholder with the final length, used while estimating gas. */
+  getStubData(userOp: UserOperation): Promise<Hex>
+  /** Final, signed `paymasterAndData`. */
+  getData(userOp: UserOperation): Promise<Hex>
+}
@@ -0,0 +1,154 @@
+import { encodeAbiParameters, encodePacked, keccak256 } from "viem"
+import { ENTRYPOINT_ABI } from "./abi"
+import { toEntryPointUserOp, toHex } from "./encoding"
+import type { Address, ContractReader, GasLimits, Hex, UserOperation, UserOpHasher } from "./types"
+
+// Gas limits used when the caller does not provide any.
+export const DEFAULT_GAS_LIMITS: GasLimits = {
+  callGasLimit: 250_000n,
+  verificationGasLimit: 250_000n,
+  preVerificationGas: 50_000n
+}
+
+/**
+ * Builds an unsigned, unsponsored UserOperation in bundler RPC format.
+ */
+export function buildUserOperation(params: {
+  sender: Address
+  nonce: bigint
+  callData: Hex
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  initCode?: Hex
+  gasLimits?: GasLimits
+}): UserOperation {
+  const gas = params.gasLimits ?? DEFAULT_GAS_LIMITS
+
+  return {
+    sender: params.sender,
+    nonce: toHex(params.nonce),
+    initCode: params.initCode ?? "0x",
+    callData: params.callData,
+    callGasLimit: toHex(gas.callGasLimit),
+    verificationGasLimit: toHex(gas.verificationGasLimit),
+    preVerificationGas: toHex(gas.preVerificationGas),
+    maxFeePerGas: toHex(params.maxFeePerGas),
+    maxPriorityFeePerGas: toHex(params.maxPriorityFeePerGas),
+    paymasterAndData: "0x",
+    signature: "0x"
+  }
+}
+
+/**
+ * Legacy hash verified by 01/02 DemoAccounts deployed before the canonical-hash migration:
+ * keccak256(sender, nonce, keccak256(callData)). It has no chainId, EntryPoint nor gas
+ * fields, so prefer `canonicalUserOpHasher` for new accounts.
+ */
+export function computeUserOpHash(sender: Address, nonce: bigint, callData: Hex): Hex {
+  return keccak256(
+    encodePacked(["address", "uint256", "bytes32"], [sender, nonce, keccak256(callData)])
+  ) as Hex
+}
+
+/**
+ * Hasher for (legacy) accounts that verify the compact (sender, nonce, callData) hash.
+ */
+export function packedUserOpHasher(): UserOpHasher {
+  return async (op) => computeUserOpHash(op.sender, BigInt(op.nonce), op.callData)
+}
+
+/**
+ * Hasher asking the EntryPoint for the canonical `getUserOpHash` value.
+ */
+export function entryPointUserOpHasher(
+  publicClient: ContractReader,
+  entryPoint: Address
+): UserOpHasher {
+  return async (op) =>
+    (await publicClient.readContract({
+      address: entryPoint,
+      abi: ENTRYPOINT_ABI,
+      functionName: "getUserOpHash",
+      args: [toEntryPointUserOp(op)]
+    })) as Hex
+}
+
+/**
+ * EntryPoint v0.6 `getUserOpHash`, computed offline:
+ * keccak256(abi.encode(keccak256(pack(userOp)), entryPoint, chainId)),
+ * where pack() abi-encodes every field with initCode / callData / paymasterAndData hashed
+ * and the signature left out.
+ */
+export function computeCanonicalUserOpHash(
+  userOp: UserOperation,
+  entryPoint: Address,
+  chainId: bigint | number
+): Hex {
+  const packed = encodeAbiParameters(
+    [
+      { type: "address" },
+      { type: "uint256" },
+      { type: "bytes32" },
+      { type: "bytes32" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "bytes32" }
+    ],
+    [
+      userOp.sender,
+      BigInt(userOp.nonce),
+      keccak256(userOp.initCode),
+      keccak256(userOp.callData),
+      BigInt(userOp.callGasLimit),
+      BigInt(userOp.verificationGasLimit),
+      BigInt(userOp.preVerificationGas),
+      BigInt(userOp.maxFeePerGas),
+      BigInt(userOp.maxPriorityFeePerGas),
+      keccak256(userOp.paymasterAndData)
+    ]
+  )
+
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "bytes32" }, { type: "address" }, { type: "uint256" }],
+      [keccak256(packed), entryPoint, BigInt(chainId)]
+    )
+  )
+}
+
+/**
+ * Hasher computing the canonical EntryPoint v0.6 hash locally.
+ * With `crossCheck`, every hash is also read from `EntryPoint.getUserOpHash`; a mismatch
+ * (wrong chainId / EntryPoint, or an encoding bug) throws before anything is signed,
+ * unless `onMismatch` is given, in which case it is reported and the local hash is kept.
+ */
+export function canonicalUserOpHasher(params: {
+  entryPoint: Address
+  chainId: bigint | number
+  crossCheck?: ContractReader
+  onMismatch?: (mismatch: { local: Hex; onChain: Hex; userOp: UserOperation }) => void
+}): UserOpHasher {
+  const onChain = params.crossCheck
+    ? entryPointUserOpHasher(params.crossCheck, params.entryPoint)
+    : undefined
+
+  return async (op) => {
+    const local = computeCanonicalUserOpHash(op, params.entryPoint, params.chainId)
+    if (!onChain) return local
+
+    const remote = await onChain(op)
+    if (remote.toLowerCase() === local.toLowerCase()) return local
+
+    if (params.onMismatch) {
+      params.onMismatch({ local, onChain: remote, userOp: op })
+      return local
+    }
+    throw new Error(
+      `userOpHash mismatch: local ${local} != EntryPoint ${remote} ` +
+        `(check chainId ${params.chainId} and EntryPoint ${params.entryPoint})`
+    )
+  }
+}
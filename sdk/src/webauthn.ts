@@ -0,0 +1,209 @@
+import {
+  bytesToHex,
+  encodeAbiParameters,
+  encodeFunctionData,
+  hashMessage,
+  hexToBytes,
+  numberToHex,
+  stringToBytes
+} from "viem"
+import { setOwnerCall } from "./recovery"
+import type { Address, Call, Hex, UserOpSigner } from "./types"
+
+// P-256 (secp256r1) group order. PasskeyOwner (OpenZeppelin P256) only accepts s <= n / 2.
+export const P256_N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n
+
+/**
+ * Gas to add to the estimated verificationGasLimit of passkey-owned accounts
+ * (`extraVerificationGas`): the dummy signature fails before the P-256 check, and on chains
+ * without the RIP-7212 precompile that check runs in Solidity.
+ */
+export const WEBAUTHN_VERIFICATION_GAS = 400_000n
+
+/** P-256 public key as the bytes32 (qx, qy) pair PasskeyOwner stores. */
+export interface P256PublicKey {
+  x: Hex
+  y: Hex
+}
+
+/** The parts of an `AuthenticatorAssertionResponse` the contract needs. */
+export interface WebAuthnAssertion {
+  authenticatorData: Hex
+  /** clientDataJSON exactly as returned by the authenticator (UTF-8). */
+  clientDataJSON: string
+  /** ASN.1 DER ECDSA signature, as returned by `navigator.credentials.get`. */
+  signature: Hex
+}
+
+// SubjectPublicKeyInfo header of an uncompressed P-256 key (id-ecPublicKey, prime256v1)
+const P256_SPKI_PREFIX = "3059301306072a8648ce3d020106082a8648ce3d030107034200"
+
+/**
+ * Extracts (x, y) from `AuthenticatorAttestationResponse.getPublicKey()` (SPKI DER) or from a
+ * raw uncompressed point (0x04 ++ x ++ y).
+ */
+export function parseP256PublicKey(key: Hex): P256PublicKey {
+  const hex = key.slice(2).toLowerCase()
+  const point = hex.startsWith(P256_SPKI_PREFIX) ? hex.slice(P256_SPKI_PREFIX.length) : hex
+
+  if (point.length !== 130 || !point.startsWith("04")) {
+    throw new Error("Not an uncompressed P-256 public key (SPKI or 0x04 ++ x ++ y)")
+  }
+  return { x: `0x${point.slice(2, 66)}`, y: `0x${point.slice(66)}` }
+}
+
+/**
+ * Splits an ASN.1 DER ECDSA signature (SEQUENCE { INTEGER r, INTEGER s }) into r and s.
+ */
+export function parseDerSignature(der: Hex): { r: bigint; s: bigint } {
+  const bytes = hexToBytes(der)
+  let offset = 0
+
+  const expect = (tag: number, what: string) => {
+    if (bytes[offset] !== tag) throw new Error(`Invalid DER signature: expected ${what}`)
+    offset++
+  }
+  const readInteger = () => {
+    expect(0x02, "INTEGER")
+    const length = bytes[offset++]
+    if (length === undefined || length === 0 || length > 33 || offset + length > bytes.length) {
+      throw new Error("Invalid DER signature: bad INTEGER length")
+    }
+    const value = BigInt(bytesToHex(bytes.subarray(offset, offset + length)))
+    offset += length
+    return value
+  }
+
+  expect(0x30, "SEQUENCE")
+  if (bytes[offset++] !== bytes.length - 2) throw new Error("Invalid DER signature: bad length")
+  const r = readInteger()
+  const s = readInteger()
+  if (offset !== bytes.length) throw new Error("Invalid DER signature: trailing bytes")
+  return { r, s }
+}
+
+/**
+ * ECDSA signatures are malleable: (r, n - s) is valid too. Authenticators return either,
+ * the contract only the low-s one.
+ */
+export function normalizeP256S(s: bigint): bigint {
+  return s > P256_N / 2n ? P256_N - s : s
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array): number {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (haystack[i + j] !== needle[j]) continue outer
+    return i
+  }
+  return -1
+}
+
+/**
+ * ABI-encodes an assertion as OpenZeppelin `WebAuthn.WebAuthnAuth`
+ * (r, s, challengeIndex, typeIndex, authenticatorData, clientDataJSON), the layout
+ * `WebAuthn.tryDecodeAuth` reads: this is the `userOp.signature` of a passkey-owned account.
+ *
+ * The indexes are byte offsets of `"challenge":"` and `"type":"webauthn.get"` in
+ * clientDataJSON, where the contract checks the expected challenge and type.
+ */
+export function encodeWebAuthnSignature(assertion: WebAuthnAssertion): Hex {
+  const clientData = stringToBytes(assertion.clientDataJSON)
+  const challengeIndex = indexOfBytes(clientData, stringToBytes('"challenge":"'))
+  const typeIndex = indexOfBytes(clientData, stringToBytes('"type":"webauthn.get"'))
+  if (challengeIndex < 0 || typeIndex < 0) {
+    throw new Error('clientDataJSON has no "challenge" or no "type":"webauthn.get"')
+  }
+
+  const { r, s } = parseDerSignature(assertion.signature)
+
+  return encodeAbiParameters(
+    [
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+      { name: "challengeIndex", type: "uint256" },
+      { name: "typeIndex", type: "uint256" },
+      { name: "authenticatorData", type: "bytes" },
+      { name: "clientDataJSON", type: "string" }
+    ],
+    [
+      numberToHex(r, { size: 32 }),
+      numberToHex(normalizeP256S(s), { size: 32 }),
+      BigInt(challengeIndex),
+      BigInt(typeIndex),
+      assertion.authenticatorData,
+      assertion.clientDataJSON
+    ]
+  )
+}
+
+/**
+ * UserOpSigner for an account owned by a PasskeyOwner at `address`. The WebAuthn challenge is
+ * the hash DemoAccount checks (EIP-191 hash of the userOpHash); `getAssertion` runs
+ * `navigator.credentials.get` with it (or any authenticator returning the same fields).
+ */
+export function webAuthnSigner(config: {
+  address: Address
+  getAssertion(challenge: Hex): Promise<WebAuthnAssertion>
+}): UserOpSigner {
+  return {
+    address: config.address,
+    async signMessage({ message }) {
+      const assertion = await config.getAssertion(hashMessage({ raw: message.raw }))
+      return encodeWebAuthnSignature(assertion)
+    }
+  }
+}
+
+const DEPLOY_PASSKEY_OWNER_ABI = [
+  {
+    name: "deployPasskeyOwner",
+    type: "function",
+    inputs: [
+      { name: "qx", type: "bytes32" },
+      { name: "qy", type: "bytes32" }
+    ],
+    outputs: [{ name: "passkeyOwner", type: "address" }],
+    stateMutability: "nonpayable"
+  }
+] as const
+
+/**
+ * Calls of the bootstrap UserOperation of a passkey-owned account. ERC-7562 allows a single
+ * CREATE2 during validation (the account's own), so the PasskeyOwner cannot be deployed by
+ * the `initCode`: the account is created with a throwaway ECDSA owner that signs this one op,
+ * whose calls deploy the PasskeyOwner (`AccountFactory.deployPasskeyOwner`) and make it the
+ * owner. `passkeyOwner` is `AccountFactory.getPasskeyOwnerAddress(x, y)`.
+ */
+export function passkeyOwnerSetupCalls(params: {
+  factory: Address
+  account: Address
+  publicKey: P256PublicKey
+  passkeyOwner: Address
+}): Call[] {
+  const { factory, account, publicKey, passkeyOwner } = params
+  return [
+    {
+      target: factory,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: DEPLOY_PASSKEY_OWNER_ABI,
+        functionName: "deployPasskeyOwner",
+        args: [publicKey.x, publicKey.y]
+      })
+    },
+    setOwnerCall(account, passkeyOwner)
+  ]
+}
+
+/**
+ * Passkey-shaped placeholder for gas estimation (`dummySignature`): it decodes on-chain and
+ * has the usual size, but its challenge never matches, so validation returns
+ * SIG_VALIDATION_FAILED without reaching the P-256 check (see WEBAUTHN_VERIFICATION_GAS).
+ */
+export const WEBAUTHN_DUMMY_SIGNATURE: Hex = encodeWebAuthnSignature({
+  // rpIdHash (32 bytes) ++ flags (UP | UV) ++ signCount (4 bytes)
+  authenticatorData: `0x${"49".repeat(32)}0500000000`,
+  clientDataJSON: `{"type":"webauthn.get","challenge":"${"A".repeat(43)}","origin":"https://localhost:5173","crossOrigin":false}`,
+  // SEQUENCE { INTEGER 0x7f..7f (32 bytes), INTEGER 0x7f..7f (32 bytes) }
+  signature: `0x30440220${"7f".repeat(32)}0220${"7f".repeat(32)}`
+})
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { SmartAccountClient } from "../src/client"
+import { decodeNonce } from "../src/nonce"
+import type { ChainReader, UserOpSigner } from "../src/types"
+import { DEFAULT_GAS_LIMITS } from "../src/userOperation"
+
+const ENTRYPOINT = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789"
+const SENDER = "0x1111111111111111111111111111111111111111"
+
+// Offline: getNonce answers `onChainNonce`, nothing else is read
+function client(params: { onChainNonce?: bigint; sponsorError?: Error; signError?: Error }) {
+  const publicClient = {
+    readContract: async () => params.onChainNonce ?? 0n
+  } as unknown as ChainReader
+  const signer: UserOpSigner = {
+    address: SENDER,
+    signMessage: async () => {
+      if (params.signError) throw params.signError
+      return "0x01"
+    }
+  }
+  return new SmartAccountClient({
+    publicClient,
+    bundlerUrl: "http://127.0.0.1:1",
+    entryPoint: ENTRYPOINT,
+    sender: SENDER,
+    signer,
+    hashUserOp: async () => `0x${"00".repeat(32)}`,
+    paymaster: {
+      getStubData: async () => "0x",
+      getData: async () => {
+        if (params.sponsorError) throw params.sponsorError
+        return "0x"
+      }
+    }
+  })
+}
+
+const buildParams = {
+  gasPrices: { maxFeePerGas: 1n, maxPriorityFeePerGas: 1n },
+  gasLimits: DEFAULT_GAS_LIMITS
+}
+
+test("a failed sponsorship releases the reserved nonce", async () => {
+  const aa = client({ onChainNonce: 5n, sponsorError: new Error("SENDER_DENIED") })
+  await assert.rejects(aa.executeCalls([{ target: SENDER, data: "0x" }], buildParams), {
+    message: "SENDER_DENIED"
+  })
+  assert.deepEqual(aa.nonces.inFlight(), [])
+  assert.equal(decodeNonce(await aa.nonces.reserve()).sequence, 5n)
+})
+
+test("a cancelled signature releases the reserved nonce", async () => {
+  const aa = client({ signError: new Error("NotAllowedError") })
+  const userOp = await aa.buildUserOp({ callData: "0x", ...buildParams })
+  await assert.rejects(aa.sponsorAndSign(userOp), { message: "NotAllowedError" })
+  assert.equal(await aa.nonces.reserve(), BigInt(userOp.nonce))
+})
+
+test("releaseNonce frees an op built and never sent", async () => {
+  const aa = client({})
+  const first = await aa.buildUserOp({ callData: "0x", ...buildParams })
+  const second = await aa.buildUserOp({ callData: "0x", ...buildParams })
+  assert.equal(BigInt(second.nonce), BigInt(first.nonce) + 1n)
+
+  aa.releaseNonce(first)
+  assert.equal(await aa.nonces.reserve(), BigInt(first.nonce))
+})
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { concat, encodeAbiParameters, keccak256, slice, stringToHex } from "viem"
+import {
+  accountAddressCalculator,
+  accountFactorySalt,
+  accountInitCodeHash,
+  computeAccountAddress,
+  creationCodeFromArtifact
+} from "../src/counterfactual"
+
+const ENTRYPOINT = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789"
+const FACTORY = "0x2222222222222222222222222222222222222222"
+const UUID = "google-sub-123:V2"
+const BACKEND_SALT = keccak256(stringToHex("backend-salt"))
+// Any bytecode will do: the address only depends on its hash
+const CREATION_CODE = "0x6080604052348015600f57600080fd5b50"
+
+// Known vector, computed from the CREATE2 definition (EIP-1014):
+// keccak256(0xff ++ factory ++ keccak256(abi.encodePacked(uuid, salt)) ++ keccak256(initCode))[12:]
+const EXPECTED_ADDRESS = "0x16cbD923D4Bd866ab2A39cf811CDa0c4a6294827"
+
+test("accountFactorySalt is keccak256(abi.encodePacked(uuidString, backendSalt))", () => {
+  assert.equal(
+    accountFactorySalt(UUID, BACKEND_SALT),
+    keccak256(concat([stringToHex(UUID), BACKEND_SALT]))
+  )
+})
+
+test("accountInitCodeHash appends the abi-encoded EntryPoint to the creation code", () => {
+  assert.equal(
+    accountInitCodeHash(CREATION_CODE, ENTRYPOINT),
+    keccak256(concat([CREATION_CODE, encodeAbiParameters([{ type: "address" }], [ENTRYPOINT])]))
+  )
+})
+
+test("computeAccountAddress matches the CREATE2 formula", () => {
+  const initCodeHash = accountInitCodeHash(CREATION_CODE, ENTRYPOINT)
+  const salt = accountFactorySalt(UUID, BACKEND_SALT)
+  const create2 = slice(keccak256(concat(["0xff", FACTORY, salt, initCodeHash])), 12)
+
+  const address = computeAccountAddress({
+    factory: FACTORY,
+    uuidString: UUID,
+    backendSalt: BACKEND_SALT,
+    initCodeHash
+  })
+  assert.equal(address.toLowerCase(), create2)
+  assert.equal(address, EXPECTED_ADDRESS)
+})
+
+test("accountAddressCalculator gives the same addresses", () => {
+  const addressOf = accountAddressCalculator({
+    factory: FACTORY,
+    entryPoint: ENTRYPOINT,
+    creationCode: CREATION_CODE
+  })
+  assert.equal(addressOf(UUID, BACKEND_SALT), EXPECTED_ADDRESS)
+  assert.notEqual(addressOf("google-sub-123:passkey", BACKEND_SALT), EXPECTED_ADDRESS)
+})
+
+test("creationCodeFromArtifact reads Foundry and Hardhat artifacts", () => {
+  assert.equal(creationCodeFromArtifact({ bytecode: { object: CREATION_CODE } }), CREATION_CODE)
+  assert.equal(creationCodeFromArtifact({ bytecode: CREATION_CODE }), CREATION_CODE)
+  assert.throws(() => creationCodeFromArtifact({ bytecode: { object: "0x" } }), /no creation/)
+  assert.throws(() => creationCodeFromArtifact(null), /no creation/)
+})
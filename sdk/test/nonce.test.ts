@@ -0,0 +1,61 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { createNonceManager, decodeNonce, encodeNonce, MAX_NONCE_KEY } from "../src/nonce"
+import type { ContractReader } from "../src/types"
+
+const ENTRYPOINT = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789"
+const SENDER = "0x1111111111111111111111111111111111111111"
+
+// Offline EntryPoint: getNonce(sender, key) answers the sequence set for that key
+function nonceManager(onChain: Map<bigint, bigint>) {
+  const publicClient = {
+    readContract: async ({ args }: { args: [string, bigint] }) =>
+      encodeNonce(args[1], onChain.get(args[1]) ?? 0n)
+  } as unknown as ContractReader
+  return createNonceManager(publicClient, ENTRYPOINT, SENDER)
+}
+
+test("encodeNonce / decodeNonce split key and sequence", () => {
+  assert.equal(encodeNonce(1n, 2n), (1n << 64n) | 2n)
+  assert.deepEqual(decodeNonce(encodeNonce(MAX_NONCE_KEY, 7n)), {
+    key: MAX_NONCE_KEY,
+    sequence: 7n
+  })
+  assert.throws(() => encodeNonce(MAX_NONCE_KEY + 1n, 0n), /uint192/)
+  assert.throws(() => encodeNonce(0n, 1n << 64n), /uint64/)
+})
+
+test("parallel reservations on a key get consecutive sequences", async () => {
+  const nonces = nonceManager(new Map([[0n, 3n]]))
+  const reserved = await Promise.all([nonces.reserve(), nonces.reserve(), nonces.reserve()])
+  assert.deepEqual(reserved, [3n, 4n, 5n])
+  assert.deepEqual(nonces.inFlight(0n), [3n, 4n, 5n])
+})
+
+test("keys have independent sequences", async () => {
+  const nonces = nonceManager(new Map([[2n, 9n]]))
+  assert.equal(await nonces.reserve(1n), encodeNonce(1n, 0n))
+  assert.equal(await nonces.reserve(2n), encodeNonce(2n, 9n))
+  assert.equal(await nonces.reserve(1n), encodeNonce(1n, 1n))
+  assert.deepEqual(nonces.inFlight(1n), [encodeNonce(1n, 0n), encodeNonce(1n, 1n)])
+  assert.equal(nonces.inFlight().length, 3)
+})
+
+test("a released sequence is handed out again", async () => {
+  const nonces = nonceManager(new Map())
+  const first = await nonces.reserve()
+  await nonces.reserve()
+  nonces.release(first)
+  assert.equal(await nonces.reserve(), first)
+})
+
+test("sequences used on-chain are forgotten", async () => {
+  const onChain = new Map([[0n, 0n]])
+  const nonces = nonceManager(onChain)
+  await nonces.reserve()
+  await nonces.reserve()
+  // Both ops included without being released (e.g. the tab was closed while waiting)
+  onChain.set(0n, 2n)
+  assert.equal(await nonces.reserve(), 2n)
+  assert.deepEqual(nonces.inFlight(), [2n])
+})
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { toFunctionSelector } from "viem"
+import { encodeCalls } from "../src/encoding"
+import { createSponsorshipPolicyEngine, parseSponsorshipPolicy } from "../src/policy"
+import { encodeExecuteRecovery } from "../src/recovery"
+import type { Address, Hex, UserOperation } from "../src/types"
+
+const SENDER = "0x1111111111111111111111111111111111111111"
+const DEMO_LOGIC = "0x2222222222222222222222222222222222222222"
+const FACTORY = "0x3333333333333333333333333333333333333333"
+const OTHER = "0x4444444444444444444444444444444444444444"
+const INCREMENT = toFunctionSelector("increment()")
+
+// maxSponsoredGasCost = (1 + 1 * 3 + 1) * 1 = 5 wei
+function userOp(overrides: Partial<UserOperation>): UserOperation {
+  return {
+    sender: SENDER,
+    nonce: "0x0",
+    initCode: "0x",
+    callData: encodeCalls([{ target: DEMO_LOGIC, data: INCREMENT }]),
+    callGasLimit: "0x1",
+    verificationGasLimit: "0x1",
+    preVerificationGas: "0x1",
+    maxFeePerGas: "0x1",
+    maxPriorityFeePerGas: "0x1",
+    paymasterAndData: "0x",
+    signature: "0x",
+    ...overrides
+  }
+}
+
+function engine(policy: Record<string, unknown>, now = () => 0) {
+  return createSponsorshipPolicyEngine(
+    parseSponsorshipPolicy({
+      allow: [{ target: DEMO_LOGIC, selectors: ["increment()"] }],
+      factories: [FACTORY],
+      ...policy
+    }),
+    { now }
+  )
+}
+
+const rejected = (reason: string) => ({ name: "SponsorshipRejectedError", reason })
+
+test("parseSponsorshipPolicy rejects malformed policies", () => {
+  assert.throws(() => parseSponsorshipPolicy({ allow: {} }), /allow must be a list/)
+  assert.throws(() => parseSponsorshipPolicy({ deny: { senders: ["0x12"] } }), /deny.senders\[0\]/)
+  assert.throws(() => parseSponsorshipPolicy({ recovery: "yes" }), /recovery must be true/)
+  assert.throws(() => parseSponsorshipPolicy({ quotas: { opsPerDay: -1 } }), /opsPerDay/)
+})
+
+test("allowed targets and selectors are sponsored, every call of a batch is checked", async () => {
+  const policy = engine({})
+  await policy.check(userOp({}))
+
+  const withOther = (data: Hex, target: Address = DEMO_LOGIC) =>
+    userOp({
+      callData: encodeCalls([
+        { target: DEMO_LOGIC, data: INCREMENT },
+        { target, data }
+      ])
+    })
+  await assert.rejects(policy.check(withOther("0x12345678")), rejected("SELECTOR_NOT_ALLOWED"))
+  await assert.rejects(policy.check(withOther(INCREMENT, OTHER)), rejected("TARGET_NOT_ALLOWED"))
+  await assert.rejects(
+    policy.check(userOp({ callData: "0xdeadbeef" })),
+    rejected("INVALID_CALLDATA")
+  )
+})
+
+test("deny lists, factories, recovery and the fee cap", async () => {
+  const policy = engine({ deny: { senders: [SENDER] } })
+  await assert.rejects(policy.check(userOp({})), rejected("SENDER_DENIED"))
+
+  const open = engine({ maxFeePerGas: "10" })
+  await open.check(userOp({ initCode: `${FACTORY}1234` }))
+  await assert.rejects(
+    open.check(userOp({ initCode: `${OTHER}1234` })),
+    rejected("FACTORY_NOT_ALLOWED")
+  )
+  await assert.rejects(open.check(userOp({ maxFeePerGas: "0xb" })), rejected("MAX_FEE_TOO_HIGH"))
+
+  const recoveryOp = userOp({ callData: encodeExecuteRecovery() })
+  await assert.rejects(open.check(recoveryOp), rejected("RECOVERY_NOT_SPONSORED"))
+  await engine({ recovery: true }).check(recoveryOp)
+})
+
+test("daily quotas are reserved before signing, released on failure and reset every day", async () => {
+  let now = 0
+  const policy = engine({ quotas: { opsPerDay: 2, gasCostPerDay: "9" } }, () => now)
+
+  // 5 wei each: the second op would go over 9 wei
+  const release = await policy.reserve(userOp({}))
+  await assert.rejects(policy.reserve(userOp({})), rejected("DAILY_GAS_QUOTA_EXCEEDED"))
+  await release()
+  await policy.reserve(userOp({}))
+  await assert.rejects(policy.check(userOp({})), rejected("DAILY_GAS_QUOTA_EXCEEDED"))
+
+  now = 86_400_000
+  await policy.check(userOp({}))
+  await policy.reserve(userOp({ maxFeePerGas: "0x0" }))
+  await policy.reserve(userOp({ maxFeePerGas: "0x0" }))
+  await assert.rejects(
+    policy.reserve(userOp({ maxFeePerGas: "0x0" })),
+    rejected("DAILY_OP_QUOTA_EXCEEDED")
+  )
+})